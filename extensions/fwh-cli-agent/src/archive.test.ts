@@ -0,0 +1,96 @@
+/**
+ * Unit tests for archiveCliFile and auto-archive policy (Invoke-CcliClean parity).
+ */
+
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  archiveCliFile,
+  autoArchiveReason,
+  defaultCliContent,
+  formatArchiveEntry,
+  HISTORY_HEADER,
+  CLI_HISTORY_FILE,
+} from './archive';
+
+describe('archive', () => {
+  const now = new Date(2026, 0, 25, 15, 50, 14);
+  let tmp: string;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-archive-'));
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
+  });
+
+  describe('formatArchiveEntry', () => {
+    it('uses the Invoke-CcliClean separator', () => {
+      assert.strictEqual(formatArchiveEntry('X', '2026-01-25 15:50:14'), '\n\n---\n## Archive Entry: 2026-01-25 15:50:14\n---\n\nX');
+    });
+  });
+
+  describe('defaultCliContent', () => {
+    it('fills the timestamp and has no trailing newline', () => {
+      const c = defaultCliContent('2026-01-25 15:50:14');
+      assert.ok(c.startsWith('# CLI Agent\n'));
+      assert.ok(c.endsWith('---\n*Last updated: 2026-01-25 15:50:14*'));
+    });
+  });
+
+  describe('archiveCliFile', () => {
+    it('creates CLI-history.md with header and resets CLI.md', () => {
+      const cli = path.join(tmp, 'CLI.md');
+      fs.writeFileSync(cli, '\uFEFFold content\r\n');
+      const r = archiveCliFile(tmp, cli, now);
+      assert.strictEqual(r.historyPath, path.join(path.resolve(tmp), CLI_HISTORY_FILE));
+      assert.strictEqual(
+        fs.readFileSync(r.historyPath, 'utf8'),
+        HISTORY_HEADER + '\n\n---\n## Archive Entry: 2026-01-25 15:50:14\n---\n\nold content\r\n'
+      );
+      assert.strictEqual(fs.readFileSync(cli, 'utf8'), defaultCliContent('2026-01-25 15:50:14'));
+    });
+
+    it('appends to an existing CLI-history.md', () => {
+      const cli = path.join(tmp, 'CLI.md');
+      const hist = path.join(tmp, CLI_HISTORY_FILE);
+      fs.writeFileSync(cli, 'second');
+      fs.writeFileSync(hist, 'existing');
+      archiveCliFile(tmp, cli, now);
+      assert.strictEqual(fs.readFileSync(hist, 'utf8'), 'existing\n\n---\n## Archive Entry: 2026-01-25 15:50:14\n---\n\nsecond');
+    });
+
+    it('throws when CLI.md is outside the workspace root', () => {
+      const outside = path.join(path.dirname(tmp), 'CLI.md');
+      assert.throws(() => archiveCliFile(tmp, outside, now), /outside workspace root/);
+    });
+
+    it('throws when CLI.md is missing', () => {
+      assert.throws(() => archiveCliFile(tmp, path.join(tmp, 'CLI.md'), now), /CLI file not found/);
+      assert.strictEqual(fs.existsSync(path.join(tmp, CLI_HISTORY_FILE)), false);
+    });
+  });
+
+  describe('autoArchiveReason', () => {
+    const content = '## Results\n\n### Command: `prompt a`\nx\n\n### Command: `prompt b`\ny\n\n---\n*Last updated: t*';
+
+    it('null without policy or limits', () => {
+      assert.strictEqual(autoArchiveReason(content, undefined), null);
+      assert.strictEqual(autoArchiveReason(content, {}), null);
+      assert.strictEqual(autoArchiveReason(content, { MaxResultsBytes: 0, MaxProcessedPrompts: 0 }), null);
+    });
+
+    it('triggers on processed prompt count', () => {
+      assert.strictEqual(autoArchiveReason(content, { MaxProcessedPrompts: 3 }), null);
+      assert.match(autoArchiveReason(content, { MaxProcessedPrompts: 2 }) ?? '', /2 processed prompt/);
+    });
+
+    it('triggers on Results size', () => {
+      assert.strictEqual(autoArchiveReason(content, { MaxResultsBytes: 10_000 }), null);
+      assert.match(autoArchiveReason(content, { MaxResultsBytes: 10 }) ?? '', /bytes \(limit 10\)/);
+    });
+  });
+});
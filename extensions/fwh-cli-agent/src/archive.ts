@@ -0,0 +1,108 @@
+/**
+ * Archive CLI.md into CLI-history.md. Mirrors FWH.Prompts Invoke-CcliClean byte for byte:
+ * same separator, history header, default CLI.md template and UTF-8 without BOM. Uses fs; no vscode dependency.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { isUnderWorkspaceRoot } from './parser';
+import { countResultEntries, formatTimestamp, getResultsSection } from './results';
+
+export const CLI_HISTORY_FILE = 'CLI-history.md';
+
+/** Same as the $historyHeader here-string in Invoke-CcliClean. */
+export const HISTORY_HEADER = '# CLI History\n\nThis file contains archived content from CLI.md.\n';
+
+/** Same as $script:CcliDefaultCliTemplate (CR-PSM-2.4.4); PLACEHOLDER is replaced by the timestamp. */
+export const DEFAULT_CLI_TEMPLATE = [
+  '# CLI Agent',
+  '',
+  'This file is monitored by the CLI Agent. Add commands below and the agent will execute them.',
+  '',
+  '## Usage',
+  '',
+  'Add commands in the format:',
+  '```cli',
+  'help',
+  '```',
+  '',
+  'The agent will execute the command and append results below.',
+  '',
+  '## Commands',
+  '',
+  '## Prompts',
+  '',
+  '## Results',
+  '',
+  '_Results will appear here after commands are executed._',
+  '',
+  '---',
+  '*Last updated: PLACEHOLDER*',
+].join('\n');
+
+export function defaultCliContent(timestamp: string): string {
+  return DEFAULT_CLI_TEMPLATE.replace('PLACEHOLDER', timestamp);
+}
+
+export function formatArchiveEntry(content: string, timestamp: string): string {
+  return `\n\n---\n## Archive Entry: ${timestamp}\n---\n\n${content}`;
+}
+
+/** cli-agent.json CliAgent.AutoArchive. Either limit triggers an archive; unset or <= 0 disables it. */
+export interface AutoArchivePolicy {
+  MaxResultsBytes?: number;
+  MaxProcessedPrompts?: number;
+}
+
+/** Returns a human-readable reason when CLI.md should be auto-archived, else null. */
+export function autoArchiveReason(content: string, policy: AutoArchivePolicy | undefined): string | null {
+  if (!policy) return null;
+  const maxBytes = Number(policy.MaxResultsBytes);
+  if (maxBytes > 0) {
+    const bytes = Buffer.byteLength(getResultsSection(content), 'utf8');
+    if (bytes > maxBytes) return `## Results is ${bytes} bytes (limit ${maxBytes})`;
+  }
+  const maxPrompts = Number(policy.MaxProcessedPrompts);
+  if (maxPrompts > 0) {
+    const count = countResultEntries(content);
+    if (count >= maxPrompts) return `${count} processed prompt(s) in ## Results (limit ${maxPrompts})`;
+  }
+  return null;
+}
+
+export interface ArchiveResult {
+  historyPath: string;
+  timestamp: string;
+}
+
+/**
+ * Appends CLI.md to CLI-history.md (in the workspace root) under `## Archive Entry: <timestamp>`,
+ * creating the history file with its header if needed, then resets CLI.md to the default template.
+ * Throws when either path is outside the workspace root (CR-EXT-1.1.1) or CLI.md does not exist.
+ */
+export function archiveCliFile(workspaceRoot: string, cliMdPath: string, now: Date = new Date()): ArchiveResult {
+  const rootResolved = path.resolve(workspaceRoot);
+  const historyPath = path.join(rootResolved, CLI_HISTORY_FILE);
+  if (!isUnderWorkspaceRoot(rootResolved, cliMdPath)) {
+    throw new Error(`CLI.md path is outside workspace root: ${cliMdPath}`);
+  }
+  if (!isUnderWorkspaceRoot(rootResolved, historyPath)) {
+    throw new Error(`CLI-history.md path is outside workspace root: ${historyPath}`);
+  }
+  if (!fs.existsSync(cliMdPath)) {
+    throw new Error(`CLI file not found: ${cliMdPath}`);
+  }
+
+  // Get-Content -Raw drops a UTF-8 BOM; do the same.
+  const current = fs.readFileSync(cliMdPath, 'utf8').replace(/^\uFEFF/, '');
+  const timestamp = formatTimestamp(now);
+  const entry = formatArchiveEntry(current, timestamp);
+
+  if (fs.existsSync(historyPath)) {
+    fs.appendFileSync(historyPath, entry, 'utf8');
+  } else {
+    fs.writeFileSync(historyPath, HISTORY_HEADER + entry, 'utf8');
+  }
+  fs.writeFileSync(cliMdPath, defaultCliContent(timestamp), 'utf8');
+  return { historyPath, timestamp };
+}
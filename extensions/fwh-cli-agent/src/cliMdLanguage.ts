@@ -0,0 +1,111 @@
+/**
+ * Editor support for the workspace CLI.md: diagnostics for ```cli blocks (lintCliMd), Run now / Open form
+ * CodeLenses above ```cli blocks and `### Prompt:` headings, and prompt name completion after `prompt `.
+ */
+
+import * as vscode from 'vscode';
+import { lintCliMd, promptNamePrefixAt, scanCliMd } from './cliMdLint';
+import { isPromptCommand } from './parser';
+import type { LintSeverity } from './promptsMdLint';
+import type { PromptListItem } from './promptList';
+import { OPEN_PROMPTS_MD_FORM_COMMAND } from './promptsLanguage';
+
+/** CodeLens commands; both take the CLI.md URI and the offset of the block or heading. */
+export const RUN_CLI_BLOCK_COMMAND = 'fwhCliAgent.runCliBlock';
+export const RUN_CLI_MD_REVISION_COMMAND = 'fwhCliAgent.runCliMdRevision';
+
+const SEVERITIES: Record<LintSeverity, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+};
+
+export interface CliMdLanguageDeps {
+  /** True for the CLI.md (CliMdPath) of a workspace folder. */
+  isCliMd: (doc: vscode.TextDocument) => boolean;
+  /** loadPromptList for the document's workspace folder. */
+  prompts: (doc: vscode.TextDocument) => PromptListItem[];
+  /** Registered ```cli verbs other than prompt. */
+  verbs: () => string[];
+}
+
+export class CliMdLanguageFeatures implements vscode.Disposable {
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection('fwh-cli-md');
+  private readonly disposables: vscode.Disposable[] = [this.diagnostics];
+
+  constructor(private readonly deps: CliMdLanguageDeps) {
+    const selector: vscode.DocumentSelector = { language: 'markdown', scheme: 'file' };
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument((d) => this.lint(d)),
+      vscode.workspace.onDidChangeTextDocument((e) => this.lint(e.document)),
+      // prompts.md edits change which prompt commands are valid.
+      vscode.workspace.onDidSaveTextDocument(() => this.refresh()),
+      vscode.workspace.onDidCloseTextDocument((d) => this.diagnostics.delete(d.uri)),
+      vscode.languages.registerCodeLensProvider(selector, { provideCodeLenses: (d) => this.codeLenses(d) }),
+      vscode.languages.registerCompletionItemProvider(selector, { provideCompletionItems: (d, p) => this.completions(d, p) }, ' ')
+    );
+    this.refresh();
+  }
+
+  /** Re-lints every open CLI.md, e.g. after CliMdPath changed or a verb was registered. */
+  refresh(): void {
+    this.diagnostics.clear();
+    for (const d of vscode.workspace.textDocuments) this.lint(d);
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) d.dispose();
+  }
+
+  private lint(doc: vscode.TextDocument): void {
+    if (!this.deps.isCliMd(doc)) return;
+    const promptsMd = this.deps.prompts(doc).flatMap((i) => (i.prompt ? [i.prompt] : []));
+    this.diagnostics.set(
+      doc.uri,
+      lintCliMd(doc.getText(), promptsMd, this.deps.verbs()).map((i) => {
+        const d = new vscode.Diagnostic(new vscode.Range(i.line, i.start, i.line, Math.max(i.end, i.start + 1)), i.message, SEVERITIES[i.severity]);
+        d.source = 'FWH CLI Agent';
+        return d;
+      })
+    );
+  }
+
+  private codeLenses(doc: vscode.TextDocument): vscode.CodeLens[] {
+    if (!this.deps.isCliMd(doc)) return [];
+    const inPromptsMd = new Set(this.deps.prompts(doc).flatMap((i) => (i.prompt ? [i.name] : [])));
+    const outline = scanCliMd(doc.getText());
+    const lenses: vscode.CodeLens[] = [];
+    const formLens = (range: vscode.Range, name: string) => {
+      if (inPromptsMd.has(name)) lenses.push(new vscode.CodeLens(range, { title: 'Open form', command: OPEN_PROMPTS_MD_FORM_COMMAND, arguments: [doc.uri, name] }));
+    };
+    for (const b of outline.blocks) {
+      if (b.inert || !b.command) continue;
+      const range = new vscode.Range(b.line, 0, b.line, 0);
+      lenses.push(new vscode.CodeLens(range, { title: '$(play) Run now', command: RUN_CLI_BLOCK_COMMAND, arguments: [doc.uri, b.index] }));
+      const pr = isPromptCommand(b.command);
+      if (pr) formLens(range, pr.name);
+    }
+    for (const h of outline.promptHeadings) {
+      const range = new vscode.Range(h.line, 0, h.line, 0);
+      lenses.push(new vscode.CodeLens(range, { title: '$(play) Run now', command: RUN_CLI_MD_REVISION_COMMAND, arguments: [doc.uri, h.index] }));
+      formLens(range, h.name);
+    }
+    return lenses;
+  }
+
+  private completions(doc: vscode.TextDocument, pos: vscode.Position): vscode.CompletionItem[] {
+    if (!this.deps.isCliMd(doc)) return [];
+    const lines = Array.from({ length: pos.line + 1 }, (_, i) => doc.lineAt(i).text);
+    const at = promptNamePrefixAt(lines, pos.line, pos.character);
+    if (!at) return [];
+    const range = new vscode.Range(pos.line, at.start, pos.line, pos.character);
+    return this.deps.prompts(doc).map((i) => {
+      const item = new vscode.CompletionItem(i.name, vscode.CompletionItemKind.Function);
+      const where = [i.prompt ? 'prompts.md' : '', i.revisions.length ? `CLI.md ×${i.revisions.length}` : ''].filter(Boolean).join(', ');
+      item.detail = where;
+      if (i.prompt?.description) item.documentation = i.prompt.description;
+      item.range = range;
+      return item;
+    });
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the CLI.md editor view: block scanning, ```cli lint issues and prompt name completion.
+ */
+
+import { strict as assert } from 'assert';
+import { lintCliMd, promptNamePrefixAt, scanCliMd } from './cliMdLint';
+import { parsePromptsMd } from './parser';
+
+const promptsMd = parsePromptsMd(
+  [
+    '## review',
+    'Review {Code} in {Lang}.',
+    '### Parameters',
+    '| Parameter | Description | Required | Default |',
+    '| Code | code | Yes | |',
+    '| Lang | language | No | C# |',
+    '---',
+    '## plain',
+    'Just run.',
+  ].join('\n')
+);
+
+const md = [
+  '# CLI', // 0
+  '', // 1
+  '## Usage', // 2
+  '```cli', // 3
+  'prompt nowhere', // 4
+  '```', // 5
+  '', // 6
+  '## Commands', // 7
+  '```cli', // 8
+  'prompt review Code=x', // 9
+  '```', // 10
+  '```cli', // 11
+  'prompt review', // 12
+  '```', // 13
+  '```cli', // 14
+  'deploy now', // 15
+  '```', // 16
+  '```cli', // 17
+  'prompt missing', // 18
+  '```', // 19
+  '```cli', // 20
+  'prompt plain', // 21
+  'Extra=1', // 22
+  '```', // 23
+  '```cli', // 24
+  '', // 25
+  '```', // 26
+  '## Prompts', // 27
+  '### Prompt: drafted (v1)', // 28
+  '```prompt', // 29
+  'Draft.', // 30
+  '```', // 31
+  '```cli', // 32
+  'prompt drafted', // 33
+].join('\n');
+
+describe('cliMdLint', () => {
+  describe('scanCliMd', () => {
+    it('locates blocks, unclosed fences and prompt headings', () => {
+      const outline = scanCliMd(md);
+      assert.deepStrictEqual(
+        outline.blocks.map((b) => [b.line, b.endLine, b.command, b.inert]),
+        [
+          [3, 5, 'prompt nowhere', true],
+          [8, 10, 'prompt review Code=x', false],
+          [11, 13, 'prompt review', false],
+          [14, 16, 'deploy now', false],
+          [17, 19, 'prompt missing', false],
+          [20, 23, 'prompt plain\nExtra=1', false],
+          [24, 29, '```\n## Prompts\n### Prompt: drafted (v1)', false],
+        ]
+      );
+      assert.deepStrictEqual(outline.unclosed, [32]);
+      assert.deepStrictEqual(
+        outline.promptHeadings.map((h) => [h.name, h.label, h.line]),
+        [['drafted', 'v1', 28]]
+      );
+    });
+  });
+
+  describe('lintCliMd', () => {
+    it('reports blocks that would not run, skipping ## Usage examples', () => {
+      const issues = lintCliMd(md, promptsMd, ['help', 'list']).map((i) => [i.line, i.severity, i.message]);
+      assert.deepStrictEqual(issues, [
+        [32, 'error', '```cli block is not closed; it is never run.'],
+        [12, 'error', "Required parameters missing for prompt 'review': Code"],
+        [15, 'error', "Unknown command 'deploy'. Available commands: prompt, help, list."],
+        [18, 'error', "Prompt 'missing' not found in prompts.md or ## Prompts."],
+        [21, 'warning', 'A ```cli block holds one command; the other lines are read as arguments.'],
+        [21, 'error', "Unknown parameter for prompt 'plain': Extra (parameters: none)"],
+        [24, 'error', 'Empty ```cli block; it runs on to the next fence, so the text up to there is read as its command.'],
+      ]);
+    });
+
+    it('accepts CLI.md revisions without arguments but not with them', () => {
+      const content = '```cli\nprompt drafted\n```\n```cli\nprompt drafted X=1\n```\n## Prompts\n### Prompt: drafted (v1)\n```prompt\nDraft.\n```\n';
+      assert.deepStrictEqual(
+        lintCliMd(content, promptsMd, []).map((i) => [i.line, i.start, i.end, i.message]),
+        [[4, 0, 18, "Prompt 'drafted' not found in prompts.md; Key=Value arguments need a prompts.md template."]]
+      );
+    });
+
+    it('reports arguments that are not Key=Value', () => {
+      const issues = lintCliMd('```cli\nprompt review Code=x oops\n```', promptsMd, []);
+      assert.deepStrictEqual(issues.map((i) => i.message), ['Arguments must be Key=Value: oops']);
+    });
+  });
+
+  describe('promptNamePrefixAt', () => {
+    it('completes after prompt inside a ```cli block only', () => {
+      const lines = ['```cli', 'prompt rev', '```', 'prompt rev'];
+      assert.deepStrictEqual(promptNamePrefixAt(lines, 1, 10), { prefix: 'rev', start: 7 });
+      assert.deepStrictEqual(promptNamePrefixAt(lines, 1, 7), { prefix: '', start: 7 });
+      assert.strictEqual(promptNamePrefixAt(lines, 3, 10), undefined);
+      assert.strictEqual(promptNamePrefixAt(['```cli', 'prompt review Code='], 1, 19), undefined);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Line-level view of CLI.md for the editor: ```cli blocks and `### Prompt:` headings with their positions, and
+ * the problems processContent would only report after saving. No vscode dependency; positions are 0-based.
+ */
+
+import { CLI_BLOCK_RE, fencedRanges, inFencedRange, isInertCliBlock, isPromptCommand, listPromptRevisions } from './parser';
+import type { ParsedPrompt } from './parser';
+import { parseCliCommand, PROMPT_VERB, resolvePromptArgs } from './commands';
+import { isWorkflow, resolveWorkflowInputs } from './workflow';
+import type { LintIssue } from './promptsMdLint';
+
+export interface CliMdBlock {
+  /** Offset of the opening fence (ParsedBlock.index); '' command for empty blocks. */
+  index: number;
+  fullMatch: string;
+  command: string;
+  /** Line of the opening fence. */
+  line: number;
+  /** Lines of the command text: from line + 1 up to (not including) the closing fence. */
+  endLine: number;
+  /** Inside ## Usage, ## Results or another fence (isInertCliBlock): never run. */
+  inert: boolean;
+}
+
+export interface CliMdPromptHeading {
+  name: string;
+  label: string;
+  /** Offset of the heading (CliPromptRevision.index). */
+  index: number;
+  line: number;
+}
+
+export interface CliMdOutline {
+  blocks: CliMdBlock[];
+  /** Lines of ```cli fences that are never closed. */
+  unclosed: number[];
+  promptHeadings: CliMdPromptHeading[];
+}
+
+function lineStartsOf(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) if (content[i] === '\n') starts.push(i + 1);
+  return starts;
+}
+
+function lineAt(starts: number[], offset: number): number {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/** Finds ```cli blocks (as parseCliBlocks, plus empty ones), unclosed ```cli fences and `### Prompt:` headings. */
+export function scanCliMd(content: string): CliMdOutline {
+  const starts = lineStartsOf(content);
+  const blocks: CliMdBlock[] = [];
+  const re = new RegExp(CLI_BLOCK_RE.source, CLI_BLOCK_RE.flags);
+  for (const m of content.matchAll(re)) {
+    const index = m.index ?? 0;
+    const line = lineAt(starts, index);
+    blocks.push({
+      index,
+      fullMatch: m[0],
+      command: m[1].trim(),
+      line,
+      endLine: lineAt(starts, index + m[0].length - 1),
+      inert: isInertCliBlock(content, index),
+    });
+  }
+  const unclosed: number[] = [];
+  const fenced = fencedRanges(content);
+  for (const m of content.matchAll(/^```cli[ \t]*\r?$/gim)) {
+    const index = m.index ?? 0;
+    if (inFencedRange(fenced.filter((r) => r.start !== index), index)) continue;
+    if (!blocks.some((b) => index >= b.index && index < b.index + b.fullMatch.length)) unclosed.push(lineAt(starts, index));
+  }
+  const promptHeadings = listPromptRevisions(content)
+    .map((r) => ({ name: r.name, label: r.label, index: r.index, line: lineAt(starts, r.index) }))
+    .sort((a, b) => a.index - b.index);
+  return { blocks, unclosed, promptHeadings };
+}
+
+/**
+ * Problems in CLI.md ```cli blocks that are run (not inert): unclosed or empty blocks, several lines in one block,
+ * unknown verbs, and prompt commands that cannot run (no name, bad arguments, unknown prompt, missing required
+ * values). promptsMd are the prompts.md prompts; CLI.md revisions are read from content. verbs are the registered verbs.
+ */
+export function lintCliMd(content: string, promptsMd: readonly ParsedPrompt[], verbs: readonly string[]): LintIssue[] {
+  const outline = scanCliMd(content);
+  const lines = content.split('\n').map((l) => l.replace(/\r$/, ''));
+  const revisions = new Set(outline.promptHeadings.map((h) => h.name));
+  const issues: LintIssue[] = [];
+  const onFence = (line: number, message: string, severity: LintIssue['severity']) =>
+    issues.push({ line, start: 0, end: lines[line]?.length ?? 0, message, severity });
+
+  for (const line of outline.unclosed) onFence(line, '```cli block is not closed; it is never run.', 'error');
+
+  for (const b of outline.blocks) {
+    if (b.inert) continue;
+    if (!b.command) {
+      onFence(b.line, 'Empty ```cli block; it is ignored.', 'warning');
+      continue;
+    }
+    if (/^```/.test(b.command)) {
+      onFence(b.line, 'Empty ```cli block; it runs on to the next fence, so the text up to there is read as its command.', 'error');
+      continue;
+    }
+    const first = b.line + 1 + lines.slice(b.line + 1, b.endLine).findIndex((l) => l.trim() !== '');
+    const text = lines[first] ?? '';
+    const at = { line: first, start: text.length - text.trimStart().length, end: text.trimEnd().length };
+    const error = (message: string) => issues.push({ ...at, message, severity: 'error' });
+    if (b.command.includes('\n')) {
+      issues.push({ ...at, message: 'A ```cli block holds one command; the other lines are read as arguments.', severity: 'warning' });
+    }
+
+    const parsed = parseCliCommand(b.command);
+    if (!parsed) continue;
+    if (parsed.verb !== PROMPT_VERB) {
+      if (!verbs.includes(parsed.verb)) error(`Unknown command '${parsed.verb}'. Available commands: ${[PROMPT_VERB, ...verbs].join(', ')}.`);
+      continue;
+    }
+    const pr = isPromptCommand(b.command);
+    if (!pr) {
+      error(`Usage: ${PROMPT_VERB} <name> [Key=Value ...]`);
+      continue;
+    }
+    if (pr.invalid) {
+      error(`Arguments must be Key=Value: ${pr.invalid.join(', ')}`);
+      continue;
+    }
+    const def = promptsMd.find((p) => p.name === pr.name);
+    if (!def && !revisions.has(pr.name)) {
+      error(`Prompt '${pr.name}' not found in prompts.md or ## Prompts.`);
+      continue;
+    }
+    if (!def) {
+      if (pr.args) error(`Prompt '${pr.name}' not found in prompts.md; Key=Value arguments need a prompts.md template.`);
+      continue;
+    }
+    if (!pr.args && revisions.has(pr.name)) continue;
+    const r = isWorkflow(def) ? resolveWorkflowInputs(def, promptsMd, pr.args ?? {}) : resolvePromptArgs(def, pr.args ?? {});
+    if ('error' in r) error(r.error);
+  }
+  return issues;
+}
+
+/** When the cursor follows `prompt ` inside a ```cli block, the partial prompt name and where it starts. */
+export function promptNamePrefixAt(lines: readonly string[], line: number, character: number): { prefix: string; start: number } | undefined {
+  const m = /^(\s*prompt\s+)(\S*)$/i.exec(lines[line]?.slice(0, character) ?? '');
+  if (!m) return undefined;
+  for (let i = line - 1; i >= 0; i--) {
+    if (/^```/.test(lines[i])) return /^```cli\s*$/i.test(lines[i]) ? { prefix: m[2], start: m[1].length } : undefined;
+  }
+  return undefined;
+}
@@ -0,0 +1,56 @@
+/**
+ * Unit tests for writing populated prompts into CLI.md (Write-CcliPromptToCli layout).
+ */
+
+import { strict as assert } from 'assert';
+import { addPromptToCliMd, formatPromptBlock } from './cliPrompts';
+import { defaultCliContent } from './archive';
+import { extractPromptFromPromptsSection, listPromptNamesFromCliMd } from './parser';
+
+describe('cliPrompts', () => {
+  const now = new Date(2026, 0, 25, 12, 0, 0);
+
+  describe('formatPromptBlock', () => {
+    it('writes heading with timestamp and a prompt fence', () => {
+      assert.strictEqual(
+        formatPromptBlock('code-review', '  Review it.\r\n', '2026-01-25 12:00:00'),
+        '\n### Prompt: code-review (2026-01-25 12:00:00)\n\n```prompt\nReview it.\n```\n'
+      );
+    });
+  });
+
+  describe('addPromptToCliMd', () => {
+    it('appends to ## Prompts of the default template, readable by the parser', () => {
+      const out = addPromptToCliMd(defaultCliContent('2026-01-01 00:00:00'), 'code-review', 'Review the diff.', now);
+      assert.deepStrictEqual(listPromptNamesFromCliMd(out), ['code-review']);
+      assert.strictEqual(extractPromptFromPromptsSection(out, 'code-review'), 'Review the diff.');
+      assert.ok(out.indexOf('### Prompt: code-review') < out.indexOf('## Results'));
+      assert.ok(out.includes('*Last updated: 2026-01-25 12:00:00*'));
+    });
+
+    it('appends after existing prompts', () => {
+      const once = addPromptToCliMd(defaultCliContent('x'), 'a', 'A', now);
+      const twice = addPromptToCliMd(once, 'b', 'B', now);
+      assert.deepStrictEqual(listPromptNamesFromCliMd(twice), ['a', 'b']);
+      assert.ok(twice.indexOf('### Prompt: b') < twice.indexOf('## Results'));
+    });
+
+    it('creates ## Prompts before ## Results when missing', () => {
+      const out = addPromptToCliMd('# CLI\n\n## Results\n\nr\n', 'x', 'X', now);
+      assert.ok(/## Prompts\n### Prompt: x \(2026-01-25 12:00:00\)[\s\S]*\n\n## Results/.test(out));
+    });
+
+    it('creates ## Prompts before the last --- or at the end', () => {
+      const footer = addPromptToCliMd('# CLI\n\n---\n*Last updated: old*', 'x', 'X', now);
+      assert.ok(footer.indexOf('## Prompts') < footer.indexOf('---\n*Last updated: 2026-01-25 12:00:00*'));
+      const bare = addPromptToCliMd('# CLI\n', 'x', 'X', now);
+      assert.strictEqual(extractPromptFromPromptsSection(bare, 'x'), 'X');
+    });
+
+    it('keeps CRLF line endings', () => {
+      const out = addPromptToCliMd(defaultCliContent('x').replace(/\n/g, '\r\n'), 'x', 'line1\nline2', now);
+      assert.ok(!/[^\r]\n/.test(out));
+      assert.strictEqual(extractPromptFromPromptsSection(out, 'x'), 'line1\r\nline2');
+    });
+  });
+});
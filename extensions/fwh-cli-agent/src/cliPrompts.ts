@@ -0,0 +1,43 @@
+/**
+ * Writes populated prompts into the CLI.md ## Prompts section, in the layout of FWH.Prompts Write-CcliPromptToCli
+ * (read back by listPromptNamesFromCliMd and extractPromptFromPromptsSection). No vscode dependency.
+ */
+
+import { formatTimestamp } from './results';
+
+/** `### Prompt: name (timestamp)` followed by the ```prompt fence, with the blank lines Write-CcliPromptToCli adds. */
+export function formatPromptBlock(name: string, promptText: string, timestamp: string): string {
+  const body = promptText.replace(/\r\n/g, '\n').trim();
+  return `\n### Prompt: ${name} (${timestamp})\n\n\`\`\`prompt\n${body}\n\`\`\`\n`;
+}
+
+/**
+ * Adds a prompt block at the end of ## Prompts (before ## Results or the `---` footer). Without a ## Prompts
+ * section, one is created before ## Results, else before the last `---`, else at the end (same order as
+ * Write-CcliPromptToCli). Updates the `*Last updated*` timestamp and keeps CRLF line endings.
+ */
+export function addPromptToCliMd(content: string, name: string, promptText: string, now: Date = new Date()): string {
+  const nl = content.includes('\r\n') ? '\r\n' : '\n';
+  const ts = formatTimestamp(now);
+  const block = formatPromptBlock(name, promptText, ts);
+  let text = content.replace(/\r\n/g, '\n');
+
+  const heading = /^## Prompts[ \t]*\n/m.exec(text);
+  if (heading) {
+    const start = heading.index + heading[0].length;
+    const end = /\n## Results|\n---/.exec(text.slice(start));
+    const at = end ? start + end.index : text.length;
+    text = text.slice(0, at) + block + text.slice(at);
+  } else {
+    const results = /^## Results/m.exec(text);
+    if (results) {
+      text = `${text.slice(0, results.index)}## Prompts${block}\n${text.slice(results.index)}`;
+    } else {
+      const dash = text.lastIndexOf('---');
+      text = dash >= 0 ? `${text.slice(0, dash)}\n## Prompts${block}${text.slice(dash)}` : `${text}\n## Prompts${block}`;
+    }
+  }
+
+  text = text.replace(/\*Last updated: [^\n]*\*/, `*Last updated: ${ts}*`);
+  return nl === '\n' ? text : text.replace(/\n/g, nl);
+}
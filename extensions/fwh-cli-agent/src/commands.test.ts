@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the ```cli command dispatcher: parsing, registry and help/list output.
+ */
+
+import { strict as assert } from 'assert';
+import {
+  CliCommandRegistry,
+  parseCliCommand,
+  formatHelp,
+  formatPromptList,
+  formatUnknownCommand,
+  resolvePromptArgs,
+} from './commands';
+import { CliCommandError } from './errors';
+import { parsePromptsMd } from './parser';
+
+describe('commands', () => {
+  const handler = { description: 'd', run: () => 'ok' };
+
+  describe('parseCliCommand', () => {
+    it('lower-cases the verb and splits arguments', () => {
+      assert.deepStrictEqual(parseCliCommand('  List  prompts\tall '), { verb: 'list', args: ['prompts', 'all'] });
+      assert.deepStrictEqual(parseCliCommand('help'), { verb: 'help', args: [] });
+      assert.strictEqual(parseCliCommand('   '), null);
+    });
+  });
+
+  describe('CliCommandRegistry', () => {
+    it('registers verbs case-insensitively and lists them sorted', () => {
+      const r = new CliCommandRegistry();
+      r.register('List', handler);
+      r.register('clean', handler);
+      assert.strictEqual(r.get('LIST'), handler);
+      assert.deepStrictEqual(r.list().map((v) => v.verb), ['clean', 'list']);
+    });
+
+    it('rejects invalid, reserved and duplicate verbs', () => {
+      const r = new CliCommandRegistry();
+      r.register('x', handler);
+      assert.throws(() => r.register('X', handler), CliCommandError);
+      assert.throws(() => r.register('prompt', handler), CliCommandError);
+      assert.throws(() => r.register('two words', handler), CliCommandError);
+      assert.throws(() => r.register('', handler), CliCommandError);
+    });
+
+    it('dispose unregisters only its own handler', () => {
+      const r = new CliCommandRegistry();
+      const first = r.register('x', handler);
+      first.dispose();
+      assert.strictEqual(r.get('x'), undefined);
+      const other = { description: 'o', run: () => 'o' };
+      r.register('x', other);
+      first.dispose();
+      assert.strictEqual(r.get('x'), other);
+    });
+  });
+
+  describe('help and list', () => {
+    const prompts = [
+      { name: 'code-review', description: 'Review code', fromPromptsMd: true, revisions: 2 },
+      { name: 'adhoc', fromPromptsMd: false, revisions: 1 },
+    ];
+
+    it('formatPromptList shows source and revision count', () => {
+      assert.strictEqual(
+        formatPromptList(prompts),
+        '- `code-review` (prompts.md, CLI.md ×2) – Review code\n- `adhoc` (CLI.md ×1)'
+      );
+      assert.ok(formatPromptList([]).startsWith('_No prompts'));
+    });
+
+    it('formatHelp lists prompt, registered verbs with usage, and prompts', () => {
+      const r = new CliCommandRegistry();
+      r.register('list', { description: 'list prompts', run: () => '' });
+      r.register('lint', { description: 'lint a prompt', usage: '<name>', run: () => '' });
+      const help = formatHelp(r, prompts);
+      assert.ok(help.includes('- `prompt <name> [Key=Value ...]` – '));
+      assert.ok(help.indexOf('- `lint <name>` – lint a prompt') < help.indexOf('- `list` – list prompts'));
+      assert.ok(help.includes('Prompts:\n\n- `code-review`'));
+    });
+
+    it('formatUnknownCommand names the available verbs', () => {
+      const r = new CliCommandRegistry();
+      r.register('help', handler);
+      assert.strictEqual(formatUnknownCommand('deploy', r), "Unknown command 'deploy'. Available commands: prompt, help. Use `help` for details.");
+    });
+  });
+
+  describe('resolvePromptArgs', () => {
+    const [prompt] = parsePromptsMd(
+      [
+        '## code-review',
+        'Review {FilePath} for {FeatureName} in {Language}.',
+        '### Parameters',
+        '| Parameter | Description | Required | Default |',
+        '|-----------|-------------|----------|---------|',
+        '| FilePath | f | Yes | |',
+        '| FeatureName | n | Yes | all features |',
+        '| Language | l | No | - |',
+      ].join('\n')
+    );
+
+    it('fills values matched case-insensitively, then defaults', () => {
+      assert.deepStrictEqual(resolvePromptArgs(prompt, { filepath: 'src/Auth.cs', Language: ' ' }), {
+        text: 'Review src/Auth.cs for all features in .',
+      });
+    });
+
+    it('rejects unknown keys and missing required parameters', () => {
+      const unknown = resolvePromptArgs(prompt, { FilePath: 'a', Colour: 'red' });
+      assert.ok('error' in unknown && unknown.error.includes('Colour') && unknown.error.includes('FilePath, FeatureName, Language'));
+      const missing = resolvePromptArgs(prompt, {});
+      assert.deepStrictEqual(missing, { error: "Required parameters missing for prompt 'code-review': FilePath" });
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Command dispatcher for ```cli blocks: `prompt <name>` plus registered verbs (built-in help, list, clean and
+ * verbs contributed by other extensions through the activate() API). No vscode dependency.
+ */
+
+import { CliCommandError } from './errors';
+import { fillPromptTemplate } from './template';
+import type { ParsedPrompt } from './parser';
+import type { SecretDetector } from './secrets';
+
+/** The verb handled by the prompt run queue itself; cannot be registered. */
+export const PROMPT_VERB = 'prompt';
+
+/** Verbs are letters, digits, `-`, `_` and `.`, starting with a letter; matched case-insensitively. */
+const VERB_RE = /^[a-z][\w.-]*$/i;
+
+export interface ParsedCliCommand {
+  /** Lower-cased first word. */
+  verb: string;
+  args: string[];
+}
+
+/** Splits a ```cli block command into a lower-cased verb and whitespace-separated arguments. */
+export function parseCliCommand(command: string): ParsedCliCommand | null {
+  const [verb, ...args] = command.trim().split(/\s+/);
+  return verb ? { verb: verb.toLowerCase(), args } : null;
+}
+
+export interface CliCommandContext {
+  workspaceRoot: string;
+  cliMdPath: string;
+  /** The whole block command, e.g. `list prompts`. */
+  command: string;
+  /** Aborted when the run is cancelled from the Run Queue. */
+  signal: AbortSignal;
+}
+
+/** A ```cli verb. Registered through FwhCliAgentApi.registerCliCommand or built in. */
+export interface CliCommandHandler {
+  /** One line shown by `help`. */
+  description: string;
+  /** Argument synopsis shown by `help`, e.g. `<name>`. */
+  usage?: string;
+  /**
+   * Runs the verb. A returned string (possibly empty) is recorded under ## Results and the block is removed.
+   * Return undefined when the handler rewrote CLI.md itself (as `clean` does); nothing is recorded then.
+   * Throwing records a failed entry and keeps the block; throwing CliCommandError (built-in verbs) records the
+   * command as invalid and removes the block, since running it again cannot help.
+   */
+  run(args: string[], context: CliCommandContext): Promise<string | undefined> | string | undefined;
+}
+
+/** Public API returned by activate(); other extensions get it from vscode.extensions.getExtension(...).exports. */
+export interface FwhCliAgentApi {
+  /** Registers a ```cli verb. Throws CliCommandError for invalid, reserved or already registered verbs. */
+  registerCliCommand(verb: string, handler: CliCommandHandler): { dispose(): void };
+  /** Adds a secret detector to the scan that runs before every prompt run and clipboard copy. */
+  registerSecretDetector(detector: SecretDetector): { dispose(): void };
+}
+
+export class CliCommandRegistry {
+  private readonly verbs = new Map<string, CliCommandHandler>();
+
+  register(verb: string, handler: CliCommandHandler): { dispose(): void } {
+    const key = verb.trim().toLowerCase();
+    if (!VERB_RE.test(key)) throw new CliCommandError(`Invalid CLI verb '${verb}'`);
+    if (key === PROMPT_VERB || this.verbs.has(key)) throw new CliCommandError(`CLI verb '${key}' is already registered`);
+    this.verbs.set(key, handler);
+    return {
+      dispose: () => {
+        if (this.verbs.get(key) === handler) this.verbs.delete(key);
+      },
+    };
+  }
+
+  get(verb: string): CliCommandHandler | undefined {
+    return this.verbs.get(verb.toLowerCase());
+  }
+
+  /** Registered verbs sorted by name (without `prompt`). */
+  list(): { verb: string; handler: CliCommandHandler }[] {
+    return Array.from(this.verbs, ([verb, handler]) => ({ verb, handler })).sort((a, b) => a.verb.localeCompare(b.verb));
+  }
+}
+
+/** Prompt line for help/list: name, source and CLI.md revision count. */
+export interface CliPromptSummary {
+  name: string;
+  description?: string;
+  /** True when the prompt is defined in prompts.md (else only in CLI.md ## Prompts). */
+  fromPromptsMd: boolean;
+  revisions: number;
+}
+
+/** Markdown list of prompts as written by `list` and `help`. */
+export function formatPromptList(prompts: readonly CliPromptSummary[]): string {
+  if (prompts.length === 0) return '_No prompts in prompts.md or CLI.md ## Prompts._';
+  return prompts
+    .map((p) => {
+      const where = [p.fromPromptsMd ? 'prompts.md' : '', p.revisions ? `CLI.md ×${p.revisions}` : ''].filter(Boolean).join(', ');
+      return `- \`${p.name}\` (${where})${p.description ? ` – ${p.description}` : ''}`;
+    })
+    .join('\n');
+}
+
+/** `help` output: the prompt verb, every registered verb and the prompts. */
+export function formatHelp(registry: CliCommandRegistry, prompts: readonly CliPromptSummary[]): string {
+  const verbs = [
+    `- \`${PROMPT_VERB} <name> [Key=Value ...]\` – run the newest CLI.md ## Prompts revision of a prompt; ` +
+      'with values (or without a revision) fill its prompts.md template instead',
+    ...registry.list().map(({ verb, handler }) => `- \`${handler.usage ? `${verb} ${handler.usage}` : verb}\` – ${handler.description}`),
+  ];
+  return ['Commands:', '', ...verbs, '', 'Prompts:', '', formatPromptList(prompts)].join('\n');
+}
+
+/** Text recorded for a verb nobody registered. */
+export function formatUnknownCommand(verb: string, registry: CliCommandRegistry): string {
+  const known = [PROMPT_VERB, ...registry.list().map((v) => v.verb)].join(', ');
+  return `Unknown command '${verb}'. Available commands: ${known}. Use \`help\` for details.`;
+}
+
+/**
+ * Fills a prompts.md template from `prompt <name> Key=Value` arguments (fillPromptTemplate): keys match parameter
+ * names case-insensitively, blank values fall back to the Default column. Unknown keys and required parameters with
+ * neither a value nor a default are errors. Stricter than Get-CcliPrompt, which uses a passed blank value as-is and
+ * only warns about placeholders it could not replace.
+ */
+export function resolvePromptArgs(prompt: ParsedPrompt, args: Readonly<Record<string, string>>): { text: string } | { error: string } {
+  const values: Record<string, string> = {};
+  const unknown: string[] = [];
+  for (const [key, value] of Object.entries(args)) {
+    const param = prompt.parameters.find((p) => p.name.toLowerCase() === key.toLowerCase());
+    if (param) values[param.name] = value;
+    else unknown.push(key);
+  }
+  if (unknown.length > 0) {
+    const known = prompt.parameters.map((p) => p.name).join(', ') || 'none';
+    return { error: `Unknown parameter${unknown.length === 1 ? '' : 's'} for prompt '${prompt.name}': ${unknown.join(', ')} (parameters: ${known})` };
+  }
+  const filled = fillPromptTemplate(prompt.template, prompt.parameters, values);
+  if (filled.missing.length > 0) {
+    return { error: `Required parameters missing for prompt '${prompt.name}': ${filled.missing.join(', ')}` };
+  }
+  return { text: filled.text };
+}
@@ -0,0 +1,94 @@
+/**
+ * Errors raised by prompt runs and the ```cli command dispatcher. Shared by runner (raises) and
+ * queue/extension (classify and report).
+ */
+
+import type { AgentCliResult } from './runner';
+
+/** Rejection reason when a run is cancelled through its AbortSignal. */
+export class RunCancelledError extends Error {
+  constructor(message = 'Run cancelled') {
+    super(message);
+    this.name = 'RunCancelledError';
+  }
+}
+
+/** The run exceeded its timeout; the process tree was killed. result holds the output captured so far. */
+export class RunTimeoutError extends Error {
+  constructor(readonly timeoutMs: number, readonly result: AgentCliResult) {
+    super(`Run timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'RunTimeoutError';
+  }
+}
+
+/** The agent (or command executor) exited with a non-zero or unknown exit code. result holds the captured output. */
+export class AgentExitError extends Error {
+  constructor(readonly result: AgentCliResult, executorName = 'Agent') {
+    super(`${executorName} exited with code ${result.exitCode != null ? result.exitCode : '?'}`);
+    this.name = 'AgentExitError';
+  }
+}
+
+/** An executor name is unknown or its cli-agent.json Executors entry is invalid. */
+export class ExecutorConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExecutorConfigError';
+  }
+}
+
+/** A ```cli verb cannot be registered (invalid, reserved or duplicate name). */
+export class CliCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliCommandError';
+  }
+}
+
+/** A prompts.md workflow is invalid or one of its steps cannot be filled. */
+export class WorkflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowError';
+  }
+}
+
+/** The parameter presets file next to prompts.md is not valid JSON of the expected shape. */
+export class PresetsFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetsFileError';
+  }
+}
+
+/** fwh-prompts was called with an unknown subcommand or option, or without a required argument. */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/** cli-agent.json CliAgent.SecretScan is invalid (a pattern that does not compile, a negative MinEntropy). */
+export class SecretScanConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretScanConfigError';
+  }
+}
+
+/** A prompt may contain secrets and fwh-prompts was not told to redact them. */
+export class SecretsFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretsFoundError';
+  }
+}
+
+/** A git command for a `{git.*}` placeholder failed: not a repository, an unknown base, git not installed. */
+export class GitCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitCommandError';
+  }
+}
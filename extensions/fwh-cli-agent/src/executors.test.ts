@@ -0,0 +1,103 @@
+/**
+ * Tests for the executor registry: resolveExecutor validation, template expansion and shell quoting.
+ */
+
+import { strict as assert } from 'assert';
+import * as path from 'path';
+import {
+  resolveExecutor,
+  expandExecutorTemplate,
+  quoteShellArg,
+  agentCliCommandLine,
+  listExecutorNames,
+} from './executors';
+import { ExecutorConfigError } from './errors';
+
+describe('executors', () => {
+  const root = path.resolve('/repo');
+
+  describe('quoteShellArg', () => {
+    it('single-quotes for sh and escapes embedded quotes', () => {
+      assert.strictEqual(quoteShellArg("a b'c", 'linux'), "'a b'\\''c'");
+    });
+
+    it('single-quotes for PowerShell and doubles embedded quotes', () => {
+      assert.strictEqual(quoteShellArg("a b'c", 'win32'), "'a b''c'");
+    });
+  });
+
+  describe('expandExecutorTemplate', () => {
+    it('replaces promptFile and workspaceRoot, quoting each value', () => {
+      const s = expandExecutorTemplate('llm < {promptFile} --root {workspaceRoot}', { promptFile: '/t/p.txt', workspaceRoot: '/r' }, (v) => `[${v}]`);
+      assert.strictEqual(s, 'llm < [/t/p.txt] --root [/r]');
+    });
+
+    it('replaces model when given', () => {
+      assert.strictEqual(expandExecutorTemplate('llm -m {model} {promptFile}', { workspaceRoot: '/r', model: 'gpt' }), 'llm -m gpt {promptFile}');
+    });
+
+    it('leaves unknown or missing placeholders untouched', () => {
+      assert.strictEqual(expandExecutorTemplate('{promptFile} ${HOME} {other}', { workspaceRoot: '/r' }), '{promptFile} ${HOME} {other}');
+    });
+  });
+
+  describe('resolveExecutor', () => {
+    it('resolves built-in composer and agent-cli', () => {
+      assert.deepStrictEqual(resolveExecutor('composer', root, undefined, 'aichat.new'), {
+        kind: 'composer',
+        name: 'composer',
+        composerCommand: 'aichat.new',
+      });
+      const a = resolveExecutor('agent-cli', root, undefined, 'composer.new', 'linux');
+      assert.strictEqual(a.kind, 'command');
+      if (a.kind === 'command') {
+        assert.strictEqual(a.commandLine, agentCliCommandLine('linux'));
+        assert.strictEqual(a.cwd, root);
+        assert.strictEqual(a.outputFormat, 'text');
+      }
+    });
+
+    it('resolves a configured executor with env, cwd and output format', () => {
+      const e = resolveExecutor(
+        'local-llm',
+        root,
+        { 'local-llm': { CommandLine: 'ollama run llama3 < {promptFile}', Env: { MODEL_DIR: '{workspaceRoot}/models' }, Cwd: 'tools', OutputFormat: 'markdown' } },
+        'composer.new'
+      );
+      assert.deepStrictEqual(e, {
+        kind: 'command',
+        name: 'local-llm',
+        commandLine: 'ollama run llama3 < {promptFile}',
+        env: { MODEL_DIR: `${root}/models` },
+        cwd: path.join(root, 'tools'),
+        outputFormat: 'markdown',
+      });
+    });
+
+    it('configured entry may override agent-cli', () => {
+      const e = resolveExecutor('agent-cli', root, { 'agent-cli': { CommandLine: 'my-agent {promptFile}' } }, 'composer.new');
+      assert.ok(e.kind === 'command' && e.commandLine === 'my-agent {promptFile}');
+    });
+
+    it('throws ExecutorConfigError for unknown names, listing available ones', () => {
+      assert.throws(
+        () => resolveExecutor('nope', root, { echo: { CommandLine: 'cat {promptFile}' } }, 'composer.new'),
+        (e: unknown) => e instanceof ExecutorConfigError && /Unknown executor "nope"\. Available: composer, agent-cli, echo\./.test(e.message)
+      );
+    });
+
+    it('rejects missing CommandLine, bad OutputFormat, Cwd outside the root and non-string Env', () => {
+      const bad = (cfg: unknown) => () => resolveExecutor('x', root, { x: cfg as never }, 'composer.new');
+      assert.throws(bad({ CommandLine: ' ' }), /has no CommandLine/);
+      assert.throws(bad({ CommandLine: 'a', OutputFormat: 'xml' }), /invalid OutputFormat "xml"/);
+      assert.throws(bad({ CommandLine: 'a', Cwd: '../elsewhere' }), /Cwd must be under the workspace root/);
+      assert.throws(bad({ CommandLine: 'a', Env: { N: 1 } }), /Env\.N must be a string/);
+    });
+  });
+
+  describe('listExecutorNames', () => {
+    it('lists built-ins first without duplicates', () => {
+      assert.deepStrictEqual(listExecutorNames({ 'agent-cli': { CommandLine: 'x' }, echo: { CommandLine: 'y' } }), ['composer', 'agent-cli', 'echo']);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Executor registry: built-in composer and agent-cli plus named command-line executors from
+ * cli-agent.json CliAgent.Executors. No vscode dependency.
+ * A prompt picks its executor with `<!-- fwh: executor=<name> -->`; otherwise ExecuteMode is used.
+ */
+
+import * as path from 'path';
+import { isUnderWorkspaceRoot } from './parser';
+import { ExecutorConfigError } from './errors';
+
+export const COMPOSER_EXECUTOR = 'composer';
+export const AGENT_CLI_EXECUTOR = 'agent-cli';
+
+/** How captured output is recorded under ## Results: text as is, markdown/json in a tagged fence (json pretty-printed). */
+export type ExecutorOutputFormat = 'text' | 'markdown' | 'json';
+export const EXECUTOR_OUTPUT_FORMATS: readonly ExecutorOutputFormat[] = ['text', 'markdown', 'json'];
+
+/** One entry of cli-agent.json CliAgent.Executors. */
+export interface ExecutorConfig {
+  /** Shell command line; `{promptFile}` and `{workspaceRoot}` are replaced with quoted paths. */
+  CommandLine: string;
+  /** Extra environment variables; values may use `{workspaceRoot}`. */
+  Env?: Record<string, string>;
+  /** Working directory relative to the workspace root (default: the root). Must stay under the root. */
+  Cwd?: string;
+  OutputFormat?: ExecutorOutputFormat;
+}
+
+export interface ComposerExecutor {
+  kind: 'composer';
+  name: string;
+  composerCommand: string;
+}
+
+export interface CommandExecutor {
+  kind: 'command';
+  name: string;
+  /** Command line template, still containing `{promptFile}`; expanded by the runner once the file exists. */
+  commandLine: string;
+  /** Value of `{model}` in the command line (fan-out variants). */
+  model?: string;
+  env: Record<string, string>;
+  cwd: string;
+  outputFormat: ExecutorOutputFormat;
+}
+
+export type Executor = ComposerExecutor | CommandExecutor;
+
+/** Quotes a value for the shell the runner uses: PowerShell on Windows, sh elsewhere. */
+export function quoteShellArg(value: string, platform: NodeJS.Platform = process.platform): string {
+  return platform === 'win32' ? `'${value.replace(/'/g, "''")}'` : `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Replaces `{promptFile}`, `{workspaceRoot}` and `{model}` in template. quote is applied to each value (for command
+ * lines); placeholders without a value and any other braces are left untouched.
+ */
+export function expandExecutorTemplate(
+  template: string,
+  vars: { promptFile?: string; workspaceRoot: string; model?: string },
+  quote: (s: string) => string = (s) => s
+): string {
+  return template.replace(/\{(promptFile|workspaceRoot|model)\}/g, (m, key: 'promptFile' | 'workspaceRoot' | 'model') => {
+    const v = vars[key];
+    return v === undefined ? m : quote(v);
+  });
+}
+
+/** Command line of the built-in agent-cli executor (`agent -p <prompt> --output-format text`), with `--model {model}` if asked. */
+export function agentCliCommandLine(platform: NodeJS.Platform = process.platform, withModel = false): string {
+  const model = withModel ? ' --model {model}' : '';
+  return platform === 'win32'
+    ? `& { $p = Get-Content -Raw -LiteralPath {promptFile}; agent -p $p${model} --output-format text 2>&1 }`
+    : `agent -p "$(cat {promptFile})"${model} --output-format text 2>&1`;
+}
+
+/** Built-in names followed by configured ones (configured entries may override agent-cli, not composer). */
+export function listExecutorNames(executors?: Record<string, ExecutorConfig>): string[] {
+  const names = [COMPOSER_EXECUTOR, AGENT_CLI_EXECUTOR];
+  for (const n of Object.keys(executors ?? {})) if (!names.includes(n)) names.push(n);
+  return names;
+}
+
+/**
+ * Resolves an executor by name. cli-agent.json Executors entries are validated here: CommandLine is required,
+ * Cwd must resolve under the workspace root, Env values must be strings and OutputFormat one of text/markdown/json.
+ * Throws ExecutorConfigError for unknown names or invalid entries.
+ */
+export function resolveExecutor(
+  name: string,
+  workspaceRoot: string,
+  executors: Record<string, ExecutorConfig> | undefined,
+  composerCommand: string,
+  platform: NodeJS.Platform = process.platform
+): Executor {
+  const rootResolved = path.resolve(workspaceRoot);
+  if (name === COMPOSER_EXECUTOR) return { kind: 'composer', name, composerCommand };
+  const cfg = executors && Object.prototype.hasOwnProperty.call(executors, name) ? executors[name] : undefined;
+  if (!cfg) {
+    if (name === AGENT_CLI_EXECUTOR) {
+      return { kind: 'command', name, commandLine: agentCliCommandLine(platform), env: {}, cwd: rootResolved, outputFormat: 'text' };
+    }
+    throw new ExecutorConfigError(`Unknown executor "${name}". Available: ${listExecutorNames(executors).join(', ')}.`);
+  }
+
+  if (typeof cfg.CommandLine !== 'string' || !cfg.CommandLine.trim()) {
+    throw new ExecutorConfigError(`Executor "${name}" has no CommandLine.`);
+  }
+  const outputFormat = cfg.OutputFormat ?? 'text';
+  if (!EXECUTOR_OUTPUT_FORMATS.includes(outputFormat)) {
+    throw new ExecutorConfigError(`Executor "${name}" has invalid OutputFormat "${outputFormat}" (use ${EXECUTOR_OUTPUT_FORMATS.join(', ')}).`);
+  }
+  let cwd = rootResolved;
+  if (cfg.Cwd?.trim()) {
+    const s = expandExecutorTemplate(cfg.Cwd.trim(), { workspaceRoot: rootResolved });
+    cwd = path.resolve(rootResolved, s);
+    if (!isUnderWorkspaceRoot(rootResolved, cwd)) {
+      throw new ExecutorConfigError(`Executor "${name}" Cwd must be under the workspace root: ${cfg.Cwd}`);
+    }
+  }
+  const env: Record<string, string> = {};
+  for (const [k, v] of Object.entries(cfg.Env ?? {})) {
+    if (typeof v !== 'string') throw new ExecutorConfigError(`Executor "${name}" Env.${k} must be a string.`);
+    env[k] = expandExecutorTemplate(v, { workspaceRoot: rootResolved });
+  }
+  return { kind: 'command', name, commandLine: cfg.CommandLine, env, cwd, outputFormat };
+}
@@ -1,29 +1,124 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import { spawn } from 'child_process';
 import {
   parseCliBlocks,
-  extractPromptFromPromptsSection,
+  findCliBlock,
+  isInertCliBlock,
   isPromptCommand,
+  listPromptRevisions,
   removeCliBlock,
   pathsEqual,
+  isUnderWorkspaceRoot,
+  parsePromptsMd,
+  applySharedContext,
+  metadataFlag,
+  SHARED_CONTEXT_SECTION,
 } from './parser';
-import { resolveCliMdPath, resolvePromptsMdPath, resolveExecuteOptions } from './resolver';
+import type { ParsedPrompt, ParsedBlock, CliPromptRevision, PromptCommand } from './parser';
+import {
+  resolveCliMdPath,
+  resolvePromptsMdPath,
+  resolveExecuteOptions,
+  resolveRunTimeoutMs,
+  resolveContextMaxChars,
+} from './resolver';
 import * as runner from './runner';
+import { RunCancelledError, RunTimeoutError, AgentExitError, CliCommandError } from './errors';
+import { appendResultEntry, formatResultEntry, formatTimestamp } from './results';
+import type { RunResultEntry } from './results';
+import { archiveCliFile, autoArchiveReason, defaultCliContent } from './archive';
+import { addPromptToCliMd } from './cliPrompts';
+import { resolveExecutor } from './executors';
+import type { Executor, CommandExecutor } from './executors';
+import {
+  CliCommandRegistry,
+  PROMPT_VERB,
+  parseCliCommand,
+  formatHelp,
+  formatPromptList,
+  formatUnknownCommand,
+  resolvePromptArgs,
+} from './commands';
+import type { CliPromptSummary, FwhCliAgentApi, ParsedCliCommand } from './commands';
+import { HeldCliBlocks, RunQueue, failureStatus, isActive, isRetryable } from './queue';
+import { isWorkflow, resolveWorkflowInputs, runWorkflow } from './workflow';
+import { formatFanOutReport, resolveFanOutVariants, runFanOut } from './fanout';
+import type { Workflow } from './workflow';
+import type { JobProgressFn, RunJob } from './queue';
+import { RunQueueTreeDataProvider, RunJobTreeItem } from './queueView';
+import { appendHistoryEntry, formatHistoryDocument, historyFilePath, newHistoryId, readHistory } from './history';
+import type { HistoryEntry, HistoryStatus } from './history';
+import { HistoryTreeDataProvider, HistoryTreeItem } from './historyView';
+import { presetsFilePath, readPresets, writePreset } from './presets';
+import { PromptsMdLanguageFeatures, OPEN_PROMPTS_MD_FORM_COMMAND, RUN_PROMPTS_MD_PROMPT_COMMAND } from './promptsLanguage';
+import { CliMdLanguageFeatures, RUN_CLI_BLOCK_COMMAND, RUN_CLI_MD_REVISION_COMMAND } from './cliMdLanguage';
+import { loadPromptList } from './promptList';
+import { resolvePromptCommand } from './promptCommand';
+import type { ResolvedPromptCommand } from './promptCommand';
+import { CLI_AGENT_JSON, loadSecretScanner, readSharedContext } from './workspaceConfig';
+import { expandContextPlaceholders } from './workspaceContext';
+import { gitRunner } from './gitContext';
+import type { ContextSources } from './workspaceContext';
+import type { CliAgentConfig, CliAgentJson } from './workspaceConfig';
 import {
-  loadPromptList,
   PromptsTreeDataProvider,
+  PromptTreeItem,
+  PromptFolderTreeItem,
+  PromptRevisionTreeItem,
   createOrShowPromptFormPanel,
+  isPromptFormState,
+  PROMPT_FORM_VIEW_TYPE,
 } from './promptsView';
+import type { PromptFormHandlers } from './promptsView';
+import {
+  addPromptSectionEdit,
+  checkPromptTemplate,
+  checkTemplateName,
+  copyName,
+  copyPromptSectionEdit,
+  draftFromPrompt,
+  findPromptHeading,
+  formatPromptSection,
+  removePromptSectionEdit,
+  renamePromptSectionEdit,
+  workflowsUsing,
+} from './promptTemplates';
+import type { PromptTemplateDraft, TextEditSpan } from './promptTemplates';
+import { showTemplateForm } from './templateForm';
+import { describeSecretFindings, redactSecrets } from './secrets';
+import type { SecretDetector } from './secrets';
 
 /** CR-EXT-1.3.2: max CLI.md size to avoid DoS from huge files. */
 const MAX_CLI_MD_BYTES = 1_000_000;
 
 let _output: vscode.OutputChannel | undefined;
-/** CR-EXT-1.3.1: cache for cli-agent.json per workspace; cleared when cli-agent.json changes. */
-let _configCache: { root: string; config: CliAgentJson['CliAgent'] | undefined } | null = null;
-let _configWatcher: vscode.FileSystemWatcher | undefined;
+/** CR-EXT-1.3.1: cache for cli-agent.json per workspace folder root; an entry is cleared when that cli-agent.json changes. */
+const _configCache = new Map<string, CliAgentConfig | undefined>();
+/** CLI.md and cli-agent.json watchers per workspace folder (keyed by folder URI). */
+const _folderWatchers = new Map<string, vscode.Disposable>();
+/** Serial queue for every prompt execution (CLI.md blocks, prompt form, Run prompt command). */
+let _queue: RunQueue | undefined;
+/** ```cli verbs other than prompt: built-in help/list/clean and those registered through FwhCliAgentApi. */
+let _commands: CliCommandRegistry | undefined;
+/** Diagnostics, completion, hovers and CodeLenses for each folder's prompts.md. */
+let _promptsLanguage: PromptsMdLanguageFeatures | undefined;
+/** Diagnostics, CodeLenses and prompt name completion for each folder's CLI.md. */
+let _cliMdLanguage: CliMdLanguageFeatures | undefined;
+/** Prompt History view; refreshed whenever a run is recorded. */
+let _history: HistoryTreeDataProvider | undefined;
+/** One output channel per fan-out variant name, so concurrent runs do not interleave. */
+const _fanOutChannels = new Map<string, vscode.OutputChannel>();
+/** Secret detectors registered through FwhCliAgentApi, added to every folder's scanner. */
+const _secretDetectors = new Set<SecretDetector>();
+/** Secret reviews in progress by folder and text, so concurrent runs of one text (fan-out) ask once. */
+const _secretReviews = new Map<string, Promise<string>>();
+/** ```cli blocks queued from CLI.md; failed or cancelled ones are not queued again until their text changes. */
+const _heldBlocks = new HeldCliBlocks();
+/** Last focused file editor, for {activeFile}/{selection} when a prompt runs from a webview or view. */
+let _lastFileEditor: vscode.TextEditor | undefined;
 
 /** CR-EXT-1.4.1: Reliable only after activate() sets _output. CR-EXT-1.4.3: only logs when fwhCliAgent.debug is true. */
 function debug(msg: string): void {
@@ -32,9 +127,69 @@ function debug(msg: string): void {
   _output.appendLine(`[Cursor CLI] ${msg}`);
 }
 
-function getWorkspaceRoot(): string | undefined {
-  const folder = vscode.workspace.workspaceFolders?.[0];
-  return folder?.uri.fsPath;
+function getWorkspaceRoots(): string[] {
+  return (vscode.workspace.workspaceFolders ?? []).map((f) => f.uri.fsPath);
+}
+
+/** Label for a folder in messages and queue entries; empty in single-folder workspaces. */
+function folderSuffix(workspaceRoot: string): string {
+  if (getWorkspaceRoots().length < 2) return '';
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(workspaceRoot));
+  return ` [${folder?.name ?? path.basename(workspaceRoot)}]`;
+}
+
+/**
+ * Root for commands that act on one folder: the only folder, else the active editor's folder, else a pick.
+ * Undefined when there is no folder or the pick is dismissed.
+ */
+async function pickWorkspaceRoot(placeHolder: string): Promise<string | undefined> {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (folders.length === 0) {
+    void vscode.window.showErrorMessage('FWH CLI Agent: No workspace folder.');
+    return undefined;
+  }
+  if (folders.length === 1) return folders[0].uri.fsPath;
+  const active = vscode.window.activeTextEditor?.document.uri;
+  const activeFolder = active ? vscode.workspace.getWorkspaceFolder(active) : undefined;
+  if (activeFolder) return activeFolder.uri.fsPath;
+  const picked = await vscode.window.showWorkspaceFolderPick({ placeHolder });
+  return picked?.uri.fsPath;
+}
+
+/**
+ * What a Source Control menu passed: the repository (scm/title), the changed files clicked or selected
+ * (scm/resourceState/context) or a group such as Staged Changes (scm/resourceGroup/context).
+ */
+function scmSelection(args: readonly unknown[]): { rootUri?: vscode.Uri; files: vscode.Uri[] } {
+  let rootUri: vscode.Uri | undefined;
+  const files: vscode.Uri[] = [];
+  const visit = (arg: unknown): void => {
+    if (Array.isArray(arg)) return arg.forEach(visit);
+    if (!arg || typeof arg !== 'object') return;
+    const o = arg as { rootUri?: unknown; resourceUri?: unknown; resourceStates?: unknown };
+    if (o.resourceUri instanceof vscode.Uri) {
+      const uri = o.resourceUri;
+      if (!files.some((f) => f.toString() === uri.toString())) files.push(uri);
+    } else if (Array.isArray(o.resourceStates)) {
+      visit(o.resourceStates);
+    } else if (o.rootUri instanceof vscode.Uri) {
+      rootUri = o.rootUri;
+    }
+  };
+  args.forEach(visit);
+  return { rootUri, files };
+}
+
+/** True when the prompt (or a workflow step's prompt) uses a `{git.*}` placeholder. */
+function usesGitContext(prompt: ParsedPrompt, prompts: readonly ParsedPrompt[]): boolean {
+  const git = /\{\s*git\./;
+  if (git.test(prompt.template)) return true;
+  return (prompt.steps ?? []).some((st) => git.test(prompts.find((p) => p.name === st.prompt)?.template ?? ''));
+}
+
+/** The workspace folder root whose CLI.md is fsPath, if any. */
+function findRootForCliMd(fsPath: string): string | undefined {
+  return getWorkspaceRoots().find((r) => pathsEqual(fsPath, getCliMdPath(r)));
 }
 
 function readJsonAt<T>(fsPath: string): T | undefined {
@@ -51,23 +206,14 @@ function readJsonAt<T>(fsPath: string): T | undefined {
   }
 }
 
-interface CliAgentJson {
-  CliAgent?: {
-    CliMdPath?: string;
-    PromptsMdPath?: string;
-    ExecuteMode?: 'composer' | 'agent-cli';
-    ComposerCommand?: string;
-  };
-}
-
-function getCliAgentConfig(workspaceRoot: string): CliAgentJson['CliAgent'] {
-  if (_configCache && _configCache.root === workspaceRoot) {
-    return _configCache.config;
+function getCliAgentConfig(workspaceRoot: string): CliAgentConfig | undefined {
+  if (_configCache.has(workspaceRoot)) {
+    return _configCache.get(workspaceRoot);
   }
-  const p = path.join(workspaceRoot, 'cli-agent.json');
+  const p = path.join(workspaceRoot, CLI_AGENT_JSON);
   const obj = readJsonAt<CliAgentJson>(p);
   const config = obj?.CliAgent;
-  _configCache = { root: workspaceRoot, config };
+  _configCache.set(workspaceRoot, config);
   return config;
 }
 
@@ -87,7 +233,7 @@ function getPromptsMdPath(workspaceRoot: string): string {
   return resolvePromptsMdPath(rootResolved, cliAgent?.PromptsMdPath, vsc);
 }
 
-function getExecuteOptions(workspaceRoot: string): { mode: 'composer' | 'agent-cli'; composerCommand: string } {
+function getExecuteOptions(workspaceRoot: string): { mode: string; composerCommand: string } {
   const cliAgent = getCliAgentConfig(workspaceRoot);
   const vsc = vscode.workspace.getConfiguration('fwhCliAgent');
   const { mode, composerCommand } = resolveExecuteOptions(
@@ -100,6 +246,60 @@ function getExecuteOptions(workspaceRoot: string): { mode: 'composer' | 'agent-c
   return { mode, composerCommand };
 }
 
+/**
+ * Executor for a run: the prompt's `<!-- fwh: executor=<name> -->` metadata, else ExecuteMode.
+ * Throws ExecutorConfigError for unknown names or invalid cli-agent.json Executors entries.
+ */
+function getExecutor(workspaceRoot: string, prompt: ParsedPrompt | undefined): Executor {
+  const { mode, composerCommand } = getExecuteOptions(workspaceRoot);
+  const name = prompt?.metadata['executor']?.trim() || mode;
+  const executor = resolveExecutor(name, workspaceRoot, getCliAgentConfig(workspaceRoot)?.Executors, composerCommand);
+  debug(`getExecutor: ${name} (${executor.kind})`);
+  return executor;
+}
+
+/** Reads a workspace file as UTF-8; undefined when missing or unreadable. */
+function readTextAt(fsPath: string): string | undefined {
+  try {
+    if (!fs.existsSync(fsPath)) return undefined;
+    return fs.readFileSync(fsPath, 'utf8');
+  } catch (e) {
+    debug(`readTextAt: error for ${fsPath}: ${e instanceof Error ? e.message : String(e)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Shared context prepended to every run. cli-agent.json SharedContextPath wins (its ## shared-context
+ * section if present, else the whole file); otherwise the ## shared-context section of prompts.md.
+ */
+function getSharedContext(workspaceRoot: string): string {
+  return readSharedContext(workspaceRoot, getCliAgentConfig(workspaceRoot), getPromptsMdPath(workspaceRoot), readTextAt);
+}
+
+/** All prompt definitions in prompts.md; empty when it is missing or unreadable. */
+function readPromptsMdPrompts(workspaceRoot: string): ParsedPrompt[] {
+  const promptsMd = readTextAt(getPromptsMdPath(workspaceRoot));
+  return promptsMd ? parsePromptsMd(promptsMd) : [];
+}
+
+/** True for the prompts.md (PromptsMdPath) of the document's workspace folder. */
+function isPromptsMdDocument(doc: vscode.TextDocument): boolean {
+  const folder = doc.uri.scheme === 'file' ? vscode.workspace.getWorkspaceFolder(doc.uri) : undefined;
+  return !!folder && pathsEqual(doc.uri.fsPath, getPromptsMdPath(folder.uri.fsPath));
+}
+
+/** True for the CLI.md (CliMdPath) of the document's workspace folder. */
+function isCliMdDocument(doc: vscode.TextDocument): boolean {
+  const folder = doc.uri.scheme === 'file' ? vscode.workspace.getWorkspaceFolder(doc.uri) : undefined;
+  return !!folder && pathsEqual(doc.uri.fsPath, getCliMdPath(folder.uri.fsPath));
+}
+
+/** Finds a prompt definition in prompts.md by name (for metadata such as the shared-context opt-out). */
+function findPromptsMdPrompt(workspaceRoot: string, name: string): ParsedPrompt | undefined {
+  return readPromptsMdPrompts(workspaceRoot).find((p) => p.name === name);
+}
+
 async function runInComposer(
   promptText: string,
   composerCommand: string,
@@ -119,95 +319,812 @@ async function runInComposer(
   );
 }
 
-async function runWithAgentCli(
+/** Per-prompt `<!-- fwh: timeout=... -->` overrides cli-agent.json and fwhCliAgent.runTimeoutSeconds. */
+function getRunTimeoutMs(workspaceRoot: string, prompt: ParsedPrompt | undefined): number | undefined {
+  const cliAgent = getCliAgentConfig(workspaceRoot);
+  const ms = resolveRunTimeoutMs(
+    prompt?.metadata['timeout'],
+    cliAgent?.RunTimeoutSeconds,
+    cliAgent?.AgentTimeoutMinutes,
+    vscode.workspace.getConfiguration('fwhCliAgent').get<number>('runTimeoutSeconds')
+  );
+  debug(`getRunTimeoutMs: ${ms ?? 'none'}`);
+  return ms;
+}
+
+async function runCommandExecutor(
+  executor: CommandExecutor,
+  promptText: string,
+  workspaceRoot: string,
+  output: vscode.OutputChannel,
+  options: runner.AgentCliRunOptions = {}
+): Promise<runner.AgentCliResult> {
+  debug(`runCommandExecutor: ${executor.name} spawn cwd=${executor.cwd}`);
+  return runner.runCommandExecutor({ spawn }, executor, promptText, workspaceRoot, output, options);
+}
+
+/**
+ * Context placeholder sources backed by the editor: open documents first, findFiles, the last file editor, and git
+ * limited to gitPaths when given.
+ */
+function editorContextSources(workspaceRoot: string, gitPaths?: readonly string[]): ContextSources {
+  const active = vscode.window.activeTextEditor?.document.uri.scheme === 'file' ? vscode.window.activeTextEditor : _lastFileEditor;
+  const editor = active && !active.document.isClosed ? active : undefined;
+  return {
+    workspaceRoot,
+    readFile: (fsPath) => {
+      const doc = vscode.workspace.textDocuments.find((d) => d.uri.scheme === 'file' && pathsEqual(d.uri.fsPath, fsPath));
+      return doc ? doc.getText() : readTextAt(fsPath);
+    },
+    findFiles: async (pattern) =>
+      (await vscode.workspace.findFiles(new vscode.RelativePattern(workspaceRoot, pattern), undefined, 10_000)).map((u) => u.fsPath),
+    activeEditor: editor && {
+      fsPath: editor.document.uri.fsPath,
+      selection: editor.selections.map((s) => editor.document.getText(s)).filter((t) => t).join('\n'),
+    },
+    env: process.env,
+    git: gitRunner(workspaceRoot),
+    gitPaths,
+  };
+}
+
+/**
+ * Expands workspace context placeholders ({file:...}, {glob:...}, {selection}, {git.stagedDiff}, ...) within the
+ * folder's ContextMaxChars budget. What was cut or could not be resolved is logged.
+ */
+async function expandWorkspaceContext(
+  workspaceRoot: string,
+  label: string,
+  text: string,
+  output: vscode.OutputChannel,
+  gitPaths?: readonly string[]
+): Promise<string> {
+  const maxChars = resolveContextMaxChars(
+    getCliAgentConfig(workspaceRoot)?.ContextMaxChars,
+    vscode.workspace.getConfiguration('fwhCliAgent').get<number>('contextMaxChars')
+  );
+  const expanded = await expandContextPlaceholders(text, editorContextSources(workspaceRoot, gitPaths), maxChars);
+  for (const note of expanded.notes) output.appendLine(`[Cursor CLI] ${label}: ${note}`);
+  return expanded.text;
+}
+
+/**
+ * Checks text for possible secrets before it is run or copied. Findings are logged without their values and the
+ * user chooses: Redact (replace them with `[REDACTED: <rule>]`), Edit… (change the text in an editor, then check
+ * again) or abort (RunCancelledError). Returns the text to send. Throws SecretScanConfigError for invalid
+ * cli-agent.json SecretScan settings.
+ */
+function reviewSecrets(workspaceRoot: string, label: string, text: string, output: vscode.OutputChannel): Promise<string> {
+  const key = `${workspaceRoot}\0${text}`;
+  let review = _secretReviews.get(key);
+  if (!review) {
+    review = reviewSecretsOnce(workspaceRoot, label, text, output).finally(() => _secretReviews.delete(key));
+    _secretReviews.set(key, review);
+  }
+  return review;
+}
+
+async function reviewSecretsOnce(workspaceRoot: string, label: string, text: string, output: vscode.OutputChannel): Promise<string> {
+  const scan = loadSecretScanner(workspaceRoot, getCliAgentConfig(workspaceRoot), [..._secretDetectors]);
+  for (;;) {
+    const findings = scan(text);
+    if (findings.length === 0) return text;
+    const lines = describeSecretFindings(text, findings);
+    output.appendLine(`[Cursor CLI] ${label} may contain secrets (${findings.length}):`);
+    for (const line of lines) output.appendLine(`[Cursor CLI]   ${line}`);
+    const choice = await vscode.window.showWarningMessage(
+      `FWH CLI Agent: ${label} may contain ${findings.length === 1 ? 'a secret' : `${findings.length} secrets`}.`,
+      { modal: true, detail: `${lines.join('\n')}\n\nRedact replaces them before the prompt is sent; Edit… opens the text.` },
+      'Redact',
+      'Edit…'
+    );
+    if (choice === 'Redact') {
+      output.appendLine(`[Cursor CLI] ${label}: ${findings.length} possible secret(s) redacted.`);
+      return redactSecrets(text, findings);
+    }
+    if (choice !== 'Edit…') {
+      output.appendLine(`[Cursor CLI] ${label} not sent: possible secrets.`);
+      throw new RunCancelledError('Not sent: the prompt may contain secrets');
+    }
+    const doc = await vscode.workspace.openTextDocument({ content: text, language: 'markdown' });
+    const editor = await vscode.window.showTextDocument(doc, { preview: false });
+    editor.selections = findings.map((f) => new vscode.Selection(doc.positionAt(f.start), doc.positionAt(f.end)));
+    editor.revealRange(editor.selection);
+    const done = await vscode.window.showInformationMessage(`FWH CLI Agent: Edit ${label}, then choose Send.`, 'Send', 'Abort');
+    text = doc.getText();
+    if (vscode.window.activeTextEditor?.document === doc) await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+    if (done !== 'Send') {
+      output.appendLine(`[Cursor CLI] ${label} not sent: editing aborted.`);
+      throw new RunCancelledError('Not sent: the prompt may contain secrets');
+    }
+  }
+}
+
+/** text with possible secrets redacted, for what is kept on disk (prompt history); text itself when SecretScan is invalid. */
+function redactForRecord(workspaceRoot: string, text: string): string {
+  try {
+    const findings = loadSecretScanner(workspaceRoot, getCliAgentConfig(workspaceRoot), [..._secretDetectors])(text);
+    return findings.length > 0 ? redactSecrets(text, findings) : text;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Runs a prompt with its executor. Prepends shared context unless the prompt opts out
+ * with `<!-- fwh: shared-context=false -->` in prompts.md, then expands workspace context placeholders (git ones
+ * limited to gitPaths when given). The text is checked for secrets (reviewSecrets) first.
+ * Returns the captured result; undefined for composer (its reply is not captured).
+ * Command executors reject on timeout (RunTimeoutError), non-zero exit (AgentExitError) or cancel (RunCancelledError).
+ */
+async function executePrompt(
+  promptName: string,
   promptText: string,
   workspaceRoot: string,
+  output: vscode.OutputChannel,
+  def: ParsedPrompt | undefined,
+  executor: Executor,
+  signal?: AbortSignal,
+  gitPaths?: readonly string[]
+): Promise<runner.AgentCliResult | undefined> {
+  let text = promptText;
+  if (metadataFlag(def?.metadata, SHARED_CONTEXT_SECTION) === false) {
+    debug(`executePrompt: '${promptName}' opted out of shared context`);
+  } else {
+    text = applySharedContext(promptText, getSharedContext(workspaceRoot));
+  }
+  text = await expandWorkspaceContext(workspaceRoot, `Prompt "${promptName}"`, text, output, gitPaths);
+  text = await reviewSecrets(workspaceRoot, `Prompt "${promptName}"`, text, output);
+  switch (executor.kind) {
+    case 'composer':
+      await runInComposer(text, executor.composerCommand, output);
+      return undefined;
+    case 'command':
+      return runCommandExecutor(executor, text, workspaceRoot, output, { signal, timeoutMs: getRunTimeoutMs(workspaceRoot, def) });
+  }
+}
+
+function toResultEntry(promptName: string, r: runner.AgentCliResult, executor: CommandExecutor, status?: string): RunResultEntry {
+  return { promptName, command: `prompt ${promptName}`, ...r, status, executor: executor.name, outputFormat: executor.outputFormat };
+}
+
+/**
+ * CR-EXT-1.2.4: replaces the whole CLI.md document only if its current text still equals expected,
+ * so concurrent edits are never overwritten. Returns true when the edit was applied.
+ */
+async function replaceCliMdContent(
+  uri: vscode.Uri,
+  expected: string,
+  newContent: string,
+  output: vscode.OutputChannel
+): Promise<boolean> {
+  const doc = await vscode.workspace.openTextDocument(uri);
+  const currentText = doc.getText();
+  if (currentText !== expected) {
+    debug(`replaceCliMdContent: doc changed since read; skipping applyEdit to avoid overwriting concurrent edits.`);
+    return false;
+  }
+  const fullRange =
+    doc.lineCount === 0
+      ? new vscode.Range(0, 0, 0, 0)
+      : (() => {
+          const last = doc.lineAt(doc.lineCount - 1);
+          return new vscode.Range(0, 0, last.range.end.line, last.range.end.character);
+        })();
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(uri, fullRange, newContent);
+  try {
+    return await vscode.workspace.applyEdit(edit);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    output.appendLine(`[Cursor CLI] applyEdit failed: ${msg}`);
+    void vscode.window.showWarningMessage(`FWH CLI Agent: Could not update CLI.md: ${msg}`);
+    return false;
+  }
+}
+
+/**
+ * After a successful run: removes its ```cli block (if it came from CLI.md) and appends the agent-cli result
+ * under ## Results, in one edit via replaceCliMdContent. Saves afterwards when CLI.md had no unsaved changes,
+ * so the record persists, then applies the auto-archive policy.
+ */
+async function finishCliMdRun(
+  workspaceRoot: string,
+  cliBlock: string | undefined,
+  entry: RunResultEntry | undefined,
   output: vscode.OutputChannel
 ): Promise<void> {
-  debug(`runWithAgentCli: spawn cwd=${workspaceRoot}`);
-  await runner.runWithAgentCli({ spawn }, promptText, workspaceRoot, output);
+  if (!cliBlock && !entry) return;
+  const uri = vscode.Uri.file(getCliMdPath(workspaceRoot));
+  let doc: vscode.TextDocument;
+  try {
+    doc = await vscode.workspace.openTextDocument(uri);
+  } catch (e) {
+    output.appendLine(`[Cursor CLI] Could not open CLI.md to update it: ${e instanceof Error ? e.message : String(e)}`);
+    return;
+  }
+  const wasDirty = doc.isDirty;
+  const current = doc.getText();
+  let next = current;
+  if (cliBlock) {
+    const idx = findCliBlock(next, cliBlock);
+    if (idx >= 0) next = removeCliBlock(next, cliBlock, idx);
+  }
+  if (entry) next = appendResultEntry(next, formatResultEntry(entry));
+  if (next === current || !(await replaceCliMdContent(uri, current, next, output))) return;
+  if (cliBlock) output.appendLine('[Cursor CLI] Processed and removed prompt block.');
+  if (entry) output.appendLine('[Cursor CLI] Recorded result in ## Results.');
+  if (!wasDirty) {
+    await doc.save();
+    if (entry) maybeAutoArchive(workspaceRoot, output);
+  }
+}
+
+/** Text of a folder's prompts.md: the open document when there is one (edits not saved yet), else the file. */
+function promptsMdText(workspaceRoot: string): string {
+  const p = getPromptsMdPath(workspaceRoot);
+  const doc = vscode.workspace.textDocuments.find((d) => d.uri.scheme === 'file' && pathsEqual(d.uri.fsPath, p));
+  return doc ? doc.getText() : (readTextAt(p) ?? '');
+}
+
+/**
+ * Changes a folder's prompts.md through a WorkspaceEdit, so the change can be undone: edit computes the change
+ * from the current text (undefined: nothing to do). Creates prompts.md when missing and saves it unless it had
+ * unsaved changes. Returns true when prompts.md was changed.
+ */
+async function editPromptsMd(
+  workspaceRoot: string,
+  edit: (content: string) => TextEditSpan | undefined,
+  output: vscode.OutputChannel
+): Promise<boolean> {
+  const promptsPath = getPromptsMdPath(workspaceRoot);
+  const uri = vscode.Uri.file(promptsPath);
+  try {
+    if (!fs.existsSync(promptsPath)) {
+      const span = edit('');
+      if (!span) return false;
+      const create = new vscode.WorkspaceEdit();
+      create.createFile(uri, { ignoreIfExists: true });
+      create.insert(uri, new vscode.Position(0, 0), span.text);
+      if (!(await vscode.workspace.applyEdit(create))) return false;
+      await (await vscode.workspace.openTextDocument(uri)).save();
+      return true;
+    }
+    const doc = await vscode.workspace.openTextDocument(uri);
+    const wasDirty = doc.isDirty;
+    const span = edit(doc.getText());
+    if (!span) return false;
+    const we = new vscode.WorkspaceEdit();
+    we.replace(uri, new vscode.Range(doc.positionAt(span.start), doc.positionAt(span.end)), span.text);
+    if (!(await vscode.workspace.applyEdit(we))) return false;
+    if (!wasDirty) await doc.save();
+    return true;
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    output.appendLine(`[Cursor CLI] Could not update prompts.md: ${msg}`);
+    void vscode.window.showErrorMessage(`FWH CLI Agent: Could not update prompts.md: ${msg}`);
+    return false;
+  }
 }
 
-async function processContent(
-  content: string,
+/**
+ * Adds a populated prompt to CLI.md ## Prompts as `### Prompt: name (timestamp)` (Write-CcliPromptToCli layout),
+ * creating CLI.md from the default template when missing. Saves unless CLI.md had unsaved changes.
+ */
+async function saveCliMdPrompt(
   workspaceRoot: string,
+  promptName: string,
+  promptText: string,
   output: vscode.OutputChannel
-): Promise<{ newContent: string; changed: boolean }> {
+): Promise<void> {
+  const cliPath = getCliMdPath(workspaceRoot);
+  try {
+    if (!fs.existsSync(cliPath)) {
+      fs.mkdirSync(path.dirname(cliPath), { recursive: true });
+      fs.writeFileSync(cliPath, defaultCliContent(formatTimestamp(new Date())), 'utf8');
+    }
+    const uri = vscode.Uri.file(cliPath);
+    const doc = await vscode.workspace.openTextDocument(uri);
+    const wasDirty = doc.isDirty;
+    const current = doc.getText();
+    if (!(await replaceCliMdContent(uri, current, addPromptToCliMd(current, promptName, promptText), output))) return;
+    if (!wasDirty) await doc.save();
+    output.appendLine(`[Cursor CLI] Saved prompt ${promptName} to ## Prompts in ${cliPath}`);
+    void vscode.window.showInformationMessage(`FWH CLI Agent: Prompt "${promptName}" saved to CLI.md.`);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    output.appendLine(`[Cursor CLI] Could not save prompt ${promptName} to CLI.md: ${msg}`);
+    void vscode.window.showErrorMessage(`FWH CLI Agent: Could not save prompt to CLI.md: ${msg}`);
+  }
+}
+
+/**
+ * Open dialog for file/folder prompt parameters, starting at the workspace folder. Paths outside it are
+ * refused. Returns the path relative to the folder with forward slashes ('.' for the folder itself).
+ */
+async function pickWorkspacePath(workspaceRoot: string, kind: 'file' | 'folder'): Promise<string | undefined> {
+  const picked = await vscode.window.showOpenDialog({
+    defaultUri: vscode.Uri.file(workspaceRoot),
+    canSelectFiles: kind === 'file',
+    canSelectFolders: kind === 'folder',
+    canSelectMany: false,
+    openLabel: kind === 'file' ? 'Select file' : 'Select folder',
+  });
+  const fsPath = picked?.[0]?.fsPath;
+  if (!fsPath) return undefined;
+  if (!isUnderWorkspaceRoot(path.resolve(workspaceRoot), fsPath)) {
+    void vscode.window.showWarningMessage(`FWH CLI Agent: Pick a ${kind} inside the workspace folder ${workspaceRoot}.`);
+    return undefined;
+  }
+  return path.relative(workspaceRoot, fsPath).replace(/\\/g, '/') || '.';
+}
+
+/**
+ * Archives CLI.md into CLI-history.md and resets it (same as Invoke-CcliClean). Refuses while CLI.md
+ * has unsaved changes so the archive matches what is on disk. Returns true when archived.
+ */
+function archiveCli(workspaceRoot: string, output: vscode.OutputChannel, reason?: string): boolean {
+  const cliPath = getCliMdPath(workspaceRoot);
+  const openDoc = vscode.workspace.textDocuments.find((d) => d.uri.scheme === 'file' && pathsEqual(d.uri.fsPath, cliPath));
+  if (openDoc?.isDirty) {
+    output.appendLine('[Cursor CLI] Archive skipped: CLI.md has unsaved changes.');
+    void vscode.window.showWarningMessage('FWH CLI Agent: Save CLI.md before archiving it.');
+    return false;
+  }
+  try {
+    const { historyPath, timestamp } = archiveCliFile(workspaceRoot, cliPath);
+    output.appendLine(`[Cursor CLI] Archived CLI.md to ${historyPath} (${timestamp})${reason ? ` — ${reason}` : ''}; CLI.md reset to default.`);
+    void vscode.window.showInformationMessage('FWH CLI Agent: CLI.md archived to CLI-history.md and reset.');
+    return true;
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    output.appendLine(`[Cursor CLI] Archive failed: ${msg}`);
+    void vscode.window.showErrorMessage(`FWH CLI Agent: Could not archive CLI.md: ${msg}`);
+    return false;
+  }
+}
+
+/** Applies cli-agent.json CliAgent.AutoArchive to the saved CLI.md. */
+function maybeAutoArchive(workspaceRoot: string, output: vscode.OutputChannel): void {
+  const policy = getCliAgentConfig(workspaceRoot)?.AutoArchive;
+  if (!policy) return;
+  const content = readTextAt(getCliMdPath(workspaceRoot));
+  if (content === undefined) return;
+  const reason = autoArchiveReason(content, policy);
+  if (!reason) return;
+  debug(`maybeAutoArchive: ${reason}`);
+  archiveCli(workspaceRoot, output, `auto-archive: ${reason}`);
+}
+
+interface PromptRunRequest {
+  promptName: string;
+  promptText: string;
+  workspaceRoot: string;
+  prompt?: ParsedPrompt;
+  /** The ```cli block that requested the run; removed from CLI.md once the run succeeds. */
+  cliBlock?: string;
+  source: string;
+  /** Which text runs, for the history: 'prompts.md' or `CLI.md <revision label>`. */
+  revision?: string;
+  /** Filled parameter values, for the history (and re-opening the form from it). */
+  parameters?: Record<string, string>;
+  /** Fan-out group to send the prompt to; else the prompt's `<!-- fwh: fanout=<group> -->`, if any. */
+  fanOut?: string;
+  /** Workspace-relative files the {git.*} placeholders are limited to (a run from changed files in Source Control). */
+  gitPaths?: string[];
+}
+
+/** What the history keeps about the prompt of a run. */
+type HistoryRun = Pick<HistoryEntry, 'promptName' | 'promptText' | 'revision' | 'source' | 'parameters'>;
+
+/**
+ * Appends a finished run to its workspace folder's prompt history and refreshes the Prompt History view.
+ * result is the captured output, if any; a failure without output records the error message instead.
+ */
+function recordHistory(
+  workspaceRoot: string,
+  run: HistoryRun,
+  executor: string,
+  startedAt: Date,
+  status: HistoryStatus,
+  result?: { exitCode: number | null; output: string },
+  error?: unknown
+): void {
+  const { promptName, promptText, revision, source, parameters } = run;
+  const message = error === undefined ? '' : error instanceof Error ? error.message : String(error);
+  const entry: HistoryEntry = {
+    id: newHistoryId(startedAt),
+    promptName,
+    ...(revision ? { revision } : {}),
+    source,
+    promptText: redactForRecord(workspaceRoot, promptText),
+    ...(parameters && Object.keys(parameters).length > 0
+      ? { parameters: Object.fromEntries(Object.entries(parameters).map(([k, v]) => [k, redactForRecord(workspaceRoot, v)])) }
+      : {}),
+    executor,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    exitCode: result?.exitCode ?? null,
+    status,
+    output: result?.output || message,
+  };
+  try {
+    appendHistoryEntry(historyFilePath(workspaceRoot), entry);
+  } catch (e) {
+    _output?.appendLine(`[Cursor CLI] Could not record prompt history: ${e instanceof Error ? e.message : String(e)}`);
+    return;
+  }
+  _history?.refresh();
+}
+
+/** Copies a prompt to the clipboard with workspace context expanded, once reviewSecrets let it through. */
+async function copyPrompt(workspaceRoot: string, promptName: string, text: string, gitPaths?: readonly string[]): Promise<void> {
+  if (!_output) return;
+  let checked: string;
+  try {
+    const expanded = await expandWorkspaceContext(workspaceRoot, `Prompt "${promptName}"`, text, _output, gitPaths);
+    checked = await reviewSecrets(workspaceRoot, `Prompt "${promptName}"`, expanded, _output);
+  } catch (e) {
+    if (!(e instanceof RunCancelledError)) void vscode.window.showWarningMessage(`FWH CLI Agent: ${e instanceof Error ? e.message : String(e)}`);
+    return;
+  }
+  await vscode.env.clipboard.writeText(checked);
+  void vscode.window.showInformationMessage(`FWH CLI Agent: Prompt "${promptName}" copied to clipboard.`);
+}
+
+/** Captured output of a failed command executor run (timeout or non-zero exit). */
+function failedResult(e: unknown): runner.AgentCliResult | undefined {
+  return e instanceof RunTimeoutError || e instanceof AgentExitError ? e.result : undefined;
+}
+
+/**
+ * Queues a prompt run. Requests for the same prompt name and text that are already pending or running
+ * are coalesced into the existing job. Prompts with a fan-out group run through runFanOutPrompt.
+ */
+function enqueuePromptRun(req: PromptRunRequest, output: vscode.OutputChannel): void {
+  if (!_queue) return;
+  const hash = createHash('sha1').update(req.promptText).digest('hex').slice(0, 12);
+  const scope = req.gitPaths?.length ? `|git:${req.gitPaths.join(',')}` : '';
+  const key = `${req.workspaceRoot}|${req.promptName}#${hash}${req.fanOut ? `|fanout:${req.fanOut}` : ''}${scope}`;
+  const { job, coalesced } = _queue.enqueue(key, `${req.promptName} (${req.source})${folderSuffix(req.workspaceRoot)}`, async (signal, report) => {
+    const def = req.prompt ?? findPromptsMdPrompt(req.workspaceRoot, req.promptName);
+    const group = req.fanOut ?? def?.metadata['fanout']?.trim();
+    if (group) return runFanOutPrompt(req, def, group, output, signal, report);
+    let executor: Executor | undefined;
+    let result: runner.AgentCliResult | undefined;
+    const startedAt = new Date();
+    try {
+      executor = getExecutor(req.workspaceRoot, def);
+      output.appendLine(`[Cursor CLI] Running prompt: ${req.promptName} (executor: ${executor.name})`);
+      result = await executePrompt(req.promptName, req.promptText, req.workspaceRoot, output, def, executor, signal, req.gitPaths);
+    } catch (e) {
+      recordHistory(req.workspaceRoot, req, executor?.name ?? '?', startedAt, failureStatus(e, signal), failedResult(e), e);
+      if (e instanceof RunCancelledError) throw e;
+      const msg = e instanceof Error ? e.message : String(e);
+      output.appendLine(`[Cursor CLI] Prompt ${req.promptName} failed: ${msg}`);
+      // Record what the agent produced, but keep the ```cli block so the request is not treated as done.
+      if ((e instanceof RunTimeoutError || e instanceof AgentExitError) && executor?.kind === 'command') {
+        const status = e instanceof RunTimeoutError ? `timed out (${msg})` : 'failed';
+        await finishCliMdRun(req.workspaceRoot, undefined, toResultEntry(req.promptName, e.result, executor, status), output);
+      }
+      void vscode.window.showWarningMessage(`FWH CLI Agent: Prompt "${req.promptName}" failed: ${msg}.`);
+      throw e;
+    }
+    recordHistory(req.workspaceRoot, req, executor.name, startedAt, 'succeeded', result);
+    const entry = result && executor?.kind === 'command' ? toResultEntry(req.promptName, result, executor, 'succeeded') : undefined;
+    await finishCliMdRun(req.workspaceRoot, req.cliBlock, entry, output);
+  });
+  output.appendLine(
+    coalesced
+      ? `[Cursor CLI] Prompt ${req.promptName} already ${job.status} (job #${job.id}); request coalesced.`
+      : `[Cursor CLI] Queued prompt: ${req.promptName} (job #${job.id})`
+  );
+}
+
+interface WorkflowRunRequest {
+  workflow: Workflow;
+  /** Workflow parameter values (resolveWorkflowInputs). */
+  inputs: Record<string, string>;
+  workspaceRoot: string;
+  /** The ```cli block that requested the run; removed from CLI.md once every step succeeded. */
+  cliBlock?: string;
+  source: string;
+  /** Workspace-relative files the steps' {git.*} placeholders are limited to. */
+  gitPaths?: string[];
+}
+
+/**
+ * Queues a workflow as one job whose steps show in the Run Queue. Each step runs with its own executor; command
+ * executor results are recorded under ## Results one at a time (parallel steps finish concurrently).
+ * Prompts are re-read from prompts.md when the job starts.
+ */
+function enqueueWorkflowRun(req: WorkflowRunRequest, output: vscode.OutputChannel): void {
+  if (!_queue) return;
+  const name = req.workflow.name;
+  const hash = createHash('sha1').update(JSON.stringify(req.inputs)).digest('hex').slice(0, 12);
+  const key = `${req.workspaceRoot}|workflow:${name}#${hash}${req.gitPaths?.length ? `|git:${req.gitPaths.join(',')}` : ''}`;
+  const label = `${name} (workflow, ${req.source})${folderSuffix(req.workspaceRoot)}`;
+  const { job, coalesced } = _queue.enqueue(key, label, async (signal, report) => {
+    let recording = Promise.resolve();
+    const record = (entry: RunResultEntry) => {
+      recording = recording.then(() => finishCliMdRun(req.workspaceRoot, undefined, entry, output));
+      return recording;
+    };
+    output.appendLine(`[Cursor CLI] Running workflow: ${name} (${req.workflow.steps.length} steps)`);
+    try {
+      await runWorkflow(
+        req.workflow,
+        readPromptsMdPrompts(req.workspaceRoot),
+        req.inputs,
+        {
+          runStep: async (step, prompt, text, stepSignal) => {
+            const executor = getExecutor(req.workspaceRoot, prompt);
+            const command = `${PROMPT_VERB} ${name} (step ${step.id})`;
+            const run: HistoryRun = { promptName: step.prompt, promptText: text, revision: 'prompts.md', source: `workflow ${name}, step ${step.id}` };
+            const startedAt = new Date();
+            output.appendLine(`[Cursor CLI] Workflow ${name}: running step ${step.id} (${step.prompt}, executor: ${executor.name})`);
+            try {
+              const result = await executePrompt(step.prompt, text, req.workspaceRoot, output, prompt, executor, stepSignal, req.gitPaths);
+              recordHistory(req.workspaceRoot, run, executor.name, startedAt, 'succeeded', result);
+              if (result && executor.kind === 'command') await record({ ...toResultEntry(step.prompt, result, executor, 'succeeded'), command });
+              return result?.output ?? '';
+            } catch (e) {
+              recordHistory(req.workspaceRoot, run, executor.name, startedAt, failureStatus(e, stepSignal), failedResult(e), e);
+              if ((e instanceof RunTimeoutError || e instanceof AgentExitError) && executor.kind === 'command') {
+                const status = e instanceof RunTimeoutError ? `timed out (${e.message})` : 'failed';
+                await record({ ...toResultEntry(step.prompt, e.result, executor, status), command });
+              }
+              throw e;
+            }
+          },
+          log: (line) => output.appendLine(line),
+          report,
+        },
+        signal
+      );
+    } catch (e) {
+      if (e instanceof RunCancelledError) throw e;
+      const msg = e instanceof Error ? e.message : String(e);
+      output.appendLine(`[Cursor CLI] Workflow ${name} failed: ${msg}`);
+      void vscode.window.showWarningMessage(`FWH CLI Agent: Workflow "${name}" failed: ${msg}.`);
+      throw e;
+    }
+    await recording;
+    output.appendLine(`[Cursor CLI] Workflow ${name} finished.`);
+    await finishCliMdRun(req.workspaceRoot, req.cliBlock, undefined, output);
+  });
+  output.appendLine(
+    coalesced
+      ? `[Cursor CLI] Workflow ${name} already ${job.status} (job #${job.id}); request coalesced.`
+      : `[Cursor CLI] Queued workflow: ${name} (job #${job.id})`
+  );
+}
+
+/** Output channel of a fan-out variant, created on first use. */
+function fanOutChannel(variant: string): vscode.OutputChannel {
+  let channel = _fanOutChannels.get(variant);
+  if (!channel) {
+    channel = vscode.window.createOutputChannel(`${OUTPUT_CHANNEL_NAME}: ${variant}`);
+    _fanOutChannels.set(variant, channel);
+  }
+  return channel;
+}
+
+/**
+ * Sends one prompt to every variant of a fan-out group at once (each variant is a step of the job and streams to
+ * its own output channel), then records the merged report under ## Results and opens it. The ```cli block is
+ * removed only when every variant succeeded; otherwise the job fails after the report is recorded.
+ */
+async function runFanOutPrompt(
+  req: PromptRunRequest,
+  def: ParsedPrompt | undefined,
+  group: string,
+  output: vscode.OutputChannel,
+  signal: AbortSignal,
+  report: JobProgressFn
+): Promise<void> {
+  const name = req.promptName;
+  const startedAt = new Date();
+  let results: Awaited<ReturnType<typeof runFanOut>>;
+  try {
+    const { mode, composerCommand } = getExecuteOptions(req.workspaceRoot);
+    const cliAgent = getCliAgentConfig(req.workspaceRoot);
+    const defaultExecutor = def?.metadata['executor']?.trim() || mode;
+    const variants = resolveFanOutVariants(group, req.workspaceRoot, cliAgent?.FanOut, cliAgent?.Executors, composerCommand, defaultExecutor);
+    output.appendLine(`[Cursor CLI] Fan-out prompt: ${name} (group ${group}: ${variants.map((v) => v.name).join(', ')})`);
+    results = await runFanOut(
+      variants,
+      {
+        runVariant: (v, s) => {
+          const channel = fanOutChannel(v.name);
+          channel.appendLine(`[Cursor CLI] Running prompt: ${name} (${v.name})${folderSuffix(req.workspaceRoot)}`);
+          return executePrompt(name, req.promptText, req.workspaceRoot, channel, def, v.executor, s, req.gitPaths);
+        },
+        log: (line) => output.appendLine(line),
+        report,
+      },
+      signal
+    );
+  } catch (e) {
+    recordHistory(req.workspaceRoot, req, `fan-out: ${group}`, startedAt, failureStatus(e, signal), undefined, e);
+    if (e instanceof RunCancelledError) throw e;
+    const msg = e instanceof Error ? e.message : String(e);
+    output.appendLine(`[Cursor CLI] Fan-out ${name} failed: ${msg}`);
+    void vscode.window.showWarningMessage(`FWH CLI Agent: Fan-out of "${name}" failed: ${msg}.`);
+    throw e;
+  }
+  const failed = results.filter((r) => r.status !== 'succeeded').length;
+  const text = formatFanOutReport(name, group, results, startedAt);
+  const entry: RunResultEntry = {
+    promptName: name,
+    command: `${PROMPT_VERB} ${name}`,
+    exitCode: failed ? 1 : 0,
+    output: text,
+    startedAt,
+    finishedAt: new Date(),
+    status: failed ? `failed (${failed} of ${results.length} variants)` : 'succeeded',
+    executor: `fan-out: ${group}`,
+    outputFormat: 'markdown',
+  };
+  recordHistory(req.workspaceRoot, req, entry.executor ?? group, startedAt, failed ? 'failed' : 'succeeded', entry);
+  await finishCliMdRun(req.workspaceRoot, failed ? undefined : req.cliBlock, entry, output);
+  void vscode.window.showTextDocument(fanOutReportUri(name, text), { preview: true });
+  if (failed) throw new Error(`${failed} of ${results.length} fan-out variants did not succeed`);
+}
+
+/**
+ * Queues a ```cli command that is not a prompt run (a verb, or a prompt command that cannot run). Its output is
+ * recorded under ## Results and the block removed. CliCommandError (unknown verb, bad arguments) is recorded as an
+ * invalid command and the block removed too, since re-running cannot help; other failures keep the block.
+ */
+function enqueueCliCommand(
+  command: string,
+  cliBlock: string,
+  workspaceRoot: string,
+  output: vscode.OutputChannel,
+  run: (signal: AbortSignal) => Promise<string | undefined> | string | undefined
+): void {
+  if (!_queue) return;
+  const { job, coalesced } = _queue.enqueue(`${workspaceRoot}|cli:${command}`, `${command} (CLI.md)${folderSuffix(workspaceRoot)}`, async (signal) => {
+    const startedAt = new Date();
+    const record = (text: string, exitCode: number, status: string, block: string | undefined) => {
+      const entry: RunResultEntry = { command, exitCode, output: text, startedAt, finishedAt: new Date(), status, outputFormat: 'markdown' };
+      return finishCliMdRun(workspaceRoot, block, entry, output);
+    };
+    let text: string | undefined;
+    try {
+      text = await run(signal);
+    } catch (e) {
+      if (e instanceof RunCancelledError) throw e;
+      const msg = e instanceof Error ? e.message : String(e);
+      const invalid = e instanceof CliCommandError;
+      output.appendLine(`[Cursor CLI] Command ${command} ${invalid ? 'rejected' : 'failed'}: ${msg}`);
+      await record(msg, 1, invalid ? 'invalid command' : 'failed', invalid ? cliBlock : undefined);
+      void vscode.window.showWarningMessage(`FWH CLI Agent: Command "${command}" ${invalid ? 'rejected' : 'failed'}: ${msg}.`);
+      throw e;
+    }
+    if (text !== undefined) await record(text, 0, 'succeeded', cliBlock);
+  });
+  output.appendLine(
+    coalesced
+      ? `[Cursor CLI] Command ${command} already ${job.status} (job #${job.id}); request coalesced.`
+      : `[Cursor CLI] Queued command: ${command} (job #${job.id})`
+  );
+}
+
+/** Runs a registered ```cli verb (looked up when the job starts); unknown verbs are rejected with CliCommandError. */
+function runCliVerb(
+  parsed: ParsedCliCommand,
+  command: string,
+  workspaceRoot: string,
+  signal: AbortSignal
+): Promise<string | undefined> | string | undefined {
+  if (!_commands) return undefined;
+  const handler = _commands.get(parsed.verb);
+  if (!handler) {
+    throw new CliCommandError(
+      parsed.verb === PROMPT_VERB ? `Usage: ${PROMPT_VERB} <name> [Key=Value ...]` : formatUnknownCommand(parsed.verb, _commands)
+    );
+  }
+  return handler.run(parsed.args, { workspaceRoot, cliMdPath: getCliMdPath(workspaceRoot), command, signal });
+}
+
+
+/**
+ * Queues a run for each ```cli block outside ## Usage, ## Results and other fences: prompt runs and other verbs
+ * (enqueueCliCommand). Blocks are removed from CLI.md as their runs succeed.
+ */
+function processContent(content: string, workspaceRoot: string, output: vscode.OutputChannel): number {
   if (content.length > MAX_CLI_MD_BYTES) {
     output.appendLine(`[Cursor CLI] CLI.md exceeds ${MAX_CLI_MD_BYTES / 1e6}MB; skipping processing to limit load.`);
-    return { newContent: content, changed: false };
+    return 0;
   }
   const blocks = parseCliBlocks(content);
   debug(`processContent: ${blocks.length} \`\`\`cli block(s) to consider`);
-  let newContent = content;
-  /** CR-EXT-1.2.5: collect removals and apply end-to-start so indices stay valid. */
-  const toRemove: { fullMatch: string; index: number }[] = [];
-
-  const { mode, composerCommand } = getExecuteOptions(workspaceRoot);
+  let queued = 0;
+  _heldBlocks.retain(workspaceRoot, blocks.map((b) => b.fullMatch));
 
   for (const b of blocks) {
-    const pr = isPromptCommand(b.command);
-    if (!pr) {
-      debug(`processContent: block at index ${b.index} is not a prompt command, skipping`);
+    if (isInertCliBlock(content, b.index)) {
+      debug(`processContent: block at index ${b.index} is an example or recorded output, skipping`);
       continue;
     }
-
-    const promptText = extractPromptFromPromptsSection(content, pr.name);
-    if (!promptText) {
-      output.appendLine(`[Cursor CLI] No populated prompt in ## Prompts for: ${pr.name}`);
-      void vscode.window.showWarningMessage(
-        `FWH CLI Agent: No populated prompt in CLI.md for "${pr.name}". Use Write-PromptToCli -Name '${pr.name}' to add one.`
-      );
+    // Queued before and still here: it failed or was cancelled (or is still queued). Run now or Retry runs it again.
+    if (_heldBlocks.isHeld(workspaceRoot, b.fullMatch)) {
+      debug(`processContent: block at index ${b.index} was already queued, skipping`);
       continue;
     }
-
-    output.appendLine(`[Cursor CLI] Parsed prompt (${pr.name}):`);
-    output.appendLine('---');
-    output.appendLine(promptText);
-    output.appendLine('---');
-    output.appendLine(`[Cursor CLI] Running prompt: ${pr.name} (mode: ${mode})`);
-
-    if (mode === 'composer') {
-      await runInComposer(promptText, composerCommand, output);
-    } else {
-      await runWithAgentCli(promptText, workspaceRoot, output);
+    if (processCliBlock(content, b, workspaceRoot, output)) {
+      _heldBlocks.hold(workspaceRoot, b.fullMatch);
+      queued++;
     }
+  }
+  return queued;
+}
 
-    toRemove.push({ fullMatch: b.fullMatch, index: b.index });
-    debug(`processContent: queued removal of \`\`\`cli block for prompt '${pr.name}'`);
+/** Queues one ```cli block of content (a prompt run or another verb). Returns false when nothing was queued. */
+function processCliBlock(content: string, b: ParsedBlock, workspaceRoot: string, output: vscode.OutputChannel): boolean {
+  const pr = isPromptCommand(b.command);
+  if (!pr) {
+    const parsed = parseCliCommand(b.command);
+    if (!parsed) return false;
+    enqueueCliCommand(b.command, b.fullMatch, workspaceRoot, output, (signal) => runCliVerb(parsed, b.command, workspaceRoot, signal));
+    return true;
   }
 
-  // Apply removals from highest index to lowest so positions remain valid
-  toRemove.sort((a, b) => b.index - a.index);
-  for (const r of toRemove) {
-    newContent = removeCliBlock(newContent, r.fullMatch, r.index);
+  let resolved: ResolvedPromptCommand | undefined;
+  try {
+    resolved = resolvePromptCommand(content, pr, readPromptsMdPrompts(workspaceRoot));
+  } catch (e) {
+    enqueueCliCommand(b.command, b.fullMatch, workspaceRoot, output, () => {
+      throw e;
+    });
+    return true;
+  }
+  if (!resolved) {
+    output.appendLine(`[Cursor CLI] No populated prompt in ## Prompts for: ${pr.name}`);
+    void vscode.window.showWarningMessage(
+      `FWH CLI Agent: No populated prompt in CLI.md for "${pr.name}". Use Write-PromptToCli -Name '${pr.name}' to add one.`
+    );
+    return false;
   }
+  if ('workflow' in resolved) {
+    enqueueWorkflowRun({ workflow: resolved.workflow, inputs: resolved.inputs, workspaceRoot, cliBlock: b.fullMatch, source: 'CLI.md' }, output);
+    return true;
+  }
+  const promptText = resolved.text;
 
-  return { newContent, changed: toRemove.length > 0 };
-}
+  output.appendLine(`[Cursor CLI] Parsed prompt (${pr.name}):`);
+  output.appendLine('---');
+  output.appendLine(promptText);
+  output.appendLine('---');
 
-let watcher: vscode.FileSystemWatcher | undefined;
-let lastProcessed = 0;
-const DEBOUNCE_MS = 800;
+  enqueuePromptRun(
+    {
+      promptName: pr.name,
+      promptText,
+      workspaceRoot,
+      prompt: resolved.def,
+      cliBlock: b.fullMatch,
+      source: 'CLI.md',
+      revision: resolved.revision,
+      parameters: pr.args,
+    },
+    output
+  );
+  return true;
+}
 
+/**
+ * Every file event is processed; duplicate blocks coalesce in the run queue instead of being debounced.
+ * Runs in the workspace folder whose CLI.md changed.
+ */
 async function onCliMdChange(uri: vscode.Uri, output: vscode.OutputChannel): Promise<void> {
   output.appendLine(`[Cursor CLI] File event: ${uri.fsPath}`);
 
-  if (Date.now() - lastProcessed < DEBOUNCE_MS) {
-    debug(`onCliMdChange: debounced (within ${DEBOUNCE_MS}ms)`);
-    return;
-  }
-  lastProcessed = Date.now();
-
-  const root = getWorkspaceRoot();
+  const root = findRootForCliMd(uri.fsPath);
   if (!root) {
-    debug('onCliMdChange: no workspace root');
-    return;
-  }
-
-  const cliPath = getCliMdPath(root);
-  if (!pathsEqual(uri.fsPath, cliPath)) {
-    debug(`onCliMdChange: path mismatch, ignoring. uri=${uri.fsPath} expected=${cliPath}`);
+    debug(`onCliMdChange: not the CLI.md of any workspace folder, ignoring. uri=${uri.fsPath}`);
     return;
   }
 
@@ -222,38 +1139,147 @@ async function onCliMdChange(uri: vscode.Uri, output: vscode.OutputChannel): Pro
   const when = new Date().toISOString();
   output.appendLine(`[Cursor CLI] CLI.md changed: ${uri.fsPath} — ${when} — processing...`);
   output.show();
-  const { newContent, changed } = await processContent(content, root, output);
-  if (changed) output.appendLine(`[Cursor CLI] Processed and removed prompt block(s).`);
-  if (changed) {
-    const doc = await vscode.workspace.openTextDocument(uri);
-    // CR-EXT-1.2.4: only replace if current document text matches content we used for processContent
-    const currentText = doc.getText();
-    if (currentText !== content) {
-      debug(`onCliMdChange: doc changed since read; skipping applyEdit to avoid overwriting concurrent edits.`);
-      return;
+  processContent(content, root, output);
+}
+
+/** Watches one folder's CLI.md (at its configured path) and invalidates its cli-agent.json cache entry on change. */
+function watchFolder(folder: vscode.WorkspaceFolder, output: vscode.OutputChannel): vscode.Disposable {
+  const root = folder.uri.fsPath;
+  const cliAgent = getCliAgentConfig(root);
+  const cliPath = getCliMdPath(root);
+  const label = folderSuffix(root);
+
+  if (cliAgent) {
+    output.appendLine(
+      `[Cursor CLI] Config from cli-agent.json${label}: CliMdPath=${cliAgent.CliMdPath ?? '(default)'}, PromptsMdPath=${cliAgent.PromptsMdPath ?? '-'}, ExecuteMode=${cliAgent.ExecuteMode ?? '-'}, Executors=${Object.keys(cliAgent.Executors ?? {}).join('|') || '-'}, ComposerCommand=${cliAgent.ComposerCommand ?? '-'}, SharedContextPath=${cliAgent.SharedContextPath ?? '-'}`
+    );
+  } else {
+    output.appendLine(`[Cursor CLI] cli-agent.json not found${label}; using defaults and fwhCliAgent settings.`);
+  }
+  output.appendLine(`[Cursor CLI] Watching: ${cliPath}`);
+
+  const rel = path.relative(root, cliPath).replace(/\\/g, '/') || 'CLI.md';
+  debug(`createFileSystemWatcher pattern: ${rel} in ${root}`);
+  const cliWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, rel));
+  const handler = (u: vscode.Uri) => onCliMdChange(u, output);
+  cliWatcher.onDidChange(handler);
+  cliWatcher.onDidCreate(handler);
+
+  // CR-EXT-1.3.1: invalidate config cache when cli-agent.json changes
+  const configWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, 'cli-agent.json'));
+  const invalidate = (what: string) => {
+    _configCache.delete(root);
+    debug(`config cache invalidated: cli-agent.json ${what} in ${root}`);
+    _promptsLanguage?.refresh();
+    _cliMdLanguage?.refresh();
+  };
+  configWatcher.onDidChange(() => invalidate('changed'));
+  configWatcher.onDidCreate(() => invalidate('created'));
+  configWatcher.onDidDelete(() => invalidate('deleted'));
+
+  return vscode.Disposable.from(cliWatcher, configWatcher);
+}
+
+/** Starts watchers for new workspace folders and disposes those of removed ones. */
+function syncFolderWatchers(output: vscode.OutputChannel): void {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const keys = new Set(folders.map((f) => f.uri.toString()));
+  for (const [key, w] of _folderWatchers) {
+    if (!keys.has(key)) {
+      w.dispose();
+      _folderWatchers.delete(key);
     }
-    const fullRange =
-      doc.lineCount === 0
-        ? new vscode.Range(0, 0, 0, 0)
-        : (() => {
-            const last = doc.lineAt(doc.lineCount - 1);
-            return new vscode.Range(0, 0, last.range.end.line, last.range.end.character);
-          })();
-    const edit = new vscode.WorkspaceEdit();
-    edit.replace(uri, fullRange, newContent);
-    try {
-      await vscode.workspace.applyEdit(edit);
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e);
-      output.appendLine(`[Cursor CLI] applyEdit failed: ${msg}`);
-      void vscode.window.showWarningMessage(`FWH CLI Agent: Could not update CLI.md: ${msg}`);
+  }
+  for (const f of folders) {
+    const key = f.uri.toString();
+    if (!_folderWatchers.has(key)) _folderWatchers.set(key, watchFolder(f, output));
+  }
+}
+
+/** Read-only documents holding CLI.md prompt revisions for the diff editor. */
+const REVISION_SCHEME = 'fwh-prompt-revision';
+const _revisionDocs = new Map<string, string>();
+let _revisionSeq = 0;
+
+/** Registers a revision's text under a new fwh-prompt-revision URI (kept for the session). */
+function revisionUri(revision: CliPromptRevision): vscode.Uri {
+  const uri = vscode.Uri.from({
+    scheme: REVISION_SCHEME,
+    path: `/${revision.name} (${revision.label.replace(/[:/\\]/g, '-')}).md`,
+    query: String(++_revisionSeq),
+  });
+  _revisionDocs.set(uri.toString(), revision.text);
+  return uri;
+}
+
+/**
+ * Opens two revisions of one prompt in the diff editor, older on the left. Without a second revision, asks
+ * for it among the prompt's other revisions (siblings: newest first, as listed by listPromptRevisions).
+ */
+async function diffPromptRevisions(
+  first: CliPromptRevision,
+  second: CliPromptRevision | undefined,
+  siblings: CliPromptRevision[]
+): Promise<void> {
+  let other = second;
+  if (!other) {
+    const rest = siblings.filter((r) => r.index !== first.index);
+    if (rest.length === 0) {
+      void vscode.window.showInformationMessage(`FWH CLI Agent: "${first.name}" has only one revision in CLI.md.`);
+      return;
     }
+    const pick = await vscode.window.showQuickPick(
+      rest.map((r) => ({ label: r.label || '(no timestamp)', description: r === siblings[0] ? 'newest' : undefined, revision: r })),
+      { placeHolder: `Compare ${first.name} (${first.label}) with` }
+    );
+    if (!pick) return;
+    other = pick.revision;
   }
+  const rank = (r: CliPromptRevision) => siblings.findIndex((x) => x.index === r.index);
+  const [older, newer] = rank(other) > rank(first) ? [other, first] : [first, other];
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    revisionUri(older),
+    revisionUri(newer),
+    `${older.name}: ${older.label} ↔ ${newer.label}`
+  );
+}
+
+/** Read-only documents holding merged fan-out reports. */
+const FANOUT_REPORT_SCHEME = 'fwh-fanout-report';
+const _fanOutReports = new Map<string, string>();
+let _fanOutReportSeq = 0;
+
+/** Registers a fan-out report under a new fwh-fanout-report URI (kept for the session). */
+function fanOutReportUri(promptName: string, text: string): vscode.Uri {
+  const uri = vscode.Uri.from({
+    scheme: FANOUT_REPORT_SCHEME,
+    path: `/${promptName} fan-out.md`,
+    query: String(++_fanOutReportSeq),
+  });
+  _fanOutReports.set(uri.toString(), text);
+  return uri;
+}
+
+/** Read-only documents showing a Prompt History entry (details, prompt and output). */
+const HISTORY_SCHEME = 'fwh-prompt-history';
+const _historyDocs = new Map<string, string>();
+let _historyDocSeq = 0;
+
+/** Registers a history entry's document under a new fwh-prompt-history URI (kept for the session). */
+function historyDocUri(entry: HistoryEntry): vscode.Uri {
+  const uri = vscode.Uri.from({
+    scheme: HISTORY_SCHEME,
+    path: `/${entry.promptName} (${formatTimestamp(new Date(entry.startedAt)).replace(/:/g, '-')}).md`,
+    query: String(++_historyDocSeq),
+  });
+  _historyDocs.set(uri.toString(), formatHistoryDocument(entry));
+  return uri;
 }
 
 const OUTPUT_CHANNEL_NAME = 'Cursor CLI';
 
-export function activate(context: vscode.ExtensionContext): void {
+export function activate(context: vscode.ExtensionContext): FwhCliAgentApi {
   const output = vscode.window.createOutputChannel(OUTPUT_CHANNEL_NAME);
   _output = output;
   output.appendLine('[Cursor CLI] Activating...');
@@ -273,56 +1299,61 @@ export function activate(context: vscode.ExtensionContext): void {
   statusBar.show();
   context.subscriptions.push(statusBar);
 
-  const folder = vscode.workspace.workspaceFolders?.[0];
-  const root = folder?.uri.fsPath;
-  if (!root || !folder) {
-    output.appendLine('[Cursor CLI] Not activated: no workspace folder. Open a folder (File > Open Folder).');
-    return;
-  }
-  debug(`activate: workspace root=${root}`);
-
-  const cliAgent = getCliAgentConfig(root);
-  const cliPath = getCliMdPath(root);
+  // Run queue (view, cancel, retry) is available even before a workspace folder is open.
+  const queue = new RunQueue();
+  _queue = queue;
+  const queueProvider = new RunQueueTreeDataProvider(queue);
+  context.subscriptions.push(queueProvider);
+  context.subscriptions.push(vscode.window.createTreeView('fwhCliAgent.runQueue', { treeDataProvider: queueProvider }));
 
-  if (cliAgent) {
-    output.appendLine(
-      `[Cursor CLI] Config from cli-agent.json: CliMdPath=${cliAgent.CliMdPath ?? '(default)'}, PromptsMdPath=${cliAgent.PromptsMdPath ?? '-'}, ExecuteMode=${cliAgent.ExecuteMode ?? '-'}, ComposerCommand=${cliAgent.ComposerCommand ?? '-'}`
+  const pickJob = async (filter: (j: RunJob) => boolean, placeHolder: string) => {
+    const jobs = queue.list().filter(filter);
+    if (jobs.length === 0) return undefined;
+    const pick = await vscode.window.showQuickPick(
+      jobs.map((j) => ({ label: `#${j.id} ${j.label}`, description: j.status, id: j.id })),
+      { placeHolder }
     );
-  } else {
-    output.appendLine('[Cursor CLI] cli-agent.json not found; using defaults and fwhCliAgent settings.');
-  }
-  output.appendLine(`[Cursor CLI] Watching: ${cliPath}`);
-  output.appendLine(`[Cursor CLI] onDidSaveTextDocument subscribed for: ${path.basename(cliPath)}`);
+    return pick?.id;
+  };
 
-  const rel = path.relative(root, cliPath).replace(/\\/g, '/') || 'CLI.md';
-  debug(`createFileSystemWatcher pattern: ${rel}`);
-  watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, rel));
-  const handler = (u: vscode.Uri) => onCliMdChange(u, output);
-  watcher.onDidChange(handler);
-  watcher.onDidCreate(handler);
-  context.subscriptions.push(watcher);
+  context.subscriptions.push(
+    vscode.commands.registerCommand('fwhCliAgent.cancelJob', async (item?: RunJobTreeItem) => {
+      const id = item?.jobId ?? (await pickJob((j) => isActive(j.status), 'Job to cancel'));
+      if (id === undefined) return;
+      if (queue.cancel(id)) output.appendLine(`[Cursor CLI] Cancel requested for job #${id}.`);
+    }),
+    vscode.commands.registerCommand('fwhCliAgent.retryJob', async (item?: RunJobTreeItem) => {
+      const id = item?.jobId ?? (await pickJob((j) => isRetryable(j.status), 'Job to retry'));
+      if (id === undefined) return;
+      const job = queue.retry(id);
+      if (job) output.appendLine(`[Cursor CLI] Retrying job #${id} as job #${job.id}.`);
+    }),
+    vscode.commands.registerCommand('fwhCliAgent.clearFinishedJobs', () => queue.clearFinished())
+  );
 
-  // CR-EXT-1.3.1: invalidate config cache when cli-agent.json changes
-  _configWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, 'cli-agent.json'));
-  _configWatcher.onDidChange(() => { _configCache = null; debug('config cache invalidated: cli-agent.json changed'); });
-  _configWatcher.onDidDelete(() => { _configCache = null; debug('config cache invalidated: cli-agent.json deleted'); });
-  context.subscriptions.push(_configWatcher);
+  const commands = new CliCommandRegistry();
+  _commands = commands;
+
+  if (!vscode.workspace.workspaceFolders?.length) {
+    output.appendLine('[Cursor CLI] No workspace folder yet. Open a folder (File > Open Folder); folders added later are picked up.');
+  }
+  syncFolderWatchers(output);
+  context.subscriptions.push({
+    dispose: () => {
+      for (const w of _folderWatchers.values()) w.dispose();
+      _folderWatchers.clear();
+    },
+  });
 
   context.subscriptions.push(
     vscode.workspace.onDidSaveTextDocument((doc) => {
       if (doc.uri.scheme !== 'file') return;
-      const r = getWorkspaceRoot();
-      if (!r) {
-        debug('onDidSaveTextDocument: no workspace root');
-        return;
-      }
-      const p = getCliMdPath(r);
-      if (pathsEqual(doc.uri.fsPath, p)) {
+      if (findRootForCliMd(doc.uri.fsPath)) {
         output.appendLine(`[Cursor CLI] Save detected: ${doc.uri.fsPath}`);
         output.show(true);
         void onCliMdChange(doc.uri, output);
       } else if (path.basename(doc.uri.fsPath).toLowerCase() === 'cli.md') {
-        output.appendLine(`[Cursor CLI] Save ignored (path mismatch): doc=${doc.uri.fsPath} expected=${p}`);
+        output.appendLine(`[Cursor CLI] Save ignored (not the configured CLI.md of any workspace folder): ${doc.uri.fsPath}`);
         output.show(true);
       }
     })
@@ -330,48 +1361,157 @@ export function activate(context: vscode.ExtensionContext): void {
 
   context.subscriptions.push(
     vscode.commands.registerCommand('fwhCliAgent.processCliFile', async () => {
-      const u = vscode.Uri.file(cliPath);
-      await onCliMdChange(u, output);
+      const r = await pickWorkspaceRoot('Workspace folder whose CLI.md to process');
+      if (!r) return;
+      await onCliMdChange(vscode.Uri.file(getCliMdPath(r)), output);
     })
   );
 
-  // MVP-SUPPORT-005: Prompts list (TreeView) and Open prompt form
-  const loadPrompts = (): ReturnType<typeof loadPromptList> => {
-    const r = getWorkspaceRoot();
-    if (!r) return [];
-    return loadPromptList(getPromptsMdPath(r), getCliMdPath(r));
-  };
-  const promptsProvider = new PromptsTreeDataProvider(loadPrompts);
-  const promptsTreeView = vscode.window.createTreeView('fwhCliAgent.promptsList', { treeDataProvider: promptsProvider });
+  context.subscriptions.push(
+    vscode.commands.registerCommand('fwhCliAgent.archiveCliFile', async () => {
+      const r = await pickWorkspaceRoot('Workspace folder whose CLI.md to archive');
+      if (!r) return;
+      output.show(true);
+      archiveCli(r, output);
+    })
+  );
+
+  // MVP-SUPPORT-005: Prompts list (TreeView) and Open prompt form; one group per workspace folder
+  const loadPrompts = (r: string): ReturnType<typeof loadPromptList> => loadPromptList(getPromptsMdPath(r), getCliMdPath(r));
+  const promptsProvider = new PromptsTreeDataProvider(
+    () => (vscode.workspace.workspaceFolders ?? []).map((f) => ({ name: f.name, root: f.uri.fsPath })),
+    loadPrompts
+  );
+  const promptsTreeView = vscode.window.createTreeView('fwhCliAgent.promptsList', { treeDataProvider: promptsProvider, canSelectMany: true });
   context.subscriptions.push(promptsTreeView);
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(REVISION_SCHEME, {
+      provideTextDocumentContent: (uri) => _revisionDocs.get(uri.toString()) ?? '',
+    }),
+    vscode.workspace.registerTextDocumentContentProvider(FANOUT_REPORT_SCHEME, {
+      provideTextDocumentContent: (uri) => _fanOutReports.get(uri.toString()) ?? '',
+    }),
+    { dispose: () => _revisionDocs.clear() },
+    { dispose: () => _fanOutReports.clear() }
+  );
+
+  context.subscriptions.push(
+    vscode.window.onDidChangeActiveTextEditor((e) => {
+      if (e?.document.uri.scheme === 'file') _lastFileEditor = e;
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders((e) => {
+      for (const f of e.removed) {
+        _configCache.delete(f.uri.fsPath);
+        _heldBlocks.clear(f.uri.fsPath);
+      }
+      syncFolderWatchers(output);
+      promptsProvider.refresh();
+      _promptsLanguage?.refresh();
+      _cliMdLanguage?.refresh();
+      _history?.refresh();
+    }),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration('fwhCliAgent.promptsMdPath')) _promptsLanguage?.refresh();
+      if (e.affectsConfiguration('fwhCliAgent.promptsMdPath') || e.affectsConfiguration('fwhCliAgent.cliMdPath')) _cliMdLanguage?.refresh();
+    })
+  );
+
+  // Built-in ```cli verbs; `prompt <name>` is handled by processContent itself.
+  const promptSummaries = (r: string): CliPromptSummary[] =>
+    loadPrompts(r).map((i) => ({ name: i.name, description: i.prompt?.description, fromPromptsMd: !!i.prompt, revisions: i.revisions.length }));
+  commands.register('help', {
+    description: 'list the available commands and prompts',
+    run: (_args, ctx) => formatHelp(commands, promptSummaries(ctx.workspaceRoot)),
+  });
+  commands.register('list', {
+    description: 'list the prompts from prompts.md and CLI.md ## Prompts',
+    run: (_args, ctx) => formatPromptList(promptSummaries(ctx.workspaceRoot)),
+  });
+  commands.register('clean', {
+    description: 'archive CLI.md to CLI-history.md and reset it (Invoke-CcliClean)',
+    run: (_args, ctx) => {
+      if (!archiveCli(ctx.workspaceRoot, output, '```cli clean')) throw new Error('CLI.md was not archived');
+      return undefined;
+    },
+  });
+
+  // Last form values per folder and prompt, restored when the form opens again.
+  const FORM_VALUES_KEY = 'fwhCliAgent.formValues';
+  const lastFormValues = (root: string, name: string): Record<string, string> | undefined =>
+    context.workspaceState.get<Record<string, Record<string, string>>>(FORM_VALUES_KEY)?.[`${root}|${name}`];
+  const rememberFormValues = (root: string, name: string, values: Record<string, string>): void => {
+    const all = context.workspaceState.get<Record<string, Record<string, string>>>(FORM_VALUES_KEY) ?? {};
+    void context.workspaceState.update(FORM_VALUES_KEY, { ...all, [`${root}|${name}`]: values });
+  };
+
+  /**
+   * Opens the parameter form of a prompts.md prompt; Invoke runs it (or the workflow) in root. The fields are
+   * filled from values, else (for a new form) from the last values used in this workspace. panel is a form
+   * restored after a reload. gitPaths limits the {git.*} placeholders of its runs (opened from Source Control).
+   */
+  const showPromptForm = (
+    root: string,
+    prompt: ParsedPrompt,
+    values?: Record<string, string>,
+    panel?: vscode.WebviewPanel,
+    gitPaths?: string[]
+  ): void => {
+    const presetsPath = presetsFilePath(getPromptsMdPath(root));
+    const handlers: PromptFormHandlers = {
+      onInvoke: (promptName, filledText, values) => {
+        output.appendLine(`[Cursor CLI] Invoke prompt: ${promptName}${folderSuffix(root)}`);
+        output.show();
+        if (isWorkflow(prompt)) {
+          const w = resolveWorkflowInputs(prompt, readPromptsMdPrompts(root), values);
+          if ('error' in w) void vscode.window.showWarningMessage(`FWH CLI Agent: ${w.error}.`);
+          else enqueueWorkflowRun({ workflow: prompt, inputs: w.inputs, workspaceRoot: root, source: 'form', gitPaths }, output);
+          return;
+        }
+        enqueuePromptRun({ promptName, promptText: filledText, workspaceRoot: root, prompt, source: 'form', revision: 'prompts.md', parameters: values, gitPaths }, output);
+      },
+      onCopy: (promptName, filledText) => void copyPrompt(root, promptName, filledText, gitPaths),
+      onSave: (promptName, filledText) => void saveCliMdPrompt(root, promptName, filledText, output),
+      pickPath: (kind) => pickWorkspacePath(root, kind),
+      countGlob: async (pattern) => (await vscode.workspace.findFiles(new vscode.RelativePattern(root, pattern), undefined, 10_000)).length,
+      onValues: (promptName, v) => rememberFormValues(root, promptName, v),
+      presets: (promptName) => {
+        try {
+          return readPresets(presetsPath)[promptName] ?? {};
+        } catch (e) {
+          output.appendLine(`[Cursor CLI] ${e instanceof Error ? e.message : String(e)}`);
+          return {};
+        }
+      },
+      onPreset: (promptName, presetName, v) => {
+        try {
+          const presets = writePreset(presetsPath, promptName, presetName, v);
+          output.appendLine(`[Cursor CLI] Preset "${presetName}" of ${promptName} ${v ? 'saved to' : 'deleted from'} ${presetsPath}`);
+          return presets;
+        } catch (e) {
+          const msg = e instanceof Error ? e.message : String(e);
+          output.appendLine(`[Cursor CLI] Could not update presets: ${msg}`);
+          void vscode.window.showErrorMessage(`FWH CLI Agent: Could not update presets: ${msg}`);
+          return undefined;
+        }
+      },
+    };
+    createOrShowPromptFormPanel(prompt, handlers, { workspaceRoot: root, values, defaultValues: lastFormValues(root, prompt.name), panel });
+  };
 
   const openPromptForm = async (element?: vscode.TreeItem): Promise<void> => {
     const node = element ?? promptsTreeView.selection[0];
-    const name = (node?.id ?? node?.label) as string | undefined;
-    if (!name) {
+    if (!(node instanceof PromptTreeItem)) {
       void vscode.window.showInformationMessage('FWH CLI Agent: Select a prompt from the Prompts view.');
       return;
     }
-    const items = loadPrompts();
-    const item = items.find((i) => i.name === name);
+    const root = node.workspaceRoot;
+    const name = node.item.name;
+    const item = loadPrompts(root).find((i) => i.name === name);
     if (!item) return;
     if (item.prompt) {
-      createOrShowPromptFormPanel(item.prompt, async (promptName: string, filledText: string) => {
-        const r = getWorkspaceRoot();
-        if (!r) {
-          void vscode.window.showErrorMessage('FWH CLI Agent: No workspace folder.');
-          return;
-        }
-        output.appendLine(`[Cursor CLI] Invoke prompt: ${promptName}`);
-        output.show();
-        const { mode, composerCommand } = getExecuteOptions(r);
-        if (mode === 'composer') {
-          await runInComposer(filledText, composerCommand, output);
-        } else {
-          await runWithAgentCli(filledText, r, output);
-        }
-      });
+      showPromptForm(root, item.prompt);
     } else {
+      const cliPath = getCliMdPath(root);
       let content: string;
       try {
         content = fs.readFileSync(cliPath, 'utf8');
@@ -380,34 +1520,373 @@ export function activate(context: vscode.ExtensionContext): void {
         void vscode.window.showErrorMessage(`FWH CLI Agent: Could not read CLI.md.`);
         return;
       }
-      const promptText = extractPromptFromPromptsSection(content, name);
-      if (!promptText) {
+      const newest = listPromptRevisions(content, name)[0];
+      if (!newest?.text) {
         output.appendLine(`[Cursor CLI] No populated prompt for "${name}" in CLI.md.`);
         void vscode.window.showWarningMessage(`FWH CLI Agent: No populated prompt for "${name}" in CLI.md.`);
         return;
       }
-      output.appendLine(`[Cursor CLI] Run prompt from CLI: ${name}`);
+      output.appendLine(`[Cursor CLI] Run prompt from CLI: ${name}${folderSuffix(root)}`);
       output.show();
-      const { mode, composerCommand } = getExecuteOptions(root);
-      if (mode === 'composer') {
-        await runInComposer(promptText, composerCommand, output);
-      } else {
-        await runWithAgentCli(promptText, root, output);
-      }
+      enqueuePromptRun({ promptName: name, promptText: newest.text, workspaceRoot: root, source: 'CLI.md', revision: `CLI.md ${newest.label}` }, output);
     }
   };
 
   context.subscriptions.push(
-    vscode.commands.registerCommand('fwhCliAgent.openPromptForm', openPromptForm)
+    vscode.commands.registerCommand('fwhCliAgent.openPromptForm', openPromptForm),
+    // Forms open at shutdown come back with the values typed into them; others are closed.
+    vscode.window.registerWebviewPanelSerializer(PROMPT_FORM_VIEW_TYPE, {
+      deserializeWebviewPanel: async (panel, state: unknown) => {
+        if (isPromptFormState(state)) {
+          const root = getWorkspaceRoots().find((r) => pathsEqual(r, state.workspaceRoot));
+          const prompt = root && findPromptsMdPrompt(root, state.promptName);
+          if (root && prompt) {
+            showPromptForm(root, prompt, state.values, panel);
+            return;
+          }
+        }
+        debug('deserializeWebviewPanel: prompt form no longer available; closing it');
+        panel.dispose();
+      },
+    })
+  );
+
+  // Template authoring: prompts.md sections are added, renamed and removed through WorkspaceEdits.
+  const templateNames = (root: string): string[] => parsePromptsMd(promptsMdText(root)).map((p) => p.name);
+  /** Opens prompts.md at the `## name` heading of a section that was just written. */
+  const revealTemplate = async (root: string, name: string): Promise<void> => {
+    const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(getPromptsMdPath(root)));
+    const h = findPromptHeading(doc.getText(), name);
+    const selection = h && new vscode.Range(doc.positionAt(h.start), doc.positionAt(h.end));
+    await vscode.window.showTextDocument(doc, { preview: false, ...(selection ? { selection } : {}) });
+  };
+  /** Template form of a folder; after is the section a copy is written behind (else the end of prompts.md). */
+  const showTemplateFormFor = (root: string, key: string, title: string, draft: PromptTemplateDraft, after?: string): void => {
+    showTemplateForm(`${root}|${key}`, title, draft, {
+      check: (d) => ({ ...checkPromptTemplate(d, templateNames(root)), section: formatPromptSection(d) }),
+      onSave: async (d) => {
+        const name = d.name.trim();
+        const { warnings } = checkPromptTemplate(d, templateNames(root));
+        const written = await editPromptsMd(
+          root,
+          (text) => (checkTemplateName(name, parsePromptsMd(text).map((p) => p.name)) ? undefined : addPromptSectionEdit(text, formatPromptSection(d), after)),
+          output
+        );
+        if (!written) {
+          void vscode.window.showWarningMessage(`FWH CLI Agent: Template "${name}" was not saved; prompts.md may already have it.`);
+          return false;
+        }
+        output.appendLine(`[Cursor CLI] Prompt template ${name} added to ${getPromptsMdPath(root)}`);
+        for (const w of warnings) output.appendLine(`[Cursor CLI] ${name}: ${w}`);
+        promptsProvider.refresh();
+        await revealTemplate(root, name);
+        if (warnings.length > 0) void vscode.window.showWarningMessage(`FWH CLI Agent: Template "${name}" saved. ${warnings.join('. ')}.`);
+        return true;
+      },
+    });
+  };
+  /** The prompts.md prompt of a Prompts view node (or the selection); undefined with a hint otherwise. */
+  const selectedTemplate = (element?: vscode.TreeItem): { root: string; prompt: ParsedPrompt } | undefined => {
+    const node = element ?? promptsTreeView.selection[0];
+    const prompt = node instanceof PromptTreeItem ? findPromptsMdPrompt(node.workspaceRoot, node.item.name) : undefined;
+    if (node instanceof PromptTreeItem && prompt) return { root: node.workspaceRoot, prompt };
+    void vscode.window.showInformationMessage('FWH CLI Agent: Select a prompt from prompts.md in the Prompts view.');
+    return undefined;
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('fwhCliAgent.newPromptTemplate', async (element?: vscode.TreeItem) => {
+      const root =
+        element instanceof PromptFolderTreeItem
+          ? element.folder.root
+          : element instanceof PromptTreeItem
+            ? element.workspaceRoot
+            : await pickWorkspaceRoot('Workspace folder for the new prompt template');
+      if (!root) return;
+      const draft: PromptTemplateDraft = { name: '', description: '', body: '', parameters: [] };
+      showTemplateFormFor(root, 'new', `New prompt template${folderSuffix(root)}`, draft);
+    }),
+    vscode.commands.registerCommand('fwhCliAgent.duplicatePromptTemplate', async (element?: vscode.TreeItem) => {
+      const t = selectedTemplate(element);
+      if (!t) return;
+      const { root, prompt } = t;
+      const suggested = copyName(prompt.name, templateNames(root));
+      if (!isWorkflow(prompt)) {
+        showTemplateFormFor(root, `copy:${prompt.name}`, `Copy of ${prompt.name}${folderSuffix(root)}`, draftFromPrompt(prompt, suggested), prompt.name);
+        return;
+      }
+      // The form has no ### Steps table; workflows are copied as they are under the new name.
+      const name = await vscode.window.showInputBox({
+        prompt: `Name for the copy of workflow ${prompt.name}`,
+        value: suggested,
+        validateInput: (v) => checkTemplateName(v, templateNames(root)),
+      });
+      if (!name) return;
+      const written = await editPromptsMd(root, (text) => copyPromptSectionEdit(text, prompt.name, name.trim()), output);
+      if (!written) return;
+      output.appendLine(`[Cursor CLI] Workflow ${prompt.name} copied to ${name.trim()}`);
+      promptsProvider.refresh();
+      await revealTemplate(root, name.trim());
+    }),
+    vscode.commands.registerCommand('fwhCliAgent.renamePromptTemplate', async (element?: vscode.TreeItem) => {
+      const t = selectedTemplate(element);
+      if (!t) return;
+      const { root, prompt } = t;
+      const input = await vscode.window.showInputBox({
+        prompt: `New name for prompt template ${prompt.name}`,
+        value: prompt.name,
+        validateInput: (v) => checkTemplateName(v, templateNames(root), prompt.name),
+      });
+      const name = input?.trim();
+      if (!name || name === prompt.name) return;
+      const written = await editPromptsMd(root, (text) => renamePromptSectionEdit(text, prompt.name, name), output);
+      if (!written) return;
+      output.appendLine(`[Cursor CLI] Prompt template ${prompt.name} renamed to ${name}`);
+      promptsProvider.refresh();
+      const users = workflowsUsing(readPromptsMdPrompts(root), prompt.name);
+      if (users.length > 0) {
+        void vscode.window.showWarningMessage(`FWH CLI Agent: Workflows still run "${prompt.name}" in their steps: ${users.join(', ')}.`);
+      }
+    }),
+    vscode.commands.registerCommand('fwhCliAgent.deletePromptTemplate', async (element?: vscode.TreeItem) => {
+      const t = selectedTemplate(element);
+      if (!t) return;
+      const { root, prompt } = t;
+      const users = workflowsUsing(readPromptsMdPrompts(root), prompt.name);
+      const confirm = await vscode.window.showWarningMessage(
+        `Delete prompt template "${prompt.name}" from prompts.md?`,
+        { modal: true, detail: users.length > 0 ? `Workflows that run it: ${users.join(', ')}.` : undefined },
+        'Delete'
+      );
+      if (confirm !== 'Delete') return;
+      const written = await editPromptsMd(root, (text) => removePromptSectionEdit(text, prompt.name), output);
+      if (!written) return;
+      output.appendLine(`[Cursor CLI] Prompt template ${prompt.name} deleted from ${getPromptsMdPath(root)}`);
+      promptsProvider.refresh();
+    })
+  );
+
+  const selectedRevision = (element?: vscode.TreeItem): PromptRevisionTreeItem | undefined => {
+    const node = element ?? promptsTreeView.selection[0];
+    if (node instanceof PromptRevisionTreeItem) return node;
+    void vscode.window.showInformationMessage('FWH CLI Agent: Expand a prompt in the Prompts view and select one of its revisions.');
+    return undefined;
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('fwhCliAgent.runPromptRevision', (element?: vscode.TreeItem) => {
+      const node = selectedRevision(element);
+      if (!node) return;
+      const { name, label, text } = node.revision;
+      output.appendLine(`[Cursor CLI] Run prompt from CLI: ${name} (${label})${folderSuffix(node.workspaceRoot)}`);
+      output.show();
+      enqueuePromptRun({ promptName: name, promptText: text, workspaceRoot: node.workspaceRoot, source: `CLI.md ${label}`, revision: `CLI.md ${label}` }, output);
+    }),
+    vscode.commands.registerCommand('fwhCliAgent.fanOutPrompt', async (element?: vscode.TreeItem) => {
+      const node = element ?? promptsTreeView.selection[0];
+      let target: { root: string; name: string; text: string; label: string; prompt?: ParsedPrompt } | undefined;
+      if (node instanceof PromptRevisionTreeItem) {
+        const { name, label, text } = node.revision;
+        target = { root: node.workspaceRoot, name, text, label: `CLI.md ${label}` };
+      } else if (node instanceof PromptTreeItem) {
+        const { name, revisions, prompt } = node.item;
+        if (revisions.length > 0) target = { root: node.workspaceRoot, name, text: revisions[0].text, label: `CLI.md ${revisions[0].label}` };
+        else if (prompt) {
+          const filled = resolvePromptArgs(prompt, {});
+          if ('error' in filled) {
+            void vscode.window.showWarningMessage(`FWH CLI Agent: ${filled.error}. Save it as a CLI.md prompt from its form first.`);
+            return;
+          }
+          target = { root: node.workspaceRoot, name, text: filled.text, label: 'prompts.md', prompt };
+        }
+      }
+      if (!target) {
+        void vscode.window.showInformationMessage('FWH CLI Agent: Select a prompt or prompt revision in the Prompts view.');
+        return;
+      }
+      const groups = Object.keys(getCliAgentConfig(target.root)?.FanOut ?? {});
+      if (groups.length === 0) {
+        void vscode.window.showWarningMessage('FWH CLI Agent: No fan-out groups in cli-agent.json (CliAgent.FanOut).');
+        return;
+      }
+      const group = groups.length === 1 ? groups[0] : await vscode.window.showQuickPick(groups, { placeHolder: `Fan out ${target.name} to` });
+      if (!group) return;
+      output.appendLine(`[Cursor CLI] Fan out prompt: ${target.name} (${target.label}) to ${group}${folderSuffix(target.root)}`);
+      output.show();
+      const { root, name, text, prompt } = target;
+      enqueuePromptRun(
+        { promptName: name, promptText: text, workspaceRoot: root, prompt, source: `${target.label}, fan-out`, revision: target.label, fanOut: group },
+        output
+      );
+    }),
+    vscode.commands.registerCommand('fwhCliAgent.diffPromptRevisions', async (element?: vscode.TreeItem, selected?: vscode.TreeItem[]) => {
+      const node = selectedRevision(element);
+      if (!node) return;
+      const second = (selected ?? promptsTreeView.selection).find(
+        (s): s is PromptRevisionTreeItem =>
+          s instanceof PromptRevisionTreeItem && s !== node && s.workspaceRoot === node.workspaceRoot && s.revision.name === node.revision.name
+      );
+      const siblings = loadPrompts(node.workspaceRoot).find((i) => i.name === node.revision.name)?.revisions ?? [node.revision];
+      await diffPromptRevisions(node.revision, second?.revision, siblings);
+    })
   );
   context.subscriptions.push(
     vscode.commands.registerCommand('fwhCliAgent.refreshPromptsList', () => promptsProvider.refresh())
   );
 
+  // Prompt History: the runs recorded in each folder's .cursor/fwh-prompt-history.jsonl.
+  const historyProvider = new HistoryTreeDataProvider(
+    () =>
+      getWorkspaceRoots().flatMap((root) =>
+        readHistory(historyFilePath(root)).map((entry) => ({ workspaceRoot: root, folderLabel: folderSuffix(root), entry }))
+      ),
+    'fwhCliAgent.openHistoryOutput'
+  );
+  _history = historyProvider;
+  const historyTreeView = vscode.window.createTreeView('fwhCliAgent.promptHistory', { treeDataProvider: historyProvider });
+  const selectedHistory = (element?: HistoryTreeItem): HistoryTreeItem | undefined => {
+    const node = element ?? historyTreeView.selection[0];
+    if (!node) void vscode.window.showInformationMessage('FWH CLI Agent: Select a run in the Prompt History view.');
+    return node;
+  };
+  context.subscriptions.push(
+    historyProvider,
+    historyTreeView,
+    { dispose: () => (_history = undefined) },
+    vscode.workspace.registerTextDocumentContentProvider(HISTORY_SCHEME, {
+      provideTextDocumentContent: (uri) => _historyDocs.get(uri.toString()) ?? '',
+    }),
+    { dispose: () => _historyDocs.clear() },
+    vscode.commands.registerCommand('fwhCliAgent.rerunHistoryEntry', (element?: HistoryTreeItem) => {
+      const node = selectedHistory(element);
+      if (!node) return;
+      const { workspaceRoot, entry } = node.record;
+      const { promptName, promptText, revision, parameters, executor } = entry;
+      const fanOut = executor.startsWith('fan-out: ') ? executor.slice('fan-out: '.length) : undefined;
+      output.appendLine(`[Cursor CLI] Re-run prompt from history: ${promptName}${folderSuffix(workspaceRoot)}`);
+      output.show();
+      enqueuePromptRun({ promptName, promptText, workspaceRoot, source: 'history', revision, parameters, fanOut }, output);
+    }),
+    vscode.commands.registerCommand('fwhCliAgent.openHistoryForm', (element?: HistoryTreeItem) => {
+      const node = selectedHistory(element);
+      if (!node) return;
+      const { workspaceRoot, entry } = node.record;
+      const prompt = findPromptsMdPrompt(workspaceRoot, entry.promptName);
+      if (!prompt) {
+        void vscode.window.showWarningMessage(`FWH CLI Agent: Prompt "${entry.promptName}" is no longer in prompts.md.`);
+        return;
+      }
+      showPromptForm(workspaceRoot, prompt, entry.parameters);
+    }),
+    vscode.commands.registerCommand('fwhCliAgent.copyHistoryPrompt', async (element?: HistoryTreeItem) => {
+      const node = selectedHistory(element);
+      if (!node) return;
+      await copyPrompt(node.record.workspaceRoot, node.record.entry.promptName, node.record.entry.promptText);
+    }),
+    vscode.commands.registerCommand('fwhCliAgent.openHistoryOutput', async (element?: HistoryTreeItem) => {
+      const node = selectedHistory(element);
+      if (node) await vscode.window.showTextDocument(historyDocUri(node.record.entry), { preview: true });
+    }),
+    vscode.commands.registerCommand('fwhCliAgent.refreshHistory', () => historyProvider.refresh())
+  );
+
+  // prompts.md CodeLenses: the prompt is parsed from the (possibly unsaved) document.
+  _promptsLanguage = new PromptsMdLanguageFeatures(isPromptsMdDocument);
+  // uri is any document of the folder (prompts.md or CLI.md); its prompts.md is read from the editor when open.
+  const promptsMdPromptAt = async (uri: vscode.Uri, name: string): Promise<{ root: string; prompt: ParsedPrompt } | undefined> => {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    let prompt: ParsedPrompt | undefined;
+    if (folder) {
+      const promptsMd = vscode.Uri.file(getPromptsMdPath(folder.uri.fsPath));
+      const text = await Promise.resolve(vscode.workspace.openTextDocument(promptsMd)).then(
+        (d) => d.getText(),
+        () => ''
+      );
+      prompt = parsePromptsMd(text).find((p) => p.name === name);
+    }
+    if (!folder || !prompt) {
+      void vscode.window.showWarningMessage(`FWH CLI Agent: Prompt "${name}" not found in prompts.md.`);
+      return undefined;
+    }
+    return { root: folder.uri.fsPath, prompt };
+  };
+  context.subscriptions.push(
+    _promptsLanguage,
+    { dispose: () => (_promptsLanguage = undefined) },
+    vscode.commands.registerCommand(RUN_PROMPTS_MD_PROMPT_COMMAND, async (uri: vscode.Uri, name: string) => {
+      const at = await promptsMdPromptAt(uri, name);
+      if (!at) return;
+      const { root, prompt } = at;
+      output.appendLine(`[Cursor CLI] Run prompt from prompts.md: ${name}${folderSuffix(root)}`);
+      output.show();
+      if (isWorkflow(prompt)) {
+        const w = resolveWorkflowInputs(prompt, readPromptsMdPrompts(root), {});
+        if ('error' in w) void vscode.window.showWarningMessage(`FWH CLI Agent: ${w.error}. Use Open form to fill it in.`);
+        else enqueueWorkflowRun({ workflow: prompt, inputs: w.inputs, workspaceRoot: root, source: 'prompts.md' }, output);
+        return;
+      }
+      const filled = resolvePromptArgs(prompt, {});
+      if ('error' in filled) {
+        void vscode.window.showWarningMessage(`FWH CLI Agent: ${filled.error}. Use Open form to fill them in.`);
+        return;
+      }
+      enqueuePromptRun({ promptName: name, promptText: filled.text, workspaceRoot: root, prompt, source: 'prompts.md', revision: 'prompts.md' }, output);
+    }),
+    vscode.commands.registerCommand(OPEN_PROMPTS_MD_FORM_COMMAND, async (uri: vscode.Uri, name: string) => {
+      const at = await promptsMdPromptAt(uri, name);
+      if (at) showPromptForm(at.root, at.prompt);
+    })
+  );
+
+  // CLI.md CodeLenses: offsets refer to the document's current text.
+  _cliMdLanguage = new CliMdLanguageFeatures({
+    isCliMd: isCliMdDocument,
+    prompts: (doc) => {
+      const folder = vscode.workspace.getWorkspaceFolder(doc.uri);
+      return folder ? loadPrompts(folder.uri.fsPath) : [];
+    },
+    verbs: () => commands.list().map((v) => v.verb),
+  });
+  const cliMdAt = async (uri: vscode.Uri): Promise<{ root: string; content: string } | undefined> => {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) return undefined;
+    return { root: folder.uri.fsPath, content: (await vscode.workspace.openTextDocument(uri)).getText() };
+  };
+  context.subscriptions.push(
+    _cliMdLanguage,
+    { dispose: () => (_cliMdLanguage = undefined) },
+    vscode.commands.registerCommand(RUN_CLI_BLOCK_COMMAND, async (uri: vscode.Uri, index: number) => {
+      const at = await cliMdAt(uri);
+      const block = at && parseCliBlocks(at.content).find((b) => b.index === index);
+      if (!at || !block) {
+        void vscode.window.showInformationMessage('FWH CLI Agent: The ```cli block changed; try again.');
+        return;
+      }
+      output.appendLine(`[Cursor CLI] Run now: ${block.command}${folderSuffix(at.root)}`);
+      output.show();
+      if (processCliBlock(at.content, block, at.root, output)) _heldBlocks.hold(at.root, block.fullMatch);
+    }),
+    vscode.commands.registerCommand(RUN_CLI_MD_REVISION_COMMAND, async (uri: vscode.Uri, index: number) => {
+      const at = await cliMdAt(uri);
+      const revision = at && listPromptRevisions(at.content).find((r) => r.index === index);
+      if (!at || !revision) {
+        void vscode.window.showInformationMessage('FWH CLI Agent: The prompt changed; try again.');
+        return;
+      }
+      const { name, label, text } = revision;
+      output.appendLine(`[Cursor CLI] Run prompt from CLI: ${name} (${label})${folderSuffix(at.root)}`);
+      output.show();
+      enqueuePromptRun({ promptName: name, promptText: text, workspaceRoot: at.root, source: `CLI.md ${label}`, revision: `CLI.md ${label}` }, output);
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('fwhCliAgent.runPrompt', async () => {
+      const root = await pickWorkspaceRoot('Workspace folder whose CLI.md has the prompt');
+      if (!root) return;
+      const cliPath = getCliMdPath(root);
       const name = await vscode.window.showInputBox({
-        prompt: 'Prompt name (from ## Prompts in CLI.md)',
+        prompt: `Prompt name (from ## Prompts in CLI.md)${folderSuffix(root)}`,
         placeHolder: 'e.g. code-review',
       });
       if (!name) {
@@ -427,7 +1906,8 @@ export function activate(context: vscode.ExtensionContext): void {
         void vscode.window.showWarningMessage(`FWH CLI Agent: CLI.md is too large (${(content.length / 1e6).toFixed(1)}MB).`);
         return;
       }
-      const promptText = extractPromptFromPromptsSection(content, name);
+      const newest = listPromptRevisions(content, name)[0];
+      const promptText = newest?.text;
       if (!promptText) {
         output.appendLine(`[Cursor CLI] No populated prompt for "${name}" in CLI.md.`);
         void vscode.window.showWarningMessage(
@@ -441,22 +1921,89 @@ export function activate(context: vscode.ExtensionContext): void {
       output.appendLine('---');
       output.appendLine(`[Cursor CLI] Run prompt: ${name} (command)`);
       output.show();
-      const { mode, composerCommand } = getExecuteOptions(root);
-      if (mode === 'composer') {
-        await runInComposer(promptText, composerCommand, output);
-      } else {
-        await runWithAgentCli(promptText, root, output);
+      enqueuePromptRun({ promptName: name, promptText, workspaceRoot: root, source: 'command', revision: `CLI.md ${newest.label}` }, output);
+    })
+  );
+
+  // Source Control: run a prompts.md prompt on the repository's changes, or on the files selected there.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('fwhCliAgent.runPromptOnChanges', async (...args: unknown[]) => {
+      const { rootUri, files } = scmSelection(args);
+      const anchor = files[0] ?? rootUri;
+      const folder = anchor && vscode.workspace.getWorkspaceFolder(anchor);
+      const root = folder?.uri.fsPath ?? (await pickWorkspaceRoot('Workspace folder to run the prompt in'));
+      if (!root) return;
+      const gitPaths = files
+        .map((f) => f.fsPath)
+        .filter((p) => isUnderWorkspaceRoot(root, p))
+        .map((p) => path.relative(root, p).split(path.sep).join('/'));
+      if (files.length > 0 && gitPaths.length === 0) {
+        void vscode.window.showWarningMessage('FWH CLI Agent: The selected files are outside the workspace folder.');
+        return;
       }
+      const prompts = parsePromptsMd(promptsMdText(root));
+      if (prompts.length === 0) {
+        void vscode.window.showInformationMessage(`FWH CLI Agent: No prompts in prompts.md${folderSuffix(root)}.`);
+        return;
+      }
+      // Prompts written for git changes first; the sort is stable otherwise.
+      const items = prompts
+        .map((p) => ({ label: p.name, description: usesGitContext(p, prompts) ? 'uses git changes' : undefined, detail: p.description, prompt: p }))
+        .sort((a, b) => Number(!a.description) - Number(!b.description));
+      const scope = gitPaths.length > 0 ? `${gitPaths.length} selected file(s)` : 'all changes';
+      const picked = await vscode.window.showQuickPick(items, { placeHolder: `Prompt to run on ${scope}${folderSuffix(root)}`, matchOnDetail: true });
+      if (!picked) return;
+      const prompt = picked.prompt;
+      const scoped = gitPaths.length > 0 ? gitPaths : undefined;
+      output.appendLine(`[Cursor CLI] Run prompt on ${scope}: ${prompt.name}${folderSuffix(root)}`);
+      output.show();
+      if (isWorkflow(prompt)) {
+        const w = resolveWorkflowInputs(prompt, prompts, {});
+        if ('error' in w) showPromptForm(root, prompt, undefined, undefined, scoped);
+        else enqueueWorkflowRun({ workflow: prompt, inputs: w.inputs, workspaceRoot: root, source: 'Source Control', gitPaths: scoped }, output);
+        return;
+      }
+      const filled = resolvePromptArgs(prompt, {});
+      if ('error' in filled) {
+        showPromptForm(root, prompt, undefined, undefined, scoped);
+        return;
+      }
+      enqueuePromptRun(
+        { promptName: prompt.name, promptText: filled.text, workspaceRoot: root, prompt, source: 'Source Control', revision: 'prompts.md', gitPaths: scoped },
+        output
+      );
     })
   );
+
+  return {
+    registerCliCommand: (verb, handler) => {
+      const registration = commands.register(verb, handler);
+      output.appendLine(`[Cursor CLI] Registered \`\`\`cli verb: ${verb.trim().toLowerCase()}`);
+      _cliMdLanguage?.refresh();
+      return new vscode.Disposable(() => {
+        registration.dispose();
+        _cliMdLanguage?.refresh();
+      });
+    },
+    registerSecretDetector: (detector) => {
+      _secretDetectors.add(detector);
+      return new vscode.Disposable(() => _secretDetectors.delete(detector));
+    },
+  };
 }
 
 export function deactivate(): void {
   debug('Deactivating.');
+  _queue?.cancelAll();
+  _queue = undefined;
+  _commands = undefined;
+  for (const c of _fanOutChannels.values()) c.dispose();
+  _fanOutChannels.clear();
+  _secretDetectors.clear();
+  _lastFileEditor = undefined;
+  _heldBlocks.clear();
   _output = undefined;
-  _configCache = null;
-  _configWatcher?.dispose();
-  _configWatcher = undefined;
-  watcher?.dispose();
-  watcher = undefined;
+  _configCache.clear();
+  for (const w of _folderWatchers.values()) w.dispose();
+  _folderWatchers.clear();
 }
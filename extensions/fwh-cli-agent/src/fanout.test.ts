@@ -0,0 +1,145 @@
+/**
+ * Unit tests for fan-out runs: resolving CliAgent.FanOut groups, running variants and the merged report.
+ */
+
+import { strict as assert } from 'assert';
+import * as path from 'path';
+import { formatFanOutReport, resolveFanOutVariants, runFanOut } from './fanout';
+import type { FanOutVariant } from './fanout';
+import { agentCliCommandLine } from './executors';
+import { AgentExitError, ExecutorConfigError } from './errors';
+import type { JobStep } from './queue';
+import type { AgentCliResult } from './runner';
+import { appendResultEntry, countResultEntries, formatResultEntry } from './results';
+
+const root = path.resolve('/repo');
+const executors = {
+  llm: { CommandLine: 'llm -m {model} < {promptFile}', OutputFormat: 'markdown' as const },
+  echo: { CommandLine: 'cat {promptFile}' },
+};
+
+function result(output: string, exitCode = 0): AgentCliResult {
+  return { exitCode, output, startedAt: new Date(2026, 0, 1, 10, 0, 0), finishedAt: new Date(2026, 0, 1, 10, 0, 2) };
+}
+
+describe('fanout', () => {
+  describe('resolveFanOutVariants', () => {
+    it('resolves executors and models, naming variants by executor and model by default', () => {
+      const vs = resolveFanOutVariants(
+        'reviewers',
+        root,
+        { reviewers: [{ Model: 'sonnet' }, { Name: 'grok', Executor: 'llm', Model: 'grok-2' }, { Executor: 'echo' }] },
+        executors,
+        'composer.new',
+        'agent-cli',
+        'linux'
+      );
+      assert.deepStrictEqual(vs.map((v) => [v.name, v.executor.name, v.executor.model]), [
+        ['agent-cli (sonnet)', 'agent-cli', 'sonnet'],
+        ['grok', 'llm', 'grok-2'],
+        ['echo', 'echo', undefined],
+      ]);
+      assert.strictEqual(vs[0].executor.commandLine, agentCliCommandLine('linux', true));
+      assert.ok(vs[0].executor.commandLine.includes('--model {model}'));
+    });
+
+    it('rejects unknown groups, composer, models without {model} and duplicate names', () => {
+      const resolve = (fanOut: Parameters<typeof resolveFanOutVariants>[2], def = 'agent-cli') =>
+        resolveFanOutVariants('g', root, fanOut, executors, 'composer.new', def, 'linux');
+      assert.throws(() => resolve(undefined), /Unknown or empty fan-out group "g"\. Available: none/);
+      assert.throws(() => resolve({ g: [] }), ExecutorConfigError);
+      assert.throws(() => resolve({ g: [{}] }, 'composer'), /not captured/);
+      assert.throws(() => resolve({ g: [{ Executor: 'echo', Model: 'x' }] }), /no \{model\}/);
+      assert.throws(() => resolve({ g: [{ Name: 'a' }, { Name: 'a', Executor: 'echo' }] }), /two variants named "a"/);
+      assert.throws(() => resolve({ g: [{ Executor: 'nope' }] }), /Unknown executor "nope"/);
+    });
+  });
+
+  describe('runFanOut', () => {
+    const variants = (names: string[]): FanOutVariant[] =>
+      names.map((name) => ({ name, executor: { kind: 'command', name, commandLine: 'x', env: {}, cwd: root, outputFormat: 'text' } }));
+
+    it('runs every variant concurrently and keeps failures alongside successes', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const reports: string[][] = [];
+      const out = await runFanOut(
+        variants(['a', 'b', 'c']),
+        {
+          runVariant: async (v) => {
+            maxInFlight = Math.max(maxInFlight, ++inFlight);
+            await Promise.resolve();
+            inFlight--;
+            if (v.name === 'b') throw new AgentExitError(result('partial', 2), 'b');
+            return v.name === 'c' ? undefined : result(`from ${v.name}`);
+          },
+          report: (steps: readonly JobStep[]) => reports.push(steps.map((s) => `${s.id}:${s.status}`)),
+        },
+        new AbortController().signal
+      );
+      assert.strictEqual(maxInFlight, 3);
+      assert.deepStrictEqual(out.map((r) => [r.variant.name, r.status, r.result?.output]), [
+        ['a', 'succeeded', 'from a'],
+        ['b', 'failed', 'partial'],
+        ['c', 'succeeded', undefined],
+      ]);
+      assert.strictEqual(out[1].error, 'b exited with code 2');
+      assert.deepStrictEqual(reports[0], ['a:running', 'b:running', 'c:running']);
+      assert.deepStrictEqual(reports[reports.length - 1], ['a:succeeded', 'b:failed', 'c:succeeded']);
+    });
+
+    it('rejects with RunCancelledError when cancelled', async () => {
+      const controller = new AbortController();
+      const run = runFanOut(
+        variants(['a']),
+        {
+          runVariant: (_v, signal) =>
+            new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(new Error('killed')))),
+        },
+        controller.signal
+      );
+      controller.abort();
+      await assert.rejects(run, { name: 'RunCancelledError' });
+    });
+  });
+
+  describe('formatFanOutReport', () => {
+    it('attributes each section to its variant, executor and model', () => {
+      const group = { g: [{ Model: 'sonnet' }, { Name: 'grok', Executor: 'llm', Model: 'grok-2' }] };
+      const [a, b] = resolveFanOutVariants('g', root, group, executors, 'c', 'agent-cli', 'linux');
+      const text = formatFanOutReport(
+        'code-review',
+        'g',
+        [
+          { variant: a, status: 'succeeded', result: result('Looks good.\n') },
+          { variant: b, status: 'failed', result: result('```js\nx\n```', 1), error: 'llm exited with code 1' },
+        ],
+        new Date(2026, 0, 1, 10, 0, 0)
+      );
+      assert.ok(text.startsWith('# Fan-out: code-review\n\n**Group:** g\n**Executed:** 2026-01-01 10:00:00\n'));
+      assert.ok(text.includes('| agent-cli (sonnet) | agent-cli | sonnet | succeeded | 2.0s |'));
+      assert.ok(text.includes('#### agent-cli (sonnet)\n\n**Source:** agent-cli, model sonnet\n**Status:** succeeded\n\n```\nLooks good.\n```'));
+      assert.ok(
+        text.includes('#### grok\n\n**Source:** llm, model grok-2\n**Status:** failed (llm exited with code 1)\n\n````markdown\n```js\nx\n```\n````')
+      );
+    });
+
+    it('notes variants without output', () => {
+      const [a] = resolveFanOutVariants('g', root, { g: [{ Executor: 'echo' }] }, executors, 'c', 'agent-cli', 'linux');
+      const text = formatFanOutReport('p', 'g', [{ variant: a, status: 'timedOut', error: 'Run timed out after 5s' }], new Date());
+      assert.ok(text.includes('| echo | echo | - | timedOut | - |'));
+      assert.ok(text.includes('**Status:** timedOut (Run timed out after 5s)\n\n_No output._'));
+    });
+
+    it('keeps later ## Results entries outside the recorded report', () => {
+      const [a] = resolveFanOutVariants('g', root, { g: [{ Executor: 'echo' }] }, executors, 'c', 'agent-cli', 'linux');
+      const report = formatFanOutReport('p', 'g', [{ variant: a, status: 'succeeded', result: result('## Summary\n```\nok\n```') }], new Date());
+      const entry = (output: string) =>
+        formatResultEntry({ command: 'prompt p', exitCode: 0, output, startedAt: new Date(), finishedAt: new Date(), outputFormat: 'markdown' });
+      const text = appendResultEntry(appendResultEntry('## Results\n', entry(report)), entry('next'));
+      assert.strictEqual(countResultEntries(text), 2);
+      assert.ok(!/^## /m.test(report.replace('## Summary', '')));
+      assert.ok(text.endsWith('```markdown\nnext\n```\n'));
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Fan-out runs: one prompt sent concurrently to the variants of a cli-agent.json CliAgent.FanOut group (executor
+ * and optional model each), merged into one report that names the source of every section. No vscode dependency.
+ * A prompt opts in with `<!-- fwh: fanout=<group> -->`.
+ */
+
+import { AGENT_CLI_EXECUTOR, agentCliCommandLine, resolveExecutor } from './executors';
+import type { CommandExecutor, ExecutorConfig } from './executors';
+import { AgentExitError, ExecutorConfigError, RunCancelledError, RunTimeoutError } from './errors';
+import { failureStatus } from './queue';
+import type { JobProgressFn, JobStatus, JobStep } from './queue';
+import { fenceFor, formatDuration, formatTimestamp } from './results';
+import type { AgentCliResult } from './runner';
+
+/** One entry of a cli-agent.json CliAgent.FanOut group. */
+export interface FanOutVariantConfig {
+  /** Shown in the Run Queue, the output channel and the report (default: executor, plus the model in parentheses). */
+  Name?: string;
+  /** A command executor (agent-cli or an Executors entry); default: the prompt's executor or ExecuteMode. */
+  Executor?: string;
+  /** Inserted for `{model}` in the executor's CommandLine; the built-in agent-cli gets `--model {model}`. */
+  Model?: string;
+}
+
+export interface FanOutVariant {
+  name: string;
+  executor: CommandExecutor;
+}
+
+/**
+ * Resolves the variants of a fan-out group. Throws ExecutorConfigError when the group is missing or empty, a
+ * variant uses composer (its reply is not captured) or an invalid executor, a Model is given for a CommandLine
+ * without `{model}`, or two variants share a name.
+ */
+export function resolveFanOutVariants(
+  group: string,
+  workspaceRoot: string,
+  fanOut: Record<string, FanOutVariantConfig[]> | undefined,
+  executors: Record<string, ExecutorConfig> | undefined,
+  composerCommand: string,
+  defaultExecutor: string,
+  platform: NodeJS.Platform = process.platform
+): FanOutVariant[] {
+  const configs = fanOut && Object.prototype.hasOwnProperty.call(fanOut, group) ? fanOut[group] : undefined;
+  if (!Array.isArray(configs) || configs.length === 0) {
+    const known = Object.keys(fanOut ?? {}).join(', ') || 'none';
+    throw new ExecutorConfigError(`Unknown or empty fan-out group "${group}". Available: ${known}.`);
+  }
+  const variants: FanOutVariant[] = [];
+  for (const cfg of configs) {
+    const executorName = cfg.Executor?.trim() || defaultExecutor;
+    const model = cfg.Model?.trim() || undefined;
+    const name = cfg.Name?.trim() || (model ? `${executorName} (${model})` : executorName);
+    if (variants.some((v) => v.name === name)) throw new ExecutorConfigError(`Fan-out group "${group}" has two variants named "${name}".`);
+    const executor = resolveExecutor(executorName, workspaceRoot, executors, composerCommand, platform);
+    if (executor.kind !== 'command') {
+      throw new ExecutorConfigError(`Fan-out variant "${name}" uses ${executorName}, whose reply is not captured; use a command executor.`);
+    }
+    if (model) {
+      const builtIn = executorName === AGENT_CLI_EXECUTOR && !Object.prototype.hasOwnProperty.call(executors ?? {}, AGENT_CLI_EXECUTOR);
+      if (builtIn) executor.commandLine = agentCliCommandLine(platform, true);
+      else if (!executor.commandLine.includes('{model}')) {
+        throw new ExecutorConfigError(`Fan-out variant "${name}" sets Model but executor "${executorName}" has no {model} in its CommandLine.`);
+      }
+      executor.model = model;
+    }
+    variants.push({ name, executor });
+  }
+  return variants;
+}
+
+export interface FanOutResult {
+  variant: FanOutVariant;
+  status: JobStatus;
+  /** Captured output; for failed or timed-out runs, what was captured before they stopped. */
+  result?: AgentCliResult;
+  error?: string;
+}
+
+export interface FanOutRunDeps {
+  /** Runs the prompt with one variant's executor; undefined is recorded as empty output. */
+  runVariant: (variant: FanOutVariant, signal: AbortSignal) => Promise<AgentCliResult | undefined>;
+  log?: (line: string) => void;
+  report?: JobProgressFn;
+}
+
+/**
+ * Starts every variant at once and waits for all of them. A failing variant does not stop the others; its status
+ * and captured output are kept in the results (in variant order). Rejects with RunCancelledError when cancelled.
+ */
+export async function runFanOut(variants: readonly FanOutVariant[], deps: FanOutRunDeps, signal: AbortSignal): Promise<FanOutResult[]> {
+  if (signal.aborted) throw new RunCancelledError();
+  const progress: JobStep[] = variants.map((v) => ({ id: v.name, label: v.name, status: 'running' }));
+  deps.report?.(progress);
+  const results = await Promise.all(
+    variants.map(async (variant, i): Promise<FanOutResult> => {
+      let r: FanOutResult;
+      try {
+        const result = await deps.runVariant(variant, signal);
+        r = { variant, status: 'succeeded', result };
+      } catch (e) {
+        const captured = e instanceof AgentExitError || e instanceof RunTimeoutError ? e.result : undefined;
+        r = { variant, status: failureStatus(e, signal), result: captured, error: e instanceof Error ? e.message : String(e) };
+      }
+      progress[i].status = r.status;
+      deps.report?.(progress);
+      deps.log?.(`[Cursor CLI] Fan-out variant ${variant.name}: ${r.status}${r.error ? ` (${r.error})` : ''}`);
+      return r;
+    })
+  );
+  if (signal.aborted) throw new RunCancelledError();
+  return results;
+}
+
+/**
+ * Merged fan-out report: a summary table, then one `#### <variant>` section per variant with its executor, model,
+ * status and captured output, so every part of the report names its source. The report is recorded under
+ * ## Results, so it has no `## ` headings of its own.
+ */
+export function formatFanOutReport(promptName: string, group: string, results: readonly FanOutResult[], startedAt: Date): string {
+  const lines = [
+    `# Fan-out: ${promptName}`,
+    '',
+    `**Group:** ${group}`,
+    `**Executed:** ${formatTimestamp(startedAt)}`,
+    '',
+    '| Variant | Executor | Model | Status | Duration |',
+    '|---------|----------|-------|--------|----------|',
+  ];
+  const duration = (r: FanOutResult) => (r.result ? formatDuration(r.result.finishedAt.getTime() - r.result.startedAt.getTime()) : '-');
+  const cell = (s: string) => s.replace(/\|/g, '\\|');
+  for (const r of results) {
+    const e = r.variant.executor;
+    lines.push(`| ${cell(r.variant.name)} | ${cell(e.name)} | ${cell(e.model ?? '-')} | ${r.status} | ${duration(r)} |`);
+  }
+  for (const r of results) {
+    const body = (r.result?.output ?? '').replace(/\r\n/g, '\n').replace(/\s+$/, '');
+    const fence = fenceFor(body);
+    const info = r.variant.executor.outputFormat !== 'text' ? r.variant.executor.outputFormat : '';
+    lines.push(
+      '',
+      `#### ${r.variant.name}`,
+      '',
+      `**Source:** ${r.variant.executor.name}${r.variant.executor.model ? `, model ${r.variant.executor.model}` : ''}`,
+      `**Status:** ${r.status}${r.error ? ` (${r.error})` : ''}`,
+      '',
+      body ? `${fence}${info}\n${body}\n${fence}` : '_No output._'
+    );
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,230 @@
+/**
+ * Tests for the fwh-prompts CLI against a temporary workspace folder. Runs use an `echo` command executor
+ * (`cat {promptFile}`), so the agent output is the prompt it received.
+ */
+
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { runFwhPrompts } from './fwhPrompts';
+import { readHistory, historyFilePath } from './history';
+import { countResultEntries } from './results';
+
+const PROMPTS_MD = [
+  '## shared-context',
+  'Team rules.',
+  '---',
+  '## review',
+  'Review {Code} in {Lang}.',
+  '### Parameters',
+  '| Parameter | Description | Required | Default |',
+  '| Code | code | Yes | |',
+  '| Lang | language | No | C# |',
+  '---',
+  '## plain',
+  '<!-- fwh: shared-context=no -->',
+  'Just run.',
+].join('\n');
+
+describe('fwh-prompts', () => {
+  let tmp: string;
+  let out: string;
+  let err: string;
+
+  const cli = (...argv: string[]) => {
+    out = '';
+    err = '';
+    return runFwhPrompts(argv, {
+      cwd: tmp,
+      stdout: (s) => (out += s),
+      stderr: (s) => (err += s),
+      spawn,
+      signal: new AbortController().signal,
+    });
+  };
+
+  const writeConfig = (cliAgent: object) => fs.writeFileSync(path.join(tmp, 'cli-agent.json'), JSON.stringify({ CliAgent: cliAgent }));
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-prompts-'));
+    fs.mkdirSync(path.join(tmp, 'docs'));
+    fs.writeFileSync(path.join(tmp, 'docs', 'prompts.md'), PROMPTS_MD);
+    writeConfig({ PromptsMdPath: 'docs/prompts.md', ExecuteMode: 'echo', Executors: { echo: { CommandLine: 'cat {promptFile}' } } });
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
+  });
+
+  describe('list / show', () => {
+    it('lists prompts from the cli-agent.json PromptsMdPath', async () => {
+      assert.strictEqual(await cli('list', '--json'), 0);
+      assert.deepStrictEqual(
+        JSON.parse(out).map((p: { name: string; parameters: string[] }) => [p.name, p.parameters]),
+        [['review', ['Code', 'Lang']], ['plain', []]]
+      );
+      assert.strictEqual(await cli('list'), 0);
+      assert.ok(out.startsWith('- `review` (prompts.md)'));
+    });
+
+    it('uses --prompts-md only when cli-agent.json sets no PromptsMdPath', async () => {
+      fs.writeFileSync(path.join(tmp, 'other.md'), '## other\nOther.');
+      assert.strictEqual(await cli('list', '--json', '--prompts-md', 'other.md'), 0);
+      assert.deepStrictEqual(JSON.parse(out).map((p: { name: string }) => p.name), ['review', 'plain']);
+      writeConfig({});
+      assert.strictEqual(await cli('list', '--json', '--prompts-md', 'other.md'), 0);
+      assert.deepStrictEqual(JSON.parse(out).map((p: { name: string }) => p.name), ['other']);
+    });
+
+    it('shows parameters and template, and fails for unknown prompts', async () => {
+      assert.strictEqual(await cli('show', 'review'), 0);
+      assert.ok(out.includes('  Code (text, required) – code'));
+      assert.ok(out.includes('Template:\n\nReview {Code} in {Lang}.'));
+      assert.strictEqual(await cli('show', 'nope', '--json'), 1);
+      assert.deepStrictEqual(JSON.parse(out), { error: "Prompt 'nope' not found in prompts.md or CLI.md ## Prompts" });
+    });
+  });
+
+  describe('render', () => {
+    it('fills parameters and prepends shared context unless the prompt opts out', async () => {
+      assert.strictEqual(await cli('render', 'review', '--param', 'Code=a.cs'), 0);
+      assert.strictEqual(out, 'Team rules.\n\n---\n\nReview a.cs in C#.\n');
+      assert.strictEqual(await cli('render', 'plain', '--json'), 0);
+      assert.deepStrictEqual(JSON.parse(out), { name: 'plain', revision: 'prompts.md', text: 'Just run.' });
+    });
+
+    it('expands workspace context placeholders and notes what it could not insert', async () => {
+      fs.writeFileSync(path.join(tmp, 'docs', 'a.cs'), 'class A {}\n');
+      fs.appendFileSync(path.join(tmp, 'docs', 'prompts.md'), '\n---\n## explain\nExplain {file:{Path}} {selection}, see {Notes}.\n');
+      assert.strictEqual(await cli('render', 'explain', '--param', 'Path=docs/a.cs', '--param', 'Notes={env:HOME}'), 0);
+      assert.strictEqual(out, 'Team rules.\n\n---\n\nExplain File: docs/a.cs\n```cs\nclass A {}\n``` [fwh: no active editor for {selection}], see {env:HOME}.\n');
+      assert.strictEqual(err, '[Cursor CLI] Prompt explain: no active editor for {selection}\n');
+    });
+
+    it('reports missing parameters and usage errors', async () => {
+      assert.strictEqual(await cli('render', 'review'), 1);
+      assert.strictEqual(err, "fwh-prompts: Required parameters missing for prompt 'review': Code\n");
+      assert.strictEqual(await cli('render', 'review', '--param', 'Code'), 2);
+      assert.ok(err.startsWith('--param must be Key=Value: Code\n\nUsage: fwh-prompts'));
+      assert.strictEqual(await cli('frobnicate'), 2);
+      assert.strictEqual(await cli('--bogus'), 2);
+    });
+  });
+
+  describe('run', () => {
+    it('streams the agent output and records the run in the prompt history', async () => {
+      assert.strictEqual(await cli('run', 'review', '--param', 'Code=a.cs'), 0);
+      assert.strictEqual(out, 'Team rules.\n\n---\n\nReview a.cs in C#.');
+      assert.ok(err.includes('[Cursor CLI] Running echo...'));
+      const [entry] = readHistory(historyFilePath(tmp));
+      assert.strictEqual(entry.promptText, 'Review a.cs in C#.');
+      assert.strictEqual(entry.source, 'fwh-prompts');
+      assert.deepStrictEqual(entry.parameters, { Code: 'a.cs' });
+    });
+
+    it('exits with the agent exit code and rejects composer', async () => {
+      writeConfig({ PromptsMdPath: 'docs/prompts.md', Executors: { fail: { CommandLine: 'exit 3' } } });
+      assert.strictEqual(await cli('run', 'plain', '--executor', 'fail', '--json'), 3);
+      assert.strictEqual(JSON.parse(out).status, 'failed');
+      assert.strictEqual(await cli('run', 'plain'), 1);
+      assert.ok(err.includes("Executor 'composer' needs the editor"));
+    });
+
+    it('refuses prompts with possible secrets unless --secrets redact, and never logs or records them', async () => {
+      fs.writeFileSync(path.join(tmp, '.env'), 'DB_PASSWORD=hunter2-prod\n');
+      assert.strictEqual(await cli('run', 'review', '--param', 'Code=pw hunter2-prod'), 1);
+      assert.strictEqual(out, '');
+      assert.ok(err.includes('line 5, column 11: .env value DB_PASSWORD (12 characters)'));
+      assert.ok(err.includes('not sent (pass --secrets redact'));
+      assert.ok(!err.includes('hunter2-prod'));
+      assert.deepStrictEqual(readHistory(historyFilePath(tmp)), []);
+
+      assert.strictEqual(await cli('run', 'review', '--param', 'Code=pw hunter2-prod', '--secrets', 'redact'), 0);
+      assert.strictEqual(out, 'Team rules.\n\n---\n\nReview pw [REDACTED: .env value DB_PASSWORD] in C#.');
+      assert.ok(!JSON.stringify(readHistory(historyFilePath(tmp))[0]).includes('hunter2-prod'));
+      assert.strictEqual(await cli('run', 'plain', '--secrets', 'ask'), 2);
+    });
+  });
+
+  describe('process', () => {
+    it('runs blocks outside ## Usage, records results and leaves unknown verbs', async () => {
+      const cliMd = path.join(tmp, 'CLI.md');
+      fs.writeFileSync(
+        cliMd,
+        [
+          '# CLI',
+          '## Usage',
+          '```cli',
+          'prompt plain',
+          '```',
+          '## Commands',
+          '```cli',
+          'prompt review Code=b.cs',
+          '```',
+          '```cli',
+          'deploy now',
+          '```',
+          '```cli',
+          'prompt review Bogus=1',
+          '```',
+          '```cli',
+          'list',
+          '```',
+        ].join('\n')
+      );
+      assert.strictEqual(await cli('process', '--json'), 1);
+      assert.deepStrictEqual(
+        JSON.parse(out).map((b: { command: string; status: string }) => [b.command, b.status]),
+        [
+          ['prompt review Code=b.cs', 'succeeded'],
+          ['deploy now', 'skipped'],
+          ['prompt review Bogus=1', 'invalid command'],
+          ['list', 'succeeded'],
+        ]
+      );
+      const text = fs.readFileSync(cliMd, 'utf8');
+      assert.ok(text.includes('```cli\nprompt plain\n```'));
+      assert.ok(text.includes('```cli\ndeploy now\n```'));
+      assert.ok(!text.includes('prompt review Code=b.cs\n```'));
+      assert.ok(!text.includes('```cli\nlist'));
+      assert.ok(text.includes('### Command: `prompt review`\n**Prompt:** review\n**Executor:** echo'));
+      assert.ok(text.includes('Review b.cs in C#.'));
+      assert.ok(text.includes("Unknown parameter for prompt 'review': Bogus"));
+    });
+
+    it('leaves ```cli blocks in ## Results and in other fences alone', async () => {
+      const cliMd = path.join(tmp, 'CLI.md');
+      const recorded = ['## Results', '### Command: `prompt plain`', '', '````', 'Run this:', '```cli', 'list', '```', '## Next', '````', ''];
+      const quoted = ['## Notes', '~~~markdown', '```cli', 'list', '```', '~~~', ''];
+      fs.writeFileSync(cliMd, ['# CLI', ...quoted, '## Commands', '```cli', 'list', '```', '', ...recorded].join('\n'));
+      assert.strictEqual(await cli('process', '--json'), 0);
+      assert.deepStrictEqual(JSON.parse(out).map((b: { command: string }) => b.command), ['list']);
+      const text = fs.readFileSync(cliMd, 'utf8');
+      assert.ok(text.startsWith(['# CLI', ...quoted, '## Commands', '', '', ...recorded].join('\n')));
+      assert.strictEqual(countResultEntries(text), 2);
+      assert.strictEqual(await cli('process', '--json'), 0);
+      assert.deepStrictEqual(JSON.parse(out), []);
+    });
+
+    it('fails blocks that cannot run, but leaves composer prompts for the editor', async () => {
+      const cliMd = path.join(tmp, 'CLI.md');
+      fs.writeFileSync(path.join(tmp, '.env'), 'DB_PASSWORD=hunter2-prod\n');
+      fs.writeFileSync(cliMd, '# CLI\n```cli\nprompt review Code=hunter2-prod\n```\n');
+      assert.strictEqual(await cli('process', '--json'), 1);
+      assert.deepStrictEqual(JSON.parse(out).map((b: { status: string }) => b.status), ['failed']);
+      assert.ok(JSON.parse(out)[0].message.includes('may contain secrets'));
+      assert.ok(fs.readFileSync(cliMd, 'utf8').includes('prompt review Code=hunter2-prod'));
+
+      writeConfig({ PromptsMdPath: 'docs/prompts.md', ExecuteMode: 'missing' });
+      fs.writeFileSync(cliMd, '# CLI\n```cli\nprompt plain\n```\n');
+      assert.strictEqual(await cli('process', '--json'), 1);
+      assert.deepStrictEqual(JSON.parse(out).map((b: { status: string }) => b.status), ['failed']);
+
+      writeConfig({ PromptsMdPath: 'docs/prompts.md' });
+      assert.strictEqual(await cli('process', '--json'), 0);
+      assert.deepStrictEqual(JSON.parse(out).map((b: { status: string }) => b.status), ['skipped']);
+    });
+  });
+});
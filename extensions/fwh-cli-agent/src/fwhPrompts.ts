@@ -0,0 +1,573 @@
+#!/usr/bin/env node
+/**
+ * fwh-prompts: prompts.md and CLI.md from a shell (CI jobs, bash users) without the editor. Resolves paths and
+ * executors from cli-agent.json exactly like the extension; --cli-md/--prompts-md stand in for the
+ * fwhCliAgent.cliMdPath/promptsMdPath settings. No vscode dependency.
+ *
+ *   fwh-prompts list | show <name> | render <name> [--param K=V ...] | run <name> [--param K=V ...] [--executor <name>]
+ *   fwh-prompts process | watch
+ *
+ * Prompts are checked for secrets before they run (there is no one to ask): by default a run with findings fails,
+ * --secrets redact sends the prompt with them redacted.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { parseArgs } from 'util';
+import {
+  applySharedContext,
+  findCliBlock,
+  isInertCliBlock,
+  isPromptCommand,
+  metadataFlag,
+  parseCliBlocks,
+  parsePromptsMd,
+  removeCliBlock,
+  SHARED_CONTEXT_SECTION,
+} from './parser';
+import type { ParsedBlock, ParsedPrompt } from './parser';
+import { resolveCliMdPath, resolveContextMaxChars, resolveExecuteOptions, resolvePromptsMdPath, resolveRunTimeoutMs } from './resolver';
+import { loadSecretScanner, readCliAgentConfig, readSharedContext } from './workspaceConfig';
+import type { CliAgentConfig } from './workspaceConfig';
+import { expandContextPlaceholders, nodeContextSources } from './workspaceContext';
+import { loadPromptList } from './promptList';
+import type { PromptListItem } from './promptList';
+import { resolvePromptCommand } from './promptCommand';
+import { CliCommandRegistry, formatHelp, formatPromptList, parseCliCommand, PROMPT_VERB } from './commands';
+import type { CliPromptSummary } from './commands';
+import { resolveExecutor } from './executors';
+import type { CommandExecutor } from './executors';
+import { runCommandExecutor } from './runner';
+import type { AgentCliResult, RunWithAgentCliDeps } from './runner';
+import { appendResultEntry, formatResultEntry } from './results';
+import type { RunResultEntry } from './results';
+import { archiveCliFile, autoArchiveReason } from './archive';
+import { appendHistoryEntry, historyFilePath, newHistoryId } from './history';
+import type { HistoryStatus } from './history';
+import { failureStatus } from './queue';
+import { describeSecretFindings, redactSecrets } from './secrets';
+import { AgentExitError, CliCommandError, RunCancelledError, RunTimeoutError, SecretsFoundError, UsageError } from './errors';
+
+export const USAGE = [
+  'Usage: fwh-prompts <command> [options]',
+  '',
+  'Commands:',
+  '  list                       prompts from prompts.md and CLI.md ## Prompts',
+  '  show <name>                a prompt: parameters, metadata, template and CLI.md revisions',
+  '  render <name>              the prompt text run would send (shared and workspace context included)',
+  '  run <name>                 run a prompt with a command executor; output goes to stdout',
+  '  process                    one pass over the ```cli blocks of CLI.md',
+  '  watch                      process, then again whenever CLI.md changes (Ctrl+C stops)',
+  '',
+  'Options:',
+  '  --root <dir>               workspace folder (default: current directory)',
+  '  --param K=V                parameter value for render/run (repeatable)',
+  '  --executor <name>          executor for run (default: prompt metadata, then ExecuteMode)',
+  '  --secrets <abort|redact>   prompts with possible secrets: fail (default) or send them redacted',
+  '  --cli-md <path>            CLI.md when cli-agent.json has no CliMdPath',
+  '  --prompts-md <path>        prompts.md when cli-agent.json has no PromptsMdPath',
+  '  --json                     machine-readable output',
+  '  -h, --help                 this help',
+].join('\n');
+
+/** Process boundary of runFwhPrompts; injected by tests. */
+export interface FwhPromptsIo {
+  cwd: string;
+  stdout: (s: string) => void;
+  /** Progress lines (`[Cursor CLI] ...`) and errors. */
+  stderr: (s: string) => void;
+  spawn: RunWithAgentCliDeps['spawn'];
+  /** Aborting cancels a run or ends watch (SIGINT). */
+  signal: AbortSignal;
+}
+
+interface FwhPromptsOptions {
+  root?: string;
+  json?: boolean;
+  param?: string[];
+  executor?: string;
+  secrets?: string;
+  'cli-md'?: string;
+  'prompts-md'?: string;
+  help?: boolean;
+}
+
+/** What to do with a prompt that may contain secrets: fail the run or send the prompt redacted. */
+type SecretsMode = 'abort' | 'redact';
+
+/** A workspace folder with its cli-agent.json settings and resolved file paths. */
+interface Workspace {
+  root: string;
+  config: CliAgentConfig | undefined;
+  cliMdPath: string;
+  promptsMdPath: string;
+}
+
+/** Outcome of one ```cli block in a process pass. */
+export interface ProcessedBlock {
+  command: string;
+  /** succeeded, failed, timed out, invalid command, skipped (left for the extension) or cancelled. */
+  status: string;
+  /** Why the block was skipped or failed. */
+  message?: string;
+}
+
+function readText(fsPath: string): string | undefined {
+  try {
+    return fs.readFileSync(fsPath, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+function openWorkspace(opts: FwhPromptsOptions, io: FwhPromptsIo): Workspace {
+  const root = path.resolve(io.cwd, opts.root ?? '.');
+  if (!fs.existsSync(root)) throw new UsageError(`Workspace folder not found: ${root}`);
+  const config = readCliAgentConfig(root);
+  return {
+    root,
+    config,
+    cliMdPath: resolveCliMdPath(root, config?.CliMdPath, opts['cli-md']),
+    promptsMdPath: resolvePromptsMdPath(root, config?.PromptsMdPath, opts['prompts-md']),
+  };
+}
+
+function readPrompts(ws: Workspace): ParsedPrompt[] {
+  const text = readText(ws.promptsMdPath);
+  return text === undefined ? [] : parsePromptsMd(text);
+}
+
+/** `--param K=V` values; undefined when none were given (so CLI.md revisions still win, as in ```cli blocks). */
+function parseParams(params: string[] | undefined): Record<string, string> | undefined {
+  if (!params?.length) return undefined;
+  const args: Record<string, string> = {};
+  for (const p of params) {
+    const eq = p.indexOf('=');
+    if (eq <= 0) throw new UsageError(`--param must be Key=Value: ${p}`);
+    args[p.slice(0, eq)] = p.slice(eq + 1);
+  }
+  return args;
+}
+
+function promptSummaries(items: PromptListItem[]): CliPromptSummary[] {
+  return items.map((i) => ({ name: i.name, description: i.prompt?.description, fromPromptsMd: !!i.prompt, revisions: i.revisions.length }));
+}
+
+function writeJson(io: FwhPromptsIo, value: unknown): void {
+  io.stdout(JSON.stringify(value, null, 2) + '\n');
+}
+
+function list(ws: Workspace, opts: FwhPromptsOptions, io: FwhPromptsIo): number {
+  const items = loadPromptList(ws.promptsMdPath, ws.cliMdPath);
+  if (opts.json) {
+    writeJson(
+      io,
+      items.map((i) => ({
+        name: i.name,
+        description: i.prompt?.description ?? '',
+        fromPromptsMd: !!i.prompt,
+        workflow: !!i.prompt?.steps,
+        parameters: i.prompt?.parameters.map((p) => p.name) ?? [],
+        revisions: i.revisions.map((r) => r.label),
+      }))
+    );
+  } else {
+    io.stdout(formatPromptList(promptSummaries(items)) + '\n');
+  }
+  return 0;
+}
+
+function show(ws: Workspace, name: string, opts: FwhPromptsOptions, io: FwhPromptsIo): number {
+  const item = loadPromptList(ws.promptsMdPath, ws.cliMdPath).find((i) => i.name === name);
+  if (!item) throw new CliCommandError(`Prompt '${name}' not found in prompts.md or CLI.md ## Prompts`);
+  if (opts.json) {
+    writeJson(io, { name: item.name, prompt: item.prompt ?? null, revisions: item.revisions });
+    return 0;
+  }
+  const p = item.prompt;
+  const lines = [`# ${item.name}`];
+  if (p?.description) lines.push('', p.description);
+  for (const [key, value] of Object.entries(p?.metadata ?? {})) lines.push(`${key}: ${value}`);
+  if (p?.parameters.length) {
+    lines.push('', 'Parameters:');
+    for (const param of p.parameters) {
+      const flags = [param.type, param.required ? 'required' : '', param.default ? `default: ${param.default}` : ''].filter(Boolean).join(', ');
+      lines.push(`  ${param.name} (${flags})${param.description ? ` – ${param.description}` : ''}`);
+    }
+  }
+  if (p?.steps) {
+    lines.push('', 'Steps:');
+    for (const s of p.steps) lines.push(`  ${s.id}: ${s.prompt} (${s.mode})`);
+  } else if (p) {
+    lines.push('', 'Template:', '', p.template);
+  }
+  if (item.revisions.length) {
+    lines.push('', 'CLI.md revisions (newest first):');
+    for (const r of item.revisions) lines.push(`  ${r.label}`);
+  }
+  io.stdout(lines.join('\n') + '\n');
+  return 0;
+}
+
+/**
+ * The prompt `prompt <name> K=V ...` would run, with shared context applied unless the prompt opts out and
+ * workspace context placeholders expanded (no editor: {activeFile} and {selection} leave a marker). Notes about
+ * context that was cut or not found go to stderr.
+ */
+async function resolveRun(ws: Workspace, name: string, args: Record<string, string> | undefined, io: FwhPromptsIo) {
+  const prompts = readPrompts(ws);
+  const resolved = resolvePromptCommand(readText(ws.cliMdPath) ?? '', { name, args }, prompts);
+  if (!resolved) throw new CliCommandError(`Prompt '${name}' not found in prompts.md or CLI.md ## Prompts`);
+  if ('workflow' in resolved) throw new CliCommandError(`Prompt '${name}' is a workflow; workflows run in the editor`);
+  const def = resolved.def ?? prompts.find((p) => p.name === name);
+  const text =
+    metadataFlag(def?.metadata, SHARED_CONTEXT_SECTION) === false
+      ? resolved.text
+      : applySharedContext(resolved.text, readSharedContext(ws.root, ws.config, ws.promptsMdPath, readText));
+  const expanded = await expandContextPlaceholders(text, nodeContextSources(ws.root), resolveContextMaxChars(ws.config?.ContextMaxChars));
+  for (const note of expanded.notes) io.stderr(`[Cursor CLI] Prompt ${name}: ${note}\n`);
+  return { promptText: resolved.text, text: expanded.text, def, revision: resolved.revision };
+}
+
+async function render(ws: Workspace, name: string, opts: FwhPromptsOptions, io: FwhPromptsIo): Promise<number> {
+  const r = await resolveRun(ws, name, parseParams(opts.param), io);
+  if (opts.json) writeJson(io, { name, revision: r.revision, text: r.text });
+  else io.stdout(r.text.replace(/\s*$/, '\n'));
+  return 0;
+}
+
+/**
+ * Command executor for a run: explicit name, else the prompt's executor metadata, else ExecuteMode. Composer and
+ * fan-out groups need the editor.
+ */
+function commandExecutor(ws: Workspace, def: ParsedPrompt | undefined, explicit: string | undefined): CommandExecutor {
+  const fanOut = def?.metadata['fanout']?.trim();
+  if (!explicit && fanOut) throw new CliCommandError(`Prompt '${def?.name}' fans out to group '${fanOut}'; pass --executor or run it in the editor`);
+  const { mode, composerCommand } = resolveExecuteOptions(ws.config?.ExecuteMode, ws.config?.ComposerCommand);
+  const name = explicit?.trim() || def?.metadata['executor']?.trim() || mode;
+  const executor = resolveExecutor(name, ws.root, ws.config?.Executors, composerCommand);
+  if (executor.kind !== 'command') throw new CliCommandError(`Executor '${name}' needs the editor; pass --executor agent-cli or another command executor`);
+  return executor;
+}
+
+interface PromptRunOutcome {
+  executor: CommandExecutor;
+  status: HistoryStatus;
+  result: AgentCliResult;
+  error?: unknown;
+}
+
+/**
+ * Runs a prompt and records it in the folder's prompt history (shown by the extension's Prompt History view).
+ * Possible secrets are listed on stderr without their values; the run then throws SecretsFoundError, or with
+ * secrets 'redact' sends the prompt redacted. The history keeps the prompt redacted either way.
+ */
+async function runPrompt(
+  ws: Workspace,
+  name: string,
+  args: Record<string, string> | undefined,
+  explicitExecutor: string | undefined,
+  secrets: SecretsMode,
+  source: string,
+  io: FwhPromptsIo,
+  stream: boolean
+): Promise<PromptRunOutcome> {
+  const r = await resolveRun(ws, name, args, io);
+  const executor = commandExecutor(ws, r.def, explicitExecutor);
+  const scan = loadSecretScanner(ws.root, ws.config);
+  const findings = scan(r.text);
+  if (findings.length > 0) {
+    io.stderr(`[Cursor CLI] Prompt ${name} may contain secrets (${findings.length}):\n`);
+    for (const line of describeSecretFindings(r.text, findings)) io.stderr(`[Cursor CLI]   ${line}\n`);
+    if (secrets !== 'redact') throw new SecretsFoundError(`Prompt '${name}' may contain secrets; not sent (pass --secrets redact to send it redacted)`);
+    io.stderr(`[Cursor CLI] Prompt ${name}: ${findings.length} possible secret(s) redacted.\n`);
+  }
+  const text = redactSecrets(r.text, findings);
+  const promptText = redactSecrets(r.promptText, scan(r.promptText));
+  const timeoutMs = resolveRunTimeoutMs(r.def?.metadata['timeout'], ws.config?.RunTimeoutSeconds, ws.config?.AgentTimeoutMinutes);
+  const output = {
+    append: (s: string) => (stream ? io.stdout(s) : undefined),
+    appendLine: (s: string) => io.stderr(s + '\n'),
+  };
+  const startedAt = new Date();
+  let outcome: PromptRunOutcome;
+  try {
+    const result = await runCommandExecutor({ spawn: io.spawn }, executor, text, ws.root, output, { signal: io.signal, timeoutMs });
+    outcome = { executor, status: 'succeeded', result };
+  } catch (e) {
+    if (!(e instanceof RunTimeoutError || e instanceof AgentExitError)) throw e;
+    outcome = { executor, status: failureStatus(e, io.signal), result: e.result, error: e };
+  }
+  try {
+    appendHistoryEntry(historyFilePath(ws.root), {
+      id: newHistoryId(startedAt),
+      promptName: name,
+      revision: r.revision,
+      source,
+      promptText,
+      ...(args ? { parameters: Object.fromEntries(Object.entries(args).map(([k, v]) => [k, redactSecrets(v, scan(v))])) } : {}),
+      executor: executor.name,
+      startedAt: outcome.result.startedAt.toISOString(),
+      finishedAt: outcome.result.finishedAt.toISOString(),
+      exitCode: outcome.result.exitCode,
+      status: outcome.status,
+      output: outcome.result.output,
+    });
+  } catch (e) {
+    io.stderr(`[Cursor CLI] Could not record prompt history: ${e instanceof Error ? e.message : String(e)}\n`);
+  }
+  return outcome;
+}
+
+async function run(ws: Workspace, name: string, opts: FwhPromptsOptions, io: FwhPromptsIo): Promise<number> {
+  const o = await runPrompt(ws, name, parseParams(opts.param), opts.executor, secretsMode(opts), 'fwh-prompts', io, !opts.json);
+  if (opts.json) {
+    writeJson(io, {
+      name,
+      executor: o.executor.name,
+      status: o.status,
+      exitCode: o.result.exitCode,
+      startedAt: o.result.startedAt.toISOString(),
+      finishedAt: o.result.finishedAt.toISOString(),
+      output: o.result.output,
+    });
+  }
+  if (o.error) io.stderr(`[Cursor CLI] Prompt ${name} failed: ${o.error instanceof Error ? o.error.message : String(o.error)}\n`);
+  return o.status === 'succeeded' ? 0 : o.status === 'timedOut' ? 124 : o.result.exitCode || 1;
+}
+
+/** Removes block (when given) and appends entry under ## Results, against the current CLI.md on disk. */
+function updateCliMd(ws: Workspace, block: ParsedBlock | undefined, entry: RunResultEntry | undefined): void {
+  const current = readText(ws.cliMdPath);
+  if (current === undefined) return;
+  let next = current;
+  if (block) {
+    const idx = findCliBlock(next, block.fullMatch);
+    if (idx >= 0) next = removeCliBlock(next, block.fullMatch, idx);
+  }
+  if (entry) next = appendResultEntry(next, formatResultEntry(entry));
+  if (next !== current) fs.writeFileSync(ws.cliMdPath, next, 'utf8');
+}
+
+/** The built-in ```cli verbs; verbs other extensions register exist only in the editor. */
+function builtinVerbs(ws: Workspace): CliCommandRegistry {
+  const registry = new CliCommandRegistry();
+  const summaries = () => promptSummaries(loadPromptList(ws.promptsMdPath, ws.cliMdPath));
+  registry.register('help', { description: 'list the available commands and prompts', run: () => formatHelp(registry, summaries()) });
+  registry.register('list', { description: 'list the prompts from prompts.md and CLI.md ## Prompts', run: () => formatPromptList(summaries()) });
+  registry.register('clean', {
+    description: 'archive CLI.md to CLI-history.md and reset it (Invoke-CcliClean)',
+    run: () => {
+      archiveCliFile(ws.root, ws.cliMdPath);
+      return undefined;
+    },
+  });
+  return registry;
+}
+
+/**
+ * Runs one ```cli block like the extension's queue does: prompt runs with a command executor and the built-in verbs
+ * record their result under ## Results and remove the block on success. Workflows, fan-out, composer and verbs
+ * registered by other extensions are skipped and left for the editor.
+ */
+async function processBlock(ws: Workspace, b: ParsedBlock, content: string, secrets: SecretsMode, io: FwhPromptsIo): Promise<ProcessedBlock> {
+  const command = b.command.trim();
+  const startedAt = new Date();
+  const record = (text: string, exitCode: number, status: string, remove: boolean): ProcessedBlock => {
+    updateCliMd(ws, remove ? b : undefined, { command, exitCode, output: text, startedAt, finishedAt: new Date(), status, outputFormat: 'markdown' });
+    return { command, status, ...(exitCode ? { message: text } : {}) };
+  };
+  const pr = isPromptCommand(command);
+  if (!pr) {
+    const parsed = parseCliCommand(command);
+    if (parsed?.verb === PROMPT_VERB) return record(`Usage: ${PROMPT_VERB} <name> [Key=Value ...]`, 1, 'invalid command', true);
+    const handler = parsed && builtinVerbs(ws).get(parsed.verb);
+    if (!parsed || !handler) return { command, status: 'skipped', message: 'not a built-in command; left for the editor' };
+    try {
+      const text = await handler.run(parsed.args, { workspaceRoot: ws.root, cliMdPath: ws.cliMdPath, command, signal: io.signal });
+      return text === undefined ? { command, status: 'succeeded' } : record(text, 0, 'succeeded', true);
+    } catch (e) {
+      const invalid = e instanceof CliCommandError;
+      return record(e instanceof Error ? e.message : String(e), 1, invalid ? 'invalid command' : 'failed', invalid);
+    }
+  }
+
+  let resolved: ReturnType<typeof resolvePromptCommand>;
+  try {
+    resolved = resolvePromptCommand(content, pr, readPrompts(ws));
+  } catch (e) {
+    return record(e instanceof Error ? e.message : String(e), 1, 'invalid command', true);
+  }
+  if (!resolved) return { command, status: 'skipped', message: `no populated prompt in ## Prompts for ${pr.name}` };
+  if ('workflow' in resolved) return { command, status: 'skipped', message: 'workflows run in the editor' };
+  let o: PromptRunOutcome;
+  try {
+    io.stderr(`[Cursor CLI] Running prompt: ${pr.name}\n`);
+    o = await runPrompt(ws, pr.name, pr.args, undefined, secrets, 'CLI.md', io, false);
+  } catch (e) {
+    if (e instanceof RunCancelledError) return { command, status: 'cancelled' };
+    const message = e instanceof Error ? e.message : String(e);
+    // commandExecutor's CliCommandError: fan-out and composer prompts are left for the editor. Anything else
+    // (possible secrets, an unknown or invalid executor) is a failure, so `process` exits non-zero.
+    return { command, status: e instanceof CliCommandError ? 'skipped' : 'failed', message };
+  }
+  if (o.status === 'cancelled') return { command, status: 'cancelled' };
+  const status = o.status === 'timedOut' ? `timed out (${(o.error as Error).message})` : o.status;
+  // Like the editor: record what the agent produced, but keep the block of a failed run.
+  updateCliMd(ws, o.status === 'succeeded' ? b : undefined, {
+    promptName: pr.name,
+    command: `${PROMPT_VERB} ${pr.name}`,
+    ...o.result,
+    status,
+    executor: o.executor.name,
+    outputFormat: o.executor.outputFormat,
+  });
+  return { command, status, ...(o.error ? { message: (o.error as Error).message } : {}) };
+}
+
+/**
+ * One pass over the ```cli blocks of CLI.md outside ## Usage, ## Results and other fences (isInertCliBlock), in
+ * order; CLI.md is re-read before each block so results recorded by earlier blocks are kept. skip holds blocks not
+ * to run again (watch: failed ones). Applies AutoArchive at the end.
+ */
+async function processCliMd(ws: Workspace, secrets: SecretsMode, io: FwhPromptsIo, skip = new Set<string>()): Promise<ProcessedBlock[]> {
+  const initial = readText(ws.cliMdPath);
+  if (initial === undefined) throw new CliCommandError(`CLI.md not found: ${ws.cliMdPath}`);
+  const done: ProcessedBlock[] = [];
+  for (const first of parseCliBlocks(initial)) {
+    if (io.signal.aborted) break;
+    const content = readText(ws.cliMdPath) ?? '';
+    const b = parseCliBlocks(content).find((x) => x.fullMatch === first.fullMatch && !isInertCliBlock(content, x.index));
+    if (!b || skip.has(b.fullMatch)) continue;
+    const r = await processBlock(ws, b, content, secrets, io);
+    done.push(r);
+    io.stderr(`[Cursor CLI] ${r.command}: ${r.status}${r.message ? ` – ${r.message}` : ''}\n`);
+    if (r.status !== 'succeeded') skip.add(b.fullMatch);
+    if (r.status === 'cancelled' || (r.status === 'succeeded' && parseCliCommand(r.command)?.verb === 'clean')) break;
+  }
+  const after = readText(ws.cliMdPath);
+  const reason = after === undefined ? null : autoArchiveReason(after, ws.config?.AutoArchive);
+  if (reason) {
+    archiveCliFile(ws.root, ws.cliMdPath);
+    io.stderr(`[Cursor CLI] CLI.md archived (auto-archive: ${reason})\n`);
+  }
+  return done;
+}
+
+function failed(blocks: ProcessedBlock[]): boolean {
+  return blocks.some((b) => b.status !== 'succeeded' && b.status !== 'skipped');
+}
+
+/** Processes CLI.md, then again after each change (polling, serialized) until io.signal aborts. */
+async function watch(ws: Workspace, opts: FwhPromptsOptions, io: FwhPromptsIo): Promise<number> {
+  const skip = new Set<string>();
+  let running = Promise.resolve();
+  const pass = () => {
+    running = running.then(async () => {
+      if (io.signal.aborted || !fs.existsSync(ws.cliMdPath)) return;
+      const blocks = await processCliMd(ws, secretsMode(opts), io, skip);
+      if (opts.json && blocks.length > 0) io.stdout(JSON.stringify(blocks) + '\n');
+    });
+    running = running.catch((e) => io.stderr(`[Cursor CLI] ${e instanceof Error ? e.message : String(e)}\n`));
+  };
+  io.stderr(`[Cursor CLI] Watching ${ws.cliMdPath} (Ctrl+C stops)\n`);
+  const onChange = (curr: fs.Stats, prev: fs.Stats) => {
+    if (curr.mtimeMs !== prev.mtimeMs) pass();
+  };
+  fs.watchFile(ws.cliMdPath, { interval: 500 }, onChange);
+  pass();
+  await new Promise<void>((resolve) => {
+    if (io.signal.aborted) resolve();
+    else io.signal.addEventListener('abort', () => resolve(), { once: true });
+  });
+  fs.unwatchFile(ws.cliMdPath, onChange);
+  await running;
+  return 0;
+}
+
+function secretsMode(opts: FwhPromptsOptions): SecretsMode {
+  const mode = opts.secrets ?? 'abort';
+  if (mode !== 'abort' && mode !== 'redact') throw new UsageError(`--secrets must be abort or redact: ${mode}`);
+  return mode;
+}
+
+/** Runs fwh-prompts with argv (without node and the script). Returns the exit code: 0 ok, 1 failed, 2 usage. */
+export async function runFwhPrompts(argv: string[], io: FwhPromptsIo): Promise<number> {
+  let opts: FwhPromptsOptions;
+  let positionals: string[];
+  try {
+    ({ values: opts, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        root: { type: 'string' },
+        json: { type: 'boolean' },
+        param: { type: 'string', multiple: true },
+        executor: { type: 'string' },
+        secrets: { type: 'string' },
+        'cli-md': { type: 'string' },
+        'prompts-md': { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    }));
+  } catch (e) {
+    io.stderr(`${e instanceof Error ? e.message : String(e)}\n\n${USAGE}\n`);
+    return 2;
+  }
+  const [command, name, ...extra] = positionals;
+  if (opts.help || !command) {
+    (opts.help ? io.stdout : io.stderr)(USAGE + '\n');
+    return opts.help ? 0 : 2;
+  }
+  try {
+    const needsName = ['show', 'render', 'run'].includes(command);
+    if (needsName && !name) throw new UsageError(`${command} needs a prompt name`);
+    if (extra.length > 0 || (!needsName && name)) throw new UsageError(`Unexpected argument: ${needsName ? extra[0] : name}`);
+    secretsMode(opts);
+    const ws = openWorkspace(opts, io);
+    switch (command) {
+      case 'list':
+        return list(ws, opts, io);
+      case 'show':
+        return show(ws, name, opts, io);
+      case 'render':
+        return await render(ws, name, opts, io);
+      case 'run':
+        return await run(ws, name, opts, io);
+      case 'process': {
+        const blocks = await processCliMd(ws, secretsMode(opts), io);
+        if (opts.json) writeJson(io, blocks);
+        return failed(blocks) ? 1 : 0;
+      }
+      case 'watch':
+        return await watch(ws, opts, io);
+      default:
+        throw new UsageError(`Unknown command '${command}'`);
+    }
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    if (e instanceof UsageError) {
+      io.stderr(`${msg}\n\n${USAGE}\n`);
+      return 2;
+    }
+    if (opts.json) writeJson(io, { error: msg });
+    else io.stderr(`fwh-prompts: ${msg}\n`);
+    return e instanceof RunCancelledError ? 130 : 1;
+  }
+}
+
+if (require.main === module) {
+  const abort = new AbortController();
+  // The first Ctrl+C cancels the run (killing the agent's process tree); a second one exits right away.
+  process.once('SIGINT', () => abort.abort());
+  void runFwhPrompts(process.argv.slice(2), {
+    cwd: process.cwd(),
+    stdout: (s) => process.stdout.write(s),
+    stderr: (s) => process.stderr.write(s),
+    spawn,
+    signal: abort.signal,
+  }).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * Tests for the `{git.*}` placeholder values against a temporary repository (needs git on PATH).
+ */
+
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { gitBranch, gitBranchDiff, gitChangedFiles, gitRunner, gitStagedDiff } from './gitContext';
+import { expandContextPlaceholders, nodeContextSources } from './workspaceContext';
+import { GitCommandError } from './errors';
+
+describe('gitContext', () => {
+  let tmp: string;
+  let ws: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args], { cwd: tmp, stdio: 'pipe' });
+  const write = (rel: string, text: string) => {
+    fs.mkdirSync(path.dirname(path.join(tmp, rel)), { recursive: true });
+    fs.writeFileSync(path.join(tmp, rel), text);
+  };
+
+  beforeEach(() => {
+    // The repository root is one level above the workspace folder, like a monorepo.
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-git-'));
+    ws = path.join(tmp, 'app');
+    git('init', '-q', '-b', 'main');
+    write('app/a.ts', 'a\n');
+    write('app/b.ts', 'b\n');
+    write('other/c.ts', 'c\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'init');
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
+  });
+
+  it('diffs staged changes under the workspace folder, optionally for some files', async () => {
+    write('app/a.ts', 'a2\n');
+    write('app/b.ts', 'b2\n');
+    write('other/c.ts', 'c2\n');
+    git('add', '.');
+    const run = gitRunner(ws);
+    const all = await gitStagedDiff(run);
+    assert.ok(all.includes('--- a/a.ts\n+++ b/a.ts') && all.includes('+b2'));
+    assert.ok(!all.includes('c2'));
+    const one = await gitStagedDiff(run, ['b.ts']);
+    assert.ok(one.includes('+b2') && !one.includes('+a2'));
+  });
+
+  it('lists changed files in short status form and names the branch', async () => {
+    write('app/a.ts', 'a2\n');
+    git('add', 'app/a.ts');
+    write('app/b.ts', 'b2\n');
+    write('app/new/d.ts', 'd\n');
+    write('other/c.ts', 'c2\n');
+    const run = gitRunner(ws);
+    assert.strictEqual(await gitChangedFiles(run), 'M  a.ts\n M b.ts\n?? new/d.ts');
+    assert.strictEqual(await gitChangedFiles(run, ['b.ts']), ' M b.ts');
+    assert.strictEqual(await gitBranch(run), 'main');
+    git('checkout', '-q', '--detach');
+    assert.match(await gitBranch(run), /^\(detached at [0-9a-f]+\)$/);
+  });
+
+  it('diffs a branch against its base and rejects bad bases', async () => {
+    git('checkout', '-q', '-b', 'feature');
+    write('app/a.ts', 'feature\n');
+    git('commit', '-q', '-am', 'feature');
+    const run = gitRunner(ws);
+    assert.ok((await gitBranchDiff(run, 'main')).includes('+feature'));
+    await assert.rejects(gitBranchDiff(run, '--output=x'), GitCommandError);
+    await assert.rejects(gitBranchDiff(run, 'nope'), /git diff failed: fatal: /);
+  });
+
+  it('expands {git.*} placeholders and leaves markers for empty or failed ones', async () => {
+    write('app/a.ts', 'a2\n');
+    git('add', '.');
+    const sources = nodeContextSources(ws, {});
+    const r = await expandContextPlaceholders('On {git.branch}:\n{git.stagedDiff}\n{git.changedFiles}\n{git.branchDiff:main}', sources);
+    const [head, ...rest] = r.text.split('\n');
+    assert.strictEqual(head, 'On main:');
+    assert.ok(rest.join('\n').startsWith('```diff\ndiff --git a/a.ts b/a.ts'));
+    assert.ok(r.text.endsWith('```\nM  a.ts\n[fwh: no changes since main]'));
+    assert.deepStrictEqual(r.notes, ['no changes since main']);
+    const scoped = await expandContextPlaceholders('{git.stagedDiff}', { ...sources, gitPaths: ['b.ts'] });
+    assert.strictEqual(scoped.text, '[fwh: no staged changes in the 1 selected file(s)]');
+    const plain = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-nogit-'));
+    try {
+      const outside = await expandContextPlaceholders('{git.branch}', nodeContextSources(plain, {}));
+      assert.match(outside.text, /^\[fwh: git symbolic-ref failed: fatal: not a git repository/);
+    } finally {
+      fs.rmSync(plain, { recursive: true });
+    }
+  });
+});
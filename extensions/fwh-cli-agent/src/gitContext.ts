@@ -0,0 +1,81 @@
+/**
+ * Local git state for the `{git.*}` workspace context placeholders: the staged diff, the diff against a base
+ * branch, the changed files and the current branch. Runs the git command line in the workspace folder (no network
+ * access), limited to the folder and, when given, to a list of its files. No vscode dependency.
+ */
+
+import { execFile } from 'child_process';
+import { GitCommandError } from './errors';
+
+/** Runs `git <args>` and resolves with its stdout; rejects with GitCommandError. */
+export type GitRunner = (args: readonly string[]) => Promise<string>;
+
+/** Settings that keep git output stable: unquoted non-ASCII paths, no colors, status paths relative to the folder. */
+const GIT_CONFIG = ['-c', 'core.quotePath=false', '-c', 'color.ui=false', '-c', 'status.relativePaths=true'];
+
+/** Flags for every diff: paths relative to (and limited to) the workspace folder, no external diff drivers. */
+const DIFF_FLAGS = ['--relative', '--no-color', '--no-ext-diff'];
+
+/** A runner for the git executable in cwd. timeoutMs guards against a hung git (a lock, a broken hook). */
+export function gitRunner(cwd: string, timeoutMs = 30_000): GitRunner {
+  return (args) =>
+    new Promise((resolve, reject) => {
+      execFile(
+        'git',
+        [...GIT_CONFIG, ...args],
+        {
+          cwd,
+          timeout: timeoutMs,
+          maxBuffer: 64 * 1024 * 1024,
+          windowsHide: true,
+          env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_OPTIONAL_LOCKS: '0' },
+        },
+        (err, stdout, stderr) => {
+          if (!err) return resolve(stdout);
+          const code = (err as NodeJS.ErrnoException).code;
+          const detail = code === 'ENOENT' ? 'git is not installed or not on PATH' : String(stderr).trim().split(/\r?\n/)[0] || err.message;
+          reject(new GitCommandError(`git ${args[0]} failed: ${detail}`));
+        }
+      );
+    });
+}
+
+/** `-- <paths>` when the placeholders are limited to some files; nothing (the whole folder) otherwise. */
+function pathspec(paths: readonly string[] | undefined): string[] {
+  return paths && paths.length > 0 ? ['--', ...paths] : [];
+}
+
+/** The staged changes (`git diff --cached`); '' when nothing is staged. */
+export function gitStagedDiff(git: GitRunner, paths?: readonly string[]): Promise<string> {
+  return git(['diff', '--cached', ...DIFF_FLAGS, ...pathspec(paths)]);
+}
+
+/**
+ * The changes of HEAD since it branched off base (`git diff <base>...HEAD`); '' when there are none. Throws
+ * GitCommandError for a base that looks like an option.
+ */
+export function gitBranchDiff(git: GitRunner, base: string, paths?: readonly string[]): Promise<string> {
+  const ref = base.trim();
+  if (!ref || ref.startsWith('-')) return Promise.reject(new GitCommandError(`Invalid base branch: '${base}'`));
+  return git(['diff', ...DIFF_FLAGS, `${ref}...HEAD`, ...pathspec(paths)]);
+}
+
+/**
+ * Changed, staged and untracked files in `git status --short` form (`M  src/a.ts`, `?? new.ts`), relative to the
+ * workspace folder; '' when the tree is clean.
+ */
+export async function gitChangedFiles(git: GitRunner, paths?: readonly string[]): Promise<string> {
+  const out = await git(['status', '--short', '--untracked-files=all', '--', ...(paths && paths.length > 0 ? paths : ['.'])]);
+  return out.replace(/\s+$/, '');
+}
+
+/** The current branch, or `(detached at <commit>)`. */
+export async function gitBranch(git: GitRunner): Promise<string> {
+  try {
+    return (await git(['symbolic-ref', '--short', '-q', 'HEAD'])).trim();
+  } catch (e) {
+    const commit = (await git(['rev-parse', '--short', 'HEAD']).catch(() => '')).trim();
+    if (!commit) throw e;
+    return `(detached at ${commit})`;
+  }
+}
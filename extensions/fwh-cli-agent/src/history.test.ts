@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the prompt run history file: append, trim, read and the entry document.
+ */
+
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  appendHistoryEntry,
+  formatHistoryDocument,
+  historyFilePath,
+  MAX_HISTORY_OUTPUT_CHARS,
+  newHistoryId,
+  parseHistory,
+  readHistory,
+} from './history';
+import type { HistoryEntry } from './history';
+
+function entry(n: number, extra: Partial<HistoryEntry> = {}): HistoryEntry {
+  const startedAt = new Date(2026, 0, 25, 15, 50, n);
+  return {
+    id: `id-${n}`,
+    promptName: 'code-review',
+    source: 'form',
+    promptText: `Review ${n}`,
+    executor: 'agent-cli',
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date(startedAt.getTime() + 1500).toISOString(),
+    exitCode: 0,
+    status: 'succeeded',
+    output: `output ${n}`,
+    ...extra,
+  };
+}
+
+describe('history', () => {
+  let tmp: string;
+  let file: string;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-history-'));
+    file = historyFilePath(tmp);
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
+  });
+
+  describe('appendHistoryEntry / readHistory', () => {
+    it('creates .cursor and reads entries back newest first', () => {
+      assert.deepStrictEqual(readHistory(file), []);
+      appendHistoryEntry(file, entry(1));
+      appendHistoryEntry(file, entry(2, { parameters: { File: 'a.cs' } }));
+      assert.strictEqual(path.dirname(file), path.join(tmp, '.cursor'));
+      assert.deepStrictEqual(readHistory(file), [entry(2, { parameters: { File: 'a.cs' } }), entry(1)]);
+    });
+
+    it('keeps the newest maxEntries entries', () => {
+      for (let n = 1; n <= 5; n++) appendHistoryEntry(file, entry(n), 3);
+      assert.deepStrictEqual(readHistory(file).map((e) => e.id), ['id-5', 'id-4', 'id-3']);
+    });
+
+    it('keeps the end of long output', () => {
+      appendHistoryEntry(file, entry(1, { output: 'x'.repeat(10) + 'y'.repeat(MAX_HISTORY_OUTPUT_CHARS) }));
+      const [e] = readHistory(file);
+      assert.ok(e.output.startsWith('[... 10 earlier characters not kept in history ...]\n'));
+      assert.ok(e.output.endsWith('y'.repeat(MAX_HISTORY_OUTPUT_CHARS)));
+    });
+  });
+
+  describe('parseHistory', () => {
+    it('skips truncated and foreign lines', () => {
+      const text = [JSON.stringify(entry(1)), '{"id": "cut', '{"other": true}', '', JSON.stringify(entry(2))].join('\n');
+      assert.deepStrictEqual(parseHistory(text).map((e) => e.id), ['id-1', 'id-2']);
+    });
+  });
+
+  describe('newHistoryId', () => {
+    it('is unique for the same instant', () => {
+      const now = new Date();
+      assert.notStrictEqual(newHistoryId(now), newHistoryId(now));
+    });
+  });
+
+  describe('formatHistoryDocument', () => {
+    it('shows details, parameters, prompt and output', () => {
+      const doc = formatHistoryDocument(entry(1, { revision: 'prompts.md', parameters: { File: 'a|b.cs', Notes: 'one\ntwo' } }));
+      assert.strictEqual(
+        doc,
+        [
+          '# code-review',
+          '',
+          '**Revision:** prompts.md',
+          '**Source:** form',
+          '**Executor:** agent-cli',
+          '**Executed:** 2026-01-25 15:50:01',
+          '**Duration:** 1.5s',
+          '**Exit Code:** 0',
+          '**Status:** succeeded',
+          '',
+          '## Parameters',
+          '',
+          '| Parameter | Value |',
+          '|-----------|-------|',
+          '| File | a\\|b.cs |',
+          '| Notes | one<br>two |',
+          '',
+          '## Prompt',
+          '',
+          '```',
+          'Review 1',
+          '```',
+          '',
+          '## Output',
+          '',
+          '```',
+          'output 1',
+          '```',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('notes when nothing was captured', () => {
+      const doc = formatHistoryDocument(entry(1, { executor: 'composer', exitCode: null, output: '' }));
+      assert.ok(doc.includes('**Exit Code:** ?'));
+      assert.ok(doc.endsWith('## Output\n\n_No output captured._\n'));
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Prompt run history: one JSON object per line in `.cursor/fwh-prompt-history.jsonl` of each workspace folder, so
+ * it survives reloads and archiving CLI.md. Uses fs; no vscode dependency.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fenceFor, formatDuration, formatTimestamp } from './results';
+import type { JobStatus } from './queue';
+
+export const HISTORY_FILE = path.join('.cursor', 'fwh-prompt-history.jsonl');
+
+/** Entries kept per workspace folder; the oldest are dropped when a new one is recorded. */
+export const MAX_HISTORY_ENTRIES = 200;
+
+/** Captured output kept per entry; longer output is cut from the start (the end usually holds the answer). */
+export const MAX_HISTORY_OUTPUT_CHARS = 64 * 1024;
+
+export type HistoryStatus = Exclude<JobStatus, 'pending' | 'running'>;
+
+export interface HistoryEntry {
+  id: string;
+  promptName: string;
+  /** The text that ran: 'prompts.md', `CLI.md <label>` for a ## Prompts revision; omitted when unknown. */
+  revision?: string;
+  /** What requested the run: form, CLI.md, command, history (...). */
+  source: string;
+  /** The prompt as sent to the executor, before shared context is prepended. */
+  promptText: string;
+  /** Filled parameter values (form fields or ```cli Key=Value arguments); omitted when the defaults were used. */
+  parameters?: Record<string, string>;
+  executor: string;
+  /** ISO 8601. */
+  startedAt: string;
+  finishedAt: string;
+  exitCode: number | null;
+  status: HistoryStatus;
+  /** Captured output; empty for composer, the error message when the run failed without output. */
+  output: string;
+}
+
+export function historyFilePath(workspaceRoot: string): string {
+  return path.join(workspaceRoot, HISTORY_FILE);
+}
+
+let _idSeq = 0;
+
+/** Unique within a session and sortable by time. */
+export function newHistoryId(now: Date = new Date()): string {
+  return `${now.getTime().toString(36)}-${process.pid.toString(36)}-${(++_idSeq).toString(36)}`;
+}
+
+function isHistoryEntry(v: unknown): v is HistoryEntry {
+  if (typeof v !== 'object' || v === null) return false;
+  const e = v as Partial<HistoryEntry>;
+  return (
+    typeof e.id === 'string' &&
+    typeof e.promptName === 'string' &&
+    typeof e.promptText === 'string' &&
+    typeof e.startedAt === 'string' &&
+    typeof e.finishedAt === 'string' &&
+    typeof e.status === 'string' &&
+    typeof e.output === 'string'
+  );
+}
+
+/** Entries of a history file's text in file order (oldest first). Lines that are not entries are skipped. */
+export function parseHistory(text: string): HistoryEntry[] {
+  const entries: HistoryEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const v: unknown = JSON.parse(line);
+      if (isHistoryEntry(v)) entries.push(v);
+    } catch {
+      // A line cut short by a crash; the rest of the file is still usable.
+    }
+  }
+  return entries;
+}
+
+/** Entries of a history file, newest first; empty when the file does not exist. */
+export function readHistory(filePath: string): HistoryEntry[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return [];
+  }
+  return parseHistory(text).reverse();
+}
+
+function truncateOutput(output: string, max: number): string {
+  if (output.length <= max) return output;
+  return `[... ${output.length - max} earlier characters not kept in history ...]\n${output.slice(-max)}`;
+}
+
+/**
+ * Appends entry to the history file (creating `.cursor` when needed). When the file holds maxEntries or more,
+ * it is rewritten with the newest maxEntries - 1 entries before the new one.
+ */
+export function appendHistoryEntry(filePath: string, entry: HistoryEntry, maxEntries = MAX_HISTORY_ENTRIES): void {
+  const line = JSON.stringify({ ...entry, output: truncateOutput(entry.output, MAX_HISTORY_OUTPUT_CHARS) }) + '\n';
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const existing = fs.existsSync(filePath) ? parseHistory(fs.readFileSync(filePath, 'utf8')) : [];
+  if (existing.length < maxEntries) {
+    fs.appendFileSync(filePath, line, 'utf8');
+    return;
+  }
+  const kept = existing.slice(existing.length - Math.max(0, maxEntries - 1)).map((e) => JSON.stringify(e) + '\n');
+  fs.writeFileSync(filePath, kept.join('') + line, 'utf8');
+}
+
+/** Markdown document for one entry: run details, parameters, the prompt and its output. */
+export function formatHistoryDocument(e: HistoryEntry): string {
+  const started = new Date(e.startedAt);
+  const finished = new Date(e.finishedAt);
+  const lines = [
+    `# ${e.promptName}`,
+    '',
+    ...(e.revision ? [`**Revision:** ${e.revision}`] : []),
+    `**Source:** ${e.source}`,
+    `**Executor:** ${e.executor}`,
+    `**Executed:** ${formatTimestamp(started)}`,
+    `**Duration:** ${formatDuration(finished.getTime() - started.getTime())}`,
+    `**Exit Code:** ${e.exitCode != null ? e.exitCode : '?'}`,
+    `**Status:** ${e.status}`,
+  ];
+  const params = Object.entries(e.parameters ?? {});
+  if (params.length > 0) {
+    lines.push('', '## Parameters', '', '| Parameter | Value |', '|-----------|-------|');
+    for (const [name, value] of params) lines.push(`| ${name} | ${value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')} |`);
+  }
+  const fenced = (text: string) => {
+    const fence = fenceFor(text);
+    return [fence, text.replace(/\s+$/, ''), fence];
+  };
+  lines.push('', '## Prompt', '', ...fenced(e.promptText), '', '## Output', '', ...(e.output.trim() ? fenced(e.output) : ['_No output captured._']));
+  return lines.join('\n') + '\n';
+}
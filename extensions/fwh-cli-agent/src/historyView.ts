@@ -0,0 +1,66 @@
+/**
+ * TreeView for the prompt run history of every workspace folder, newest first.
+ */
+
+import * as vscode from 'vscode';
+import type { HistoryEntry, HistoryStatus } from './history';
+import { formatTimestamp } from './results';
+
+const STATUS_ICONS: Record<HistoryStatus, string> = {
+  succeeded: 'pass',
+  failed: 'error',
+  cancelled: 'circle-slash',
+  timedOut: 'watch',
+};
+
+/** A recorded run of a workspace folder. */
+export interface HistoryRecord {
+  workspaceRoot: string;
+  /** Appended to the description in multi-root workspaces, e.g. ` [api]`. */
+  folderLabel: string;
+  entry: HistoryEntry;
+}
+
+/** Tree item for a run; selecting it opens its output (openCommand). */
+export class HistoryTreeItem extends vscode.TreeItem {
+  constructor(readonly record: HistoryRecord, openCommand: string) {
+    const e = record.entry;
+    super(e.promptName, vscode.TreeItemCollapsibleState.None);
+    this.id = `history-${record.workspaceRoot}-${e.id}`;
+    this.description = `${e.status} · ${formatTimestamp(new Date(e.startedAt))}${record.folderLabel}`;
+    this.contextValue = 'historyEntry';
+    this.iconPath = new vscode.ThemeIcon(STATUS_ICONS[e.status] ?? 'history');
+    const lines = [e.promptName, `Status: ${e.status}`, `Executor: ${e.executor}`, `Source: ${e.source}`];
+    if (e.revision) lines.push(`Revision: ${e.revision}`);
+    for (const [name, value] of Object.entries(e.parameters ?? {})) lines.push(`${name} = ${value}`);
+    this.tooltip = lines.join('\n');
+    this.command = { title: 'Open output', command: openCommand, arguments: [this] };
+  }
+}
+
+export class HistoryTreeDataProvider implements vscode.TreeDataProvider<HistoryTreeItem>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  /** load returns the records of every folder; they are shown newest first. */
+  constructor(private readonly load: () => HistoryRecord[], private readonly openCommand: string) {}
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: HistoryTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: HistoryTreeItem): HistoryTreeItem[] {
+    if (element) return [];
+    return this.load()
+      .sort((a, b) => b.entry.startedAt.localeCompare(a.entry.startedAt))
+      .map((r) => new HistoryTreeItem(r, this.openCommand));
+  }
+
+  dispose(): void {
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -14,6 +14,20 @@ import {
   isUnderWorkspaceRoot,
   parsePromptsMd,
   listPromptNamesFromCliMd,
+  parseReservedSections,
+  extractPromptMetadata,
+  fencedRanges,
+  findCliBlock,
+  inFencedRange,
+  isInertCliBlock,
+  metadataFlag,
+  applySharedContext,
+  isReservedSection,
+  parseParamType,
+  listPromptRevisions,
+  parsePromptTimestamp,
+  sectionAt,
+  splitCommandLine,
 } from './parser';
 
 describe('parser', () => {
@@ -94,6 +108,63 @@ describe('parser', () => {
       const content = '### PROMPT: x ()\n```prompt\nbody\n```';
       assert.strictEqual(extractPromptFromPromptsSection(content, 'x'), 'body');
     });
+
+    it('returns the newest timestamped revision', () => {
+      const content = [
+        '### Prompt: x (2026-01-25 18:00:52)\n```prompt\nmiddle\n```',
+        '### Prompt: x (2026-01-26 09:00:00)\n```prompt\nnewest\n```',
+        '### Prompt: x (2026-01-25 17:33:21)\n```prompt\noldest\n```',
+      ].join('\n');
+      assert.strictEqual(extractPromptFromPromptsSection(content, 'x'), 'newest');
+    });
+  });
+
+  describe('listPromptRevisions', () => {
+    const content = [
+      '## Prompts',
+      '### Prompt: a (2026-01-25 17:33:21)',
+      '',
+      '```prompt\nA1\n```',
+      '### Prompt: b (notes)\n```prompt\nB\n```',
+      '### Prompt: a (2026-01-25 19:09:05)\n```prompt\nA2\n```',
+      '### Prompt: a (2026-01-25 19:09:05)\n```prompt\nA3\n```',
+      '### Prompt: a (draft)\n```prompt\nA0\n```',
+    ].join('\n');
+
+    it('returns every block newest first; equal timestamps by position, untimestamped last', () => {
+      const r = listPromptRevisions(content, 'a');
+      assert.deepStrictEqual(r.map((x) => x.text), ['A3', 'A2', 'A1', 'A0']);
+      assert.strictEqual(r[0].label, '2026-01-25 19:09:05');
+      assert.strictEqual(r[0].timestamp?.getTime(), new Date(2026, 0, 25, 19, 9, 5).getTime());
+      assert.strictEqual(r[3].timestamp, undefined);
+      assert.strictEqual(content.slice(r[2].index, r[2].index + 15), '### Prompt: a (');
+    });
+
+    it('lists all prompts without a name', () => {
+      assert.deepStrictEqual(listPromptRevisions(content).map((x) => x.name).sort(), ['a', 'a', 'a', 'a', 'b']);
+      assert.deepStrictEqual(listPromptRevisions(content, 'c'), []);
+    });
+  });
+
+  describe('parsePromptTimestamp', () => {
+    it('parses yyyy-MM-dd HH:mm:ss and dates as local time', () => {
+      assert.strictEqual(parsePromptTimestamp('2026-01-25 17:33:21')?.getTime(), new Date(2026, 0, 25, 17, 33, 21).getTime());
+      assert.strictEqual(parsePromptTimestamp('2026-01-25')?.getTime(), new Date(2026, 0, 25).getTime());
+    });
+
+    it('returns undefined for other text and impossible dates', () => {
+      assert.strictEqual(parsePromptTimestamp('File, Feature'), undefined);
+      assert.strictEqual(parsePromptTimestamp('2026-02-30 10:00:00'), undefined);
+    });
+  });
+
+  describe('sectionAt', () => {
+    it('returns the ## section containing the offset, ignoring ### headings', () => {
+      const c = '# CLI\n## Usage\n```cli\nhelp\n```\n## Commands\n### Sub\n```cli\nlist\n```';
+      assert.strictEqual(sectionAt(c, 0), undefined);
+      assert.strictEqual(sectionAt(c, c.indexOf('help')), 'Usage');
+      assert.strictEqual(sectionAt(c, c.indexOf('list')), 'Commands');
+    });
   });
 
   describe('isPromptCommand', () => {
@@ -112,6 +183,27 @@ describe('parser', () => {
       assert.strictEqual(isPromptCommand('prompt'), null);
       assert.strictEqual(isPromptCommand('prompt   '), null);
     });
+
+    it('parses quoted Key=Value arguments', () => {
+      assert.deepStrictEqual(isPromptCommand('prompt code-review FeatureName="User Auth" FilePath=src\\Auth.cs Empty='), {
+        name: 'code-review',
+        args: { FeatureName: 'User Auth', FilePath: 'src\\Auth.cs', Empty: '' },
+      });
+    });
+
+    it('reports arguments that are not Key=Value and unterminated quotes', () => {
+      assert.deepStrictEqual(isPromptCommand("prompt x A=1 stray =v"), { name: 'x', args: { A: '1' }, invalid: ['stray', '=v'] });
+      assert.deepStrictEqual(isPromptCommand('prompt x A="open'), { name: 'x', invalid: ['unterminated quote'] });
+    });
+  });
+
+  describe('splitCommandLine', () => {
+    it('splits on whitespace and honours single and double quotes', () => {
+      assert.deepStrictEqual(splitCommandLine(`a  'b c' "d \\"e\\" \\\\" f"g h"i\n j`), ['a', 'b c', 'd "e" \\', 'fg hi', 'j']);
+      assert.deepStrictEqual(splitCommandLine(`'C:\\dir'\\x`), ['C:\\dir\\x']);
+      assert.strictEqual(splitCommandLine(`x 'open`), null);
+      assert.deepStrictEqual(splitCommandLine(`'' x`), ['', 'x']);
+    });
   });
 
   describe('removeCliBlock', () => {
@@ -152,6 +244,34 @@ describe('parser', () => {
     });
   });
 
+  describe('fencedRanges', () => {
+    it('closes a fence only with the same character at least as long, and runs an unclosed one to the end', () => {
+      const c = 'a\n````md\n```js\nx\n```\n````\nb\n~~~\n```\n~~~\n```text\nopen';
+      const r = fencedRanges(c);
+      assert.deepStrictEqual(r.map((x) => c.slice(x.start, x.end)), ['````md\n```js\nx\n```\n````', '~~~\n```\n~~~', '```text\nopen']);
+      assert.strictEqual(inFencedRange(r, c.indexOf('x')), true);
+      assert.strictEqual(inFencedRange(r, c.indexOf('b')), false);
+    });
+
+    it('does not open a fence on inline code', () => {
+      assert.deepStrictEqual(fencedRanges('```a``` b\ntext'), []);
+    });
+  });
+
+  describe('isInertCliBlock / findCliBlock', () => {
+    const c = ['## Usage', '```cli', 'help', '```', '## Results', '```cli', 'list', '```', '## Commands', '````', '```cli', 'list', '```', '````', '```cli', 'list', '```'].join('\n');
+
+    it('skips ## Usage, ## Results and blocks nested in other fences', () => {
+      assert.deepStrictEqual(parseCliBlocks(c).map((b) => isInertCliBlock(c, b.index)), [true, true, true, false]);
+      assert.strictEqual(sectionAt('## A\n```\n## B\n```\nx', 20), 'A');
+    });
+
+    it('finds the block that runs', () => {
+      assert.strictEqual(findCliBlock(c, '```cli\nlist\n```'), c.lastIndexOf('```cli'));
+      assert.strictEqual(findCliBlock(c, '```cli\nhelp\n```'), -1);
+    });
+  });
+
   describe('isUnderWorkspaceRoot', () => {
     it('child path is under', () => {
       assert.strictEqual(isUnderWorkspaceRoot('/ws', '/ws/foo'), true);
@@ -196,6 +316,39 @@ describe('parser', () => {
       assert.strictEqual(r[0].name, 'ok');
     });
 
+    it('parses the optional Type column', () => {
+      const md = [
+        '## t',
+        '{A}{B}{C}{D}{E}{F}',
+        '### Parameters',
+        '| Parameter | Description | Required | Default | Type |',
+        '|-----------|-------------|----------|---------|------|',
+        '| A | a | Yes | | multiline |',
+        '| B | b | No | C# | enum(C#, F# , TypeScript) |',
+        '| C | c | No | Yes | boolean(Yes, No) |',
+        '| D | d | No | | File |',
+        '| E | e | No | | color |',
+        '| F | f | No | x | |',
+      ].join('\n');
+      const ps = parsePromptsMd(md)[0].parameters;
+      assert.deepStrictEqual(ps.map((x) => [x.name, x.type, x.options]), [
+        ['A', 'multiline', undefined],
+        ['B', 'enum', ['C#', 'F#', 'TypeScript']],
+        ['C', 'boolean', ['Yes', 'No']],
+        ['D', 'file', undefined],
+        ['E', 'text', undefined],
+        ['F', 'text', undefined],
+      ]);
+      assert.strictEqual(ps[1].default, 'C#');
+    });
+
+    it('parseParamType falls back to text for enums without options', () => {
+      assert.deepStrictEqual(parseParamType('enum()'), { type: 'text' });
+      assert.deepStrictEqual(parseParamType('glob'), { type: 'glob' });
+      assert.deepStrictEqual(parseParamType('boolean(only-one)'), { type: 'boolean' });
+      assert.deepStrictEqual(parseParamType(''), { type: 'text' });
+    });
+
     it('extracts placeholders not in Parameters table', () => {
       const md = '## p\nText {A} and {B}.\n### Parameters\n| Parameter | Description | Required | Default |\n| A | a | No | |';
       const r = parsePromptsMd(md);
@@ -203,6 +356,109 @@ describe('parser', () => {
       const names = r[0].parameters.map((x) => x.name).sort();
       assert.deepStrictEqual(names, ['A', 'B']);
     });
+
+    it('does not turn workspace context placeholders into parameters', () => {
+      const r = parsePromptsMd('## p\nFix {file:{Path}} with {glob:src/**/*.ts}, {selection} and {env:HOME}.');
+      assert.deepStrictEqual(r[0].parameters.map((x) => x.name), ['Path']);
+    });
+
+    it('parses a ### Steps table into workflow steps', () => {
+      const md = [
+        '## review-pipeline',
+        'Review {Path}.',
+        '### Steps',
+        '| Step | Prompt | Mode | Bindings |',
+        '|------|--------|------|----------|',
+        '| lint | lint-check | parallel | Path={Path} |',
+        '| tests | test-check | Parallel | Path={Path}; Depth=2 |',
+        '| summary | summarize | | Input={steps.lint.output} |',
+        '### Parameters',
+        '| Parameter | Description | Required | Default |',
+        '| Path | target | Yes | |',
+      ].join('\n');
+      const [r] = parsePromptsMd(md);
+      assert.strictEqual(r.template, 'Review {Path}.');
+      assert.deepStrictEqual(r.steps, [
+        { id: 'lint', prompt: 'lint-check', mode: 'parallel', bindings: { Path: '{Path}' } },
+        { id: 'tests', prompt: 'test-check', mode: 'parallel', bindings: { Path: '{Path}', Depth: '2' } },
+        { id: 'summary', prompt: 'summarize', mode: 'sequential', bindings: { Input: '{steps.lint.output}' } },
+      ]);
+      assert.deepStrictEqual(r.parameters.map((x) => x.name), ['Path']);
+    });
+
+    it('keeps ; inside a binding value unless a new Key= follows', () => {
+      const md = ['## w', '### Steps', '| Step | Prompt | Mode | Bindings |', '| a | p | | Notes=a; b; c=d ; Depth = 2 |'].join('\n');
+      assert.deepStrictEqual(parsePromptsMd(md)[0].steps?.[0].bindings, { Notes: 'a; b', c: 'd', Depth: '2' });
+    });
+
+    it('leaves steps unset for plain prompts', () => {
+      assert.strictEqual(parsePromptsMd('## p\nBody.')[0].steps, undefined);
+    });
+  });
+
+  describe('reserved sections and shared context', () => {
+    const md = [
+      '# Prompt Templates',
+      '',
+      '## shared-context',
+      '',
+      'Project: FWH',
+      '',
+      '---',
+      '',
+      '## foo',
+      '<!-- fwh: shared-context=false -->',
+      'Do {X}.',
+    ].join('\n');
+
+    it('parsePromptsMd excludes shared-context', () => {
+      const r = parsePromptsMd(md);
+      assert.deepStrictEqual(r.map((p) => p.name), ['foo']);
+    });
+
+    it('parseReservedSections returns shared-context body', () => {
+      assert.deepStrictEqual(parseReservedSections(md), { 'shared-context': 'Project: FWH' });
+    });
+
+    it('isReservedSection is case-insensitive', () => {
+      assert.strictEqual(isReservedSection('Shared-Context'), true);
+      assert.strictEqual(isReservedSection('code-review'), false);
+    });
+
+    it('strips metadata lines from template and description', () => {
+      const r = parsePromptsMd(md);
+      assert.strictEqual(r[0].template, 'Do {X}.');
+      assert.strictEqual(r[0].description, 'Do');
+      assert.deepStrictEqual(r[0].metadata, { 'shared-context': 'false' });
+    });
+
+    it('extractPromptMetadata parses ;-separated pairs with lower-cased keys', () => {
+      const r = extractPromptMetadata('a\n<!-- fwh: Shared-Context=off; timeout = 30 -->\nb');
+      assert.strictEqual(r.text, 'a\nb');
+      assert.deepStrictEqual(r.metadata, { 'shared-context': 'off', timeout: '30' });
+    });
+
+    it('extractPromptMetadata keeps ; inside a value unless a new key= follows', () => {
+      const r = extractPromptMetadata('<!-- fwh: description=Lint; then test; timeout=30 -->\nb');
+      assert.deepStrictEqual(r.metadata, { description: 'Lint; then test', timeout: '30' });
+    });
+
+    it('metadataFlag recognizes boolean words', () => {
+      assert.strictEqual(metadataFlag({ x: 'Off' }, 'x'), false);
+      assert.strictEqual(metadataFlag({ x: 'yes' }, 'X'), true);
+      assert.strictEqual(metadataFlag({ x: 'maybe' }, 'x'), undefined);
+      assert.strictEqual(metadataFlag(undefined, 'x'), undefined);
+    });
+
+    it('applySharedContext prepends with Get-CcliPrompt separator', () => {
+      assert.strictEqual(applySharedContext('body', ' ctx \n'), 'ctx\n\n---\n\nbody');
+    });
+
+    it('applySharedContext leaves prompt unchanged when context is empty or already present', () => {
+      assert.strictEqual(applySharedContext('body', ''), 'body');
+      assert.strictEqual(applySharedContext('body', undefined), 'body');
+      assert.strictEqual(applySharedContext('ctx\n\n---\n\nbody', 'ctx'), 'ctx\n\n---\n\nbody');
+    });
   });
 
   describe('listPromptNamesFromCliMd (MVP-SUPPORT-005)', () => {
@@ -25,21 +25,175 @@ export function parseCliBlocks(content: string): ParsedBlock[] {
   return blocks;
 }
 
-export function extractPromptFromPromptsSection(content: string, promptName: string): string | null {
+/** A fenced code block: from the start of its opening fence line to the end of its closing one. */
+export interface FencedRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Fenced code blocks of markdown content (``` or ~~~, up to three spaces of indent). A fence is closed only by a
+ * fence of the same character at least as long, so output fenced with fenceFor keeps its own ``` lines inside.
+ * A fence that is never closed runs to the end of content.
+ */
+export function fencedRanges(content: string): FencedRange[] {
+  const ranges: FencedRange[] = [];
+  let open: { start: number; char: string; length: number } | undefined;
+  let pos = 0;
+  for (const line of content.split('\n')) {
+    const m = /^ {0,3}(`{3,}|~{3,})(.*?)\r?$/.exec(line);
+    if (open) {
+      if (m && m[1][0] === open.char && m[1].length >= open.length && !m[2].trim()) {
+        ranges.push({ start: open.start, end: pos + line.length });
+        open = undefined;
+      }
+    } else if (m && !(m[1][0] === '`' && m[2].includes('`'))) {
+      open = { start: pos, char: m[1][0], length: m[1].length };
+    }
+    pos += line.length + 1;
+  }
+  if (open) ranges.push({ start: open.start, end: content.length });
+  return ranges;
+}
+
+/** True when offset lies in one of ranges (see fencedRanges). */
+export function inFencedRange(ranges: readonly FencedRange[], offset: number): boolean {
+  return ranges.some((r) => offset >= r.start && offset < r.end);
+}
+
+/** CLI.md section whose ```cli blocks are examples (the `help` in the default template) and are never run. */
+export const USAGE_SECTION = 'Usage';
+
+/** CLI.md section of recorded run results (results.ts); ```cli blocks in it are agent output and are never run. */
+export const RESULTS_SECTION = 'Results';
+
+/** Name of the `## ` section containing offset index, or undefined before the first one. Headings in fences do not count. */
+export function sectionAt(content: string, index: number): string | undefined {
+  const re = /^##[ \t]+(.+?)[ \t]*$/gm;
+  const fenced = fencedRanges(content);
+  let name: string | undefined;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(content)) !== null && m.index <= index) if (!inFencedRange(fenced, m.index)) name = m[1];
+  return name;
+}
+
+/**
+ * True when the ```cli block at index is never run: it is in ## Usage or ## Results, or nested in another fenced
+ * block (CLI_BLOCK_RE itself does not see fences).
+ */
+export function isInertCliBlock(content: string, index: number): boolean {
+  const section = sectionAt(content, index)?.toLowerCase();
+  if (section === USAGE_SECTION.toLowerCase() || section === RESULTS_SECTION.toLowerCase()) return true;
+  const lineStart = content.lastIndexOf('\n', index - 1) + 1;
+  return fencedRanges(content).some((r) => r.start < lineStart && lineStart < r.end);
+}
+
+/** Offset of the first ```cli block with this fullMatch that is not inert (isInertCliBlock), or -1. */
+export function findCliBlock(content: string, fullMatch: string): number {
+  return parseCliBlocks(content).find((b) => b.fullMatch === fullMatch && !isInertCliBlock(content, b.index))?.index ?? -1;
+}
+
+/** One `### Prompt: name (timestamp)` block with its ```prompt body in CLI.md ## Prompts. */
+export interface CliPromptRevision {
+  name: string;
+  /** Text between the parentheses, e.g. `2026-01-25 17:33:21`. */
+  label: string;
+  /** Parsed from label; undefined when it is not a yyyy-MM-dd[ HH:mm[:ss]] timestamp. */
+  timestamp?: Date;
+  text: string;
+  /** Offset of the heading in the content. */
+  index: number;
+}
+
+/** Parses a `yyyy-MM-dd HH:mm:ss` timestamp (as written by Write-CcliPromptToCli) as local time. */
+export function parsePromptTimestamp(label: string): Date | undefined {
+  const m = /^\s*(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?\s*$/.exec(label);
+  if (!m) return undefined;
+  const [y, mo, d, h, mi, s] = m.slice(1).map((x) => (x === undefined ? 0 : Number(x)));
+  const date = new Date(y, mo - 1, d, h, mi, s);
+  return date.getMonth() === mo - 1 && date.getDate() === d ? date : undefined;
+}
+
+/**
+ * Returns every `### Prompt: name (...)` block followed by a ```prompt fence, newest first: by parsed
+ * timestamp, then by position (later blocks are newer). Blocks without a timestamp sort after timestamped ones.
+ * With promptName, only that prompt's revisions (matched case-insensitively, like the heading).
+ */
+export function listPromptRevisions(content: string, promptName?: string): CliPromptRevision[] {
   const fence = FENCE;
+  const name = promptName === undefined ? '([^\\s(]+)' : `(${promptName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`;
   const re = new RegExp(
-    `### Prompt: ${promptName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*\\([^)]*\\)\\s*[\\r\\n]+` +
-      `${fence}prompt\\s*[\\r\\n]+([\\s\\S]*?)[\\r\\n]+${fence}`,
-    'i'
+    `### Prompt:\\s+${name}\\s*\\(([^)]*)\\)\\s*[\\r\\n]+${fence}prompt\\s*[\\r\\n]+([\\s\\S]*?)[\\r\\n]+${fence}`,
+    'gi'
   );
-  const m = content.match(re);
-  return m ? m[1].trim() : null;
+  const out: CliPromptRevision[] = [];
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(content)) !== null) {
+    const label = m[2].trim();
+    out.push({ name: m[1], label, timestamp: parsePromptTimestamp(label), text: m[3].trim(), index: m.index });
+  }
+  return out.sort((a, b) => (b.timestamp?.getTime() ?? -Infinity) - (a.timestamp?.getTime() ?? -Infinity) || b.index - a.index);
+}
+
+/** Body of the newest revision of a prompt in CLI.md ## Prompts (listPromptRevisions order); null when none. */
+export function extractPromptFromPromptsSection(content: string, promptName: string): string | null {
+  return listPromptRevisions(content, promptName)[0]?.text ?? null;
 }
 
-export function isPromptCommand(cmd: string): { name: string } | null {
+/**
+ * Splits a command line into words, shell style: whitespace separates words; '...' keeps everything literally;
+ * "..." keeps whitespace and honours \" and \\ escapes. Quotes may start mid-word (`Key="a b"`). Other
+ * backslashes are literal so Windows paths need no escaping. Returns null for an unterminated quote.
+ */
+export function splitCommandLine(cmd: string): string[] | null {
+  const words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let quote: string | null = null;
+  for (let i = 0; i < cmd.length; i++) {
+    const c = cmd[i];
+    if (quote) {
+      if (c === quote) quote = null;
+      else if (quote === '"' && c === '\\' && (cmd[i + 1] === '"' || cmd[i + 1] === '\\')) word += cmd[++i];
+      else word += c;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+      inWord = true;
+    } else if (/\s/.test(c)) {
+      if (inWord) words.push(word);
+      word = '';
+      inWord = false;
+    } else {
+      word += c;
+      inWord = true;
+    }
+  }
+  if (quote) return null;
+  if (inWord) words.push(word);
+  return words;
+}
+
+export interface PromptCommand {
+  name: string;
+  /** `Key=Value` arguments (splitCommandLine quoting); only present when the command has any. */
+  args?: Record<string, string>;
+  /** Arguments that are not `Key=Value`, or an unterminated quote; only present when there are any. */
+  invalid?: string[];
+}
+
+/** Parses `prompt <name> [Key=Value ...]`; null for other commands or a missing name. */
+export function isPromptCommand(cmd: string): PromptCommand | null {
   const t = cmd.trim().split(/\s+/);
-  if (t[0]?.toLowerCase() === 'prompt' && t[1]) return { name: t[1].trim() };
-  return null;
+  if (t[0]?.toLowerCase() !== 'prompt' || !t[1]) return null;
+  const words = splitCommandLine(cmd);
+  if (!words) return { name: t[1].trim(), invalid: ['unterminated quote'] };
+  const result: PromptCommand = { name: words[1] };
+  for (const w of words.slice(2)) {
+    const eq = w.indexOf('=');
+    if (eq > 0) (result.args ??= {})[w.slice(0, eq)] = w.slice(eq + 1);
+    else (result.invalid ??= []).push(w);
+  }
+  return result;
 }
 
 /** CR-EXT-1.2.5: remove by index to handle duplicate fullMatch. */
@@ -62,11 +216,52 @@ export function isUnderWorkspaceRoot(workspaceRoot: string, resolvedPath: string
 
 // --- MVP-SUPPORT-005: prompts.md and CLI.md list/parse ---
 
+/** Optional Type column of the ### Parameters table; selects the prompt form control. */
+export type ParamType = 'text' | 'multiline' | 'enum' | 'boolean' | 'file' | 'folder' | 'glob';
+export const PARAM_TYPES: readonly ParamType[] = ['text', 'multiline', 'enum', 'boolean', 'file', 'folder', 'glob'];
+
 export interface ParsedPromptParam {
   name: string;
   description: string;
   required: boolean;
   default: string;
+  /** 'text' when the Type column is absent or not recognized. */
+  type: ParamType;
+  /** enum: the choices; boolean: the texts for checked and unchecked (default true/false). */
+  options?: string[];
+}
+
+/**
+ * Parses a Type cell: text, multiline, boolean, file, folder, glob, `enum(a, b, c)` or `boolean(Yes, No)`.
+ * Case-insensitive; anything else (including an enum without options) is text.
+ */
+export function parseParamType(cell: string): { type: ParamType; options?: string[] } {
+  const m = /^\s*([a-z]+)\s*(?:\(([^)]*)\))?\s*$/i.exec(cell ?? '');
+  const type = m?.[1].toLowerCase() as ParamType | undefined;
+  if (!m || !type || !PARAM_TYPES.includes(type)) return { type: 'text' };
+  const options = m[2]
+    ?.split(',')
+    .map((o) => o.trim())
+    .filter((o) => o !== '');
+  if (type === 'enum') return options?.length ? { type, options } : { type: 'text' };
+  if (type === 'boolean' && options?.length === 2) return { type, options };
+  return { type };
+}
+
+/** sequential steps wait for everything before them; consecutive parallel steps run together. */
+export type WorkflowStepMode = 'sequential' | 'parallel';
+
+/** One row of a workflow's ### Steps table. */
+export interface WorkflowStep {
+  id: string;
+  /** Name of the prompts.md prompt the step runs. */
+  prompt: string;
+  mode: WorkflowStepMode;
+  /**
+   * Parameter values for the step's prompt, from `Key=Value; Key2=Value2`. Values may use the workflow's own
+   * `{Param}` placeholders and `{steps.<id>.output}` of earlier steps.
+   */
+  bindings: Record<string, string>;
 }
 
 export interface ParsedPrompt {
@@ -74,54 +269,159 @@ export interface ParsedPrompt {
   description: string;
   template: string;
   parameters: ParsedPromptParam[];
+  /** Values from `<!-- fwh: key=value -->` lines in the section; keys are lower-cased. */
+  metadata: Record<string, string>;
+  /** Present for workflow sections (those with a ### Steps table); template is then only the description. */
+  steps?: WorkflowStep[];
 }
 
+/** Placeholder prefix for the captured output of a workflow step: `{steps.<id>.output}`. */
+export const STEP_OUTPUT_RE = /^steps\.([^.{}]+)\.output$/i;
+
 /**
- * Parses prompts.md content into a list of prompts with names, descriptions, templates, and parameters.
- * Format: sections separated by ---, each with ## name, body (template with {Param}), and optional ### Parameters table.
+ * Workspace context placeholders, expanded when a prompt runs (workspaceContext.ts): `{file:<path>}`,
+ * `{glob:<pattern>}`, `{env:<NAME>}`, `{selection}`, `{activeFile}`, `{workspaceFolder}` and the git ones,
+ * `{git.stagedDiff}`, `{git.branchDiff:<base>}`, `{git.changedFiles}` and `{git.branch}`. They are not parameters.
  */
-export function parsePromptsMd(content: string): ParsedPrompt[] {
+export const CONTEXT_PLACEHOLDER_RE = /^(?:(file|glob|env|git\.branchDiff):(.+)|(selection|activeFile|workspaceFolder|git\.stagedDiff|git\.changedFiles|git\.branch))$/;
+
+/** prompts.md section prepended to every prompt (same as FWH.Prompts Get-CcliPrompt). */
+export const SHARED_CONTEXT_SECTION = 'shared-context';
+
+/** Reserved prompts.md sections: not listed as prompts; consumed by the extension itself. */
+export const RESERVED_SECTIONS: readonly string[] = [SHARED_CONTEXT_SECTION];
+
+/** Separator between shared context and prompt body; matches Get-CcliPrompt. */
+export const SHARED_CONTEXT_SEPARATOR = '\n\n---\n\n';
+
+export function isReservedSection(name: string): boolean {
+  return RESERVED_SECTIONS.includes(name.trim().toLowerCase());
+}
+
+const METADATA_LINE_RE = /^[ \t]*<!--\s*fwh:([^\n]*?)-->[ \t]*(?:\r?\n|$)/gim;
+
+/**
+ * Splits `key=value; key2=value2` into [key, value] pairs (keys trimmed, values trimmed). A `;` only ends a value
+ * when a new `key=` follows it, so `Notes=a; b` keeps `a; b`.
+ */
+function splitKeyValuePairs(text: string): [string, string][] {
+  const out: [string, string][] = [];
+  for (const pair of text.split(/;(?=\s*[\w.-]+\s*=)/)) {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) continue;
+    const key = pair.slice(0, eq).trim();
+    if (key) out.push([key, pair.slice(eq + 1).trim()]);
+  }
+  return out;
+}
+
+/**
+ * Strips `<!-- fwh: key=value; key2=value2 -->` lines from a section body and returns them as metadata.
+ * HTML comments keep the metadata out of rendered markdown.
+ */
+export function extractPromptMetadata(text: string): { text: string; metadata: Record<string, string> } {
+  const metadata: Record<string, string> = {};
+  const stripped = text.replace(METADATA_LINE_RE, (_, body: string) => {
+    for (const [key, value] of splitKeyValuePairs(body)) metadata[key.toLowerCase()] = value;
+    return '';
+  });
+  return { text: stripped, metadata };
+}
+
+/** Returns true/false for yes|true|on|1 / no|false|off|0; undefined when the key is absent or unrecognized. */
+export function metadataFlag(metadata: Record<string, string> | undefined, key: string): boolean | undefined {
+  const v = metadata?.[key.toLowerCase()]?.trim().toLowerCase();
+  if (v === undefined) return undefined;
+  if (v === 'yes' || v === 'true' || v === 'on' || v === '1') return true;
+  if (v === 'no' || v === 'false' || v === 'off' || v === '0') return false;
+  return undefined;
+}
+
+/**
+ * Prepends shared context to a prompt. Returns the prompt unchanged when the context is empty or the
+ * prompt already starts with it (CLI.md prompts written by Write-CcliPromptToCli already include it).
+ */
+export function applySharedContext(promptText: string, sharedContext: string | undefined): string {
+  const ctx = (sharedContext ?? '').trim();
+  if (!ctx || promptText.startsWith(ctx)) return promptText;
+  return ctx + SHARED_CONTEXT_SEPARATOR + promptText;
+}
+
+/** Parses every ## section of prompts.md, reserved or not. */
+function parsePromptSections(content: string): ParsedPrompt[] {
   const results: ParsedPrompt[] = [];
   const sections = content.split(/\n---\s*\n/);
 
-  for (const block of sections) {
+  for (const rawBlock of sections) {
+    const { text: block, metadata } = extractPromptMetadata(rawBlock);
     const nameMatch = block.match(/^##\s+([^\n#]+)/m);
     if (!nameMatch) continue;
     const name = nameMatch[1].trim();
     if (!name) continue;
 
+    const bodyStart = (nameMatch.index ?? 0) + nameMatch[0].length;
     const paramsIdx = block.indexOf('### Parameters');
-    let template: string;
-    if (paramsIdx >= 0) {
-      template = block.slice(nameMatch[0].length, paramsIdx).trim();
-    } else {
-      template = block.slice(nameMatch[0].length).trim();
-    }
+    const stepsIdx = block.search(/^###[ \t]+Steps[ \t]*$/m);
+    const ends = [paramsIdx, stepsIdx].filter((i) => i >= 0);
+    const template = (ends.length > 0 ? block.slice(bodyStart, Math.min(...ends)) : block.slice(bodyStart)).trim();
 
     const descMatch = template.match(/^([^\n{]+)/);
     const description = descMatch ? descMatch[1].trim() : '';
 
     const parameters = parseParametersTable(block, paramsIdx);
+    const steps = stepsIdx >= 0 ? parseStepsTable(block, stepsIdx) : undefined;
     const placeholders = new Set<string>();
-    const placeRe = /\{([^}]+)\}/g;
+    const placeRe = /\{([^{}]+)\}/g;
+    const sources = [template, ...(steps ?? []).flatMap((st) => Object.values(st.bindings))];
     let m: RegExpExecArray | null;
-    while ((m = placeRe.exec(template)) !== null) placeholders.add(m[1].trim());
+    for (const text of sources) {
+      while ((m = placeRe.exec(text)) !== null) {
+        const key = m[1].trim();
+        if (CONTEXT_PLACEHOLDER_RE.test(key)) continue;
+        if (!steps || !STEP_OUTPUT_RE.test(key)) placeholders.add(key);
+      }
+    }
     for (const p of placeholders) {
       if (!parameters.some((x) => x.name === p)) {
-        parameters.push({ name: p, description: '', required: false, default: '' });
+        parameters.push({ name: p, description: '', required: false, default: '', type: 'text' });
       }
     }
 
-    results.push({ name, description, template, parameters });
+    results.push({ name, description, template, parameters, metadata, ...(steps ? { steps } : {}) });
   }
   return results;
 }
 
+/**
+ * Parses prompts.md content into a list of prompts with names, descriptions, templates, and parameters.
+ * Format: sections separated by ---, each with ## name, body (template with {Param}), and optional ### Parameters table.
+ * Reserved sections (RESERVED_SECTIONS, e.g. shared-context) are excluded; use parseReservedSections.
+ */
+export function parsePromptsMd(content: string): ParsedPrompt[] {
+  return parsePromptSections(content).filter((p) => !isReservedSection(p.name));
+}
+
+/** Returns the body of each reserved section in prompts.md keyed by lower-cased section name. */
+export function parseReservedSections(content: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const p of parsePromptSections(content)) {
+    const key = p.name.toLowerCase();
+    if (isReservedSection(key) && !(key in out)) out[key] = p.template;
+  }
+  return out;
+}
+
+/** Markdown table rows of the ### subsection starting at idx (up to the next ### heading). */
+function subsectionTableRows(block: string, idx: number): string[] {
+  const after = block.slice(idx);
+  const next = after.slice(3).search(/\n###\s/);
+  return (next >= 0 ? after.slice(0, next + 3) : after).split(/\r?\n/).filter((l) => /^\|.+\|/.test(l));
+}
+
 function parseParametersTable(block: string, paramsSectionIdx: number): ParsedPromptParam[] {
   const out: ParsedPromptParam[] = [];
   if (paramsSectionIdx < 0) return out;
-  const after = block.slice(paramsSectionIdx);
-  const lines = after.split(/\r?\n/).filter((l) => /^\|.+\|/.test(l));
+  const lines = subsectionTableRows(block, paramsSectionIdx);
   let headerDone = false;
   for (const line of lines) {
     const cells = line
@@ -139,14 +439,37 @@ function parseParametersTable(block: string, paramsSectionIdx: number): ParsedPr
     const rawReq = (cells[2] ?? '').trim().toLowerCase();
     const req = rawReq === 'yes' || rawReq === 'true' || rawReq === '1';
     const def = (cells[3] ?? '').trim();
-    if (param) out.push({ name: param, description: desc, required: req, default: def });
+    if (param) out.push({ name: param, description: desc, required: req, default: def, ...parseParamType(cells[4] ?? '') });
+  }
+  return out;
+}
+
+/**
+ * Parses a workflow's ### Steps table: `| Step | Prompt | Mode | Bindings |`. Mode is sequential (default) or
+ * parallel; Bindings is `Key=Value; Key2=Value2` (see splitKeyValuePairs). Rows without a step id or prompt are
+ * skipped.
+ */
+function parseStepsTable(block: string, stepsSectionIdx: number): WorkflowStep[] {
+  const out: WorkflowStep[] = [];
+  for (const line of subsectionTableRows(block, stepsSectionIdx)) {
+    const cells = line
+      .split('|')
+      .map((c) => c.trim())
+      .filter((_, i) => i > 0);
+    const id = cells[0] ?? '';
+    const prompt = cells[1] ?? '';
+    if (!id || !prompt || id.toLowerCase() === 'step' || /^:?-+:?$/.test(id)) continue;
+    const bindings: Record<string, string> = {};
+    for (const [key, value] of splitKeyValuePairs(cells[3] ?? '')) bindings[key] = value;
+    const mode: WorkflowStepMode = (cells[2] ?? '').toLowerCase() === 'parallel' ? 'parallel' : 'sequential';
+    out.push({ id, prompt, mode, bindings });
   }
   return out;
 }
 
 /**
  * Returns unique prompt names from CLI.md ## Prompts section (### Prompt: name (date) blocks).
- * Used when prompts.md is not available.
+ * Used when prompts.md is not available; listPromptRevisions returns the blocks themselves.
  */
 export function listPromptNamesFromCliMd(content: string): string[] {
   const re = /###\s+Prompt:\s+([^\s(]+)\s*\([^)]*\)/gi;
@@ -0,0 +1,63 @@
+/**
+ * Unit tests for the prompt form presets file next to prompts.md.
+ */
+
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parsePresets, presetsFilePath, PRESETS_FILE, readPresets, writePreset } from './presets';
+import { PresetsFileError } from './errors';
+
+describe('presets', () => {
+  let tmp: string;
+  let file: string;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-presets-'));
+    file = presetsFilePath(path.join(tmp, 'prompts.md'));
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
+  });
+
+  it('lives next to prompts.md', () => {
+    assert.strictEqual(file, path.join(tmp, PRESETS_FILE));
+  });
+
+  describe('parsePresets', () => {
+    it('accepts prompt -> preset -> parameter values', () => {
+      const text = '{ "code-review": { "api": { "File": "src/api.ts", "Strict": "Yes" } } }';
+      assert.deepStrictEqual(parsePresets(text), { 'code-review': { api: { File: 'src/api.ts', Strict: 'Yes' } } });
+    });
+
+    it('rejects invalid JSON and values that are not strings', () => {
+      assert.throws(() => parsePresets('{'), PresetsFileError);
+      assert.throws(() => parsePresets('[]'), /must hold an object of prompt names/);
+      assert.throws(() => parsePresets('{ "a": { "p": { "X": 1 } } }'), /preset "p" of "a" must map parameter names to strings/);
+    });
+  });
+
+  describe('writePreset', () => {
+    it('creates the file, keeps other prompts and deletes presets', () => {
+      assert.deepStrictEqual(readPresets(file), {});
+      writePreset(file, 'code-review', 'api', { File: 'src/api.ts' });
+      writePreset(file, 'explain', 'short', { Depth: '1' });
+      assert.deepStrictEqual(writePreset(file, 'code-review', 'ui', { File: 'src/ui.ts' }), {
+        api: { File: 'src/api.ts' },
+        ui: { File: 'src/ui.ts' },
+      });
+      assert.ok(fs.readFileSync(file, 'utf8').startsWith('{\n  "code-review": {\n    "api": {\n'));
+
+      assert.deepStrictEqual(writePreset(file, 'explain', 'short', undefined), {});
+      assert.deepStrictEqual(readPresets(file), { 'code-review': { api: { File: 'src/api.ts' }, ui: { File: 'src/ui.ts' } } });
+    });
+
+    it('does not overwrite an invalid file', () => {
+      fs.writeFileSync(file, '{ broken');
+      assert.throws(() => writePreset(file, 'a', 'p', {}), PresetsFileError);
+      assert.strictEqual(fs.readFileSync(file, 'utf8'), '{ broken');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Named parameter presets for prompt forms, shared through `prompts.presets.json` next to prompts.md:
+ * `{ "<prompt>": { "<preset>": { "<Parameter>": "<value>" } } }`. Uses fs; no vscode dependency.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PresetsFileError } from './errors';
+
+export const PRESETS_FILE = 'prompts.presets.json';
+
+/** Preset name -> parameter values. */
+export type PresetValues = Record<string, Record<string, string>>;
+
+/** Prompt name -> its presets. */
+export type PromptPresets = Record<string, PresetValues>;
+
+export function presetsFilePath(promptsMdPath: string): string {
+  return path.join(path.dirname(promptsMdPath), PRESETS_FILE);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+/** Parses the presets file. Throws PresetsFileError for invalid JSON or a value that is not a string. */
+export function parsePresets(text: string): PromptPresets {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new PresetsFileError(`${PRESETS_FILE} is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!isObject(data)) throw new PresetsFileError(`${PRESETS_FILE} must hold an object of prompt names`);
+  for (const [prompt, presets] of Object.entries(data)) {
+    if (!isObject(presets)) throw new PresetsFileError(`${PRESETS_FILE}: "${prompt}" must hold an object of preset names`);
+    for (const [preset, values] of Object.entries(presets)) {
+      if (!isObject(values) || !Object.values(values).every((v) => typeof v === 'string')) {
+        throw new PresetsFileError(`${PRESETS_FILE}: preset "${preset}" of "${prompt}" must map parameter names to strings`);
+      }
+    }
+  }
+  return data as PromptPresets;
+}
+
+/** Presets of every prompt; empty when the file does not exist. Throws PresetsFileError when it is invalid. */
+export function readPresets(filePath: string): PromptPresets {
+  if (!fs.existsSync(filePath)) return {};
+  return parsePresets(fs.readFileSync(filePath, 'utf8'));
+}
+
+/**
+ * Saves (or, without values, deletes) one preset of a prompt and returns that prompt's presets. The file keeps
+ * its other entries and order, and is written with 2-space indents for readable diffs. Throws PresetsFileError
+ * rather than overwriting an invalid file.
+ */
+export function writePreset(filePath: string, promptName: string, presetName: string, values: Record<string, string> | undefined): PresetValues {
+  const all = readPresets(filePath);
+  const presets = { ...all[promptName] };
+  if (values) presets[presetName] = values;
+  else delete presets[presetName];
+  if (Object.keys(presets).length > 0) all[promptName] = presets;
+  else delete all[promptName];
+  fs.writeFileSync(filePath, JSON.stringify(all, null, 2) + '\n', 'utf8');
+  return presets;
+}
@@ -0,0 +1,45 @@
+/**
+ * Resolves a `prompt <name> [Key=Value ...]` command to the text or workflow it runs. Pure (no fs, no vscode); shared
+ * by CLI.md processing in the extension and fwh-prompts.
+ */
+
+import { listPromptRevisions } from './parser';
+import type { ParsedPrompt, PromptCommand } from './parser';
+import { resolvePromptArgs } from './commands';
+import { CliCommandError } from './errors';
+import { isWorkflow, resolveWorkflowInputs } from './workflow';
+import type { Workflow } from './workflow';
+
+export type ResolvedPromptCommand =
+  | { text: string; def?: ParsedPrompt; revision: string }
+  | { workflow: Workflow; inputs: Record<string, string> };
+
+/**
+ * Without arguments the newest ## Prompts revision of content (CLI.md) wins, then the prompts.md template; with
+ * arguments the prompts.md template is filled. Undefined when neither exists and no arguments were given.
+ * Throws CliCommandError for invalid or missing arguments.
+ */
+export function resolvePromptCommand(
+  content: string,
+  pr: PromptCommand,
+  promptsMd: ParsedPrompt[]
+): ResolvedPromptCommand | undefined {
+  if (pr.invalid) throw new CliCommandError(`Arguments must be Key=Value: ${pr.invalid.join(', ')}`);
+  if (!pr.args) {
+    const newest = listPromptRevisions(content, pr.name)[0];
+    if (newest?.text) return { text: newest.text, revision: `CLI.md ${newest.label}` };
+  }
+  const def = promptsMd.find((p) => p.name === pr.name);
+  if (!def) {
+    if (!pr.args) return undefined;
+    throw new CliCommandError(`Prompt '${pr.name}' not found in prompts.md; Key=Value arguments need a prompts.md template`);
+  }
+  if (isWorkflow(def)) {
+    const w = resolveWorkflowInputs(def, promptsMd, pr.args ?? {});
+    if ('error' in w) throw new CliCommandError(w.error);
+    return { workflow: def, inputs: w.inputs };
+  }
+  const r = resolvePromptArgs(def, pr.args ?? {});
+  if ('error' in r) throw new CliCommandError(r.error);
+  return { text: r.text, def, revision: 'prompts.md' };
+}
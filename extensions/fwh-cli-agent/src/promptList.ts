@@ -0,0 +1,64 @@
+/**
+ * The prompt list of a workspace folder: prompts.md prompts and CLI.md ## Prompts revisions by name. Uses fs; no
+ * vscode dependency (shared by the Prompts view and fwh-prompts).
+ */
+
+import * as fs from 'fs';
+import type { ParsedPrompt, CliPromptRevision } from './parser';
+import { parsePromptsMd, listPromptRevisions, isReservedSection } from './parser';
+
+export interface PromptListItem {
+  name: string;
+  prompt?: ParsedPrompt;
+  /** CLI.md ## Prompts revisions of this prompt, newest first (listPromptRevisions). */
+  revisions: CliPromptRevision[];
+}
+
+/** Loads the prompt list of one workspace folder (by root path). */
+export type LoadPromptListFn = (workspaceRoot: string) => PromptListItem[];
+
+/**
+ * Builds the list from prompts.md (and optionally CLI.md names not in prompts.md).
+ * Reserved sections such as shared-context are not listed. Sync; uses fs. Call from extension with paths from getPromptsMdPath/getCliMdPath.
+ */
+export function loadPromptList(
+  promptsMdPath: string,
+  cliMdPath: string
+): PromptListItem[] {
+  const result: PromptListItem[] = [];
+  const byName = new Map<string, PromptListItem>();
+
+  if (fs.existsSync(promptsMdPath)) {
+    try {
+      const content = fs.readFileSync(promptsMdPath, 'utf8');
+      const parsed = parsePromptsMd(content);
+      for (const p of parsed) {
+        const item: PromptListItem = { name: p.name, prompt: p, revisions: [] };
+        byName.set(p.name, item);
+        result.push(item);
+      }
+    } catch {
+      // ignore
+    }
+  }
+
+  if (fs.existsSync(cliMdPath)) {
+    try {
+      const content = fs.readFileSync(cliMdPath, 'utf8');
+      for (const r of listPromptRevisions(content)) {
+        if (isReservedSection(r.name)) continue;
+        let item = byName.get(r.name);
+        if (!item) {
+          item = { name: r.name, revisions: [] };
+          byName.set(r.name, item);
+          result.push(item);
+        }
+        item.revisions.push(r);
+      }
+    } catch {
+      // ignore
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,211 @@
+/**
+ * Unit tests for prompts.md template authoring: draft checks, section formatting and section edits.
+ */
+
+import { strict as assert } from 'assert';
+import { parsePromptsMd } from './parser';
+import {
+  addPromptSectionEdit,
+  checkPromptTemplate,
+  checkTemplateName,
+  copyName,
+  copyPromptSectionEdit,
+  draftFromPrompt,
+  findPromptHeading,
+  formatPromptSection,
+  removePromptSectionEdit,
+  renamePromptSectionEdit,
+  workflowsUsing,
+} from './promptTemplates';
+import type { PromptTemplateDraft, TextEditSpan } from './promptTemplates';
+
+const apply = (content: string, e: TextEditSpan | undefined) => (e ? content.slice(0, e.start) + e.text + content.slice(e.end) : content);
+
+const PROMPTS_MD = [
+  '# Prompt Templates',
+  '',
+  '## review',
+  '',
+  'Review a file.',
+  '',
+  'Review {File}.',
+  '',
+  '---',
+  '',
+  '## explain',
+  '<!-- fwh: executor=agent-cli -->',
+  '',
+  'Explain code.',
+  '',
+  'Explain {Code} at {Depth} depth.',
+  '',
+  '### Parameters',
+  '',
+  '| Parameter | Description | Required | Default | Type |',
+  '|-----------|-------------|----------|---------|------|',
+  '| Code | the code | Yes | | multiline |',
+  '| Depth | how deep | No | short | enum(short, long) |',
+  '',
+  '---',
+  '',
+  '## pipeline',
+  '',
+  'Review then explain.',
+  '',
+  '### Steps',
+  '',
+  '| Step | Prompt | Mode | Bindings |',
+  '|------|--------|------|----------|',
+  '| r | review | sequential | File=a.cs |',
+  '',
+].join('\n');
+
+function draft(extra: Partial<PromptTemplateDraft> = {}): PromptTemplateDraft {
+  return {
+    name: 'summarize',
+    description: 'Summarize a document.',
+    body: 'Summarize {Doc} in {Words} words.',
+    parameters: [
+      { name: 'Doc', description: 'document', required: true, default: '', type: 'file' },
+      { name: 'Words', description: 'length', required: false, default: '100', type: '' },
+    ],
+    ...extra,
+  };
+}
+
+describe('promptTemplates', () => {
+  const names = parsePromptsMd(PROMPTS_MD).map((p) => p.name);
+
+  describe('checkTemplateName / checkPromptTemplate', () => {
+    it('rejects duplicate names regardless of case, reserved and multi-word names', () => {
+      assert.strictEqual(checkTemplateName('Review', names), "Template 'review' already exists.");
+      assert.strictEqual(checkTemplateName('review', names, 'review'), undefined);
+      assert.strictEqual(checkTemplateName('shared-context', names), "'shared-context' is a reserved section name.");
+      assert.strictEqual(checkTemplateName('two words', names), 'Names are one word without #, {, } or |.');
+      assert.strictEqual(checkTemplateName(' ', names), 'Enter a name.');
+    });
+
+    it('accepts a valid draft', () => {
+      assert.deepStrictEqual(checkPromptTemplate(draft(), names), { errors: [], warnings: [] });
+    });
+
+    it('warns about parameters without placeholders and placeholders without rows', () => {
+      const check = checkPromptTemplate(draft({ body: 'Summarize {Doc} for {Audience}.' }), names);
+      assert.deepStrictEqual(check.errors, []);
+      assert.deepStrictEqual(check.warnings, [
+        'Template does not contain placeholders for: Words',
+        'Placeholders without a Parameters row (optional text parameters): Audience',
+      ]);
+    });
+
+    it('rejects text that would break the section and invalid parameter rows', () => {
+      const check = checkPromptTemplate(
+        draft({
+          description: 'About {Doc}',
+          body: 'First\n---\n### Parameters',
+          parameters: [
+            { name: 'Doc', description: 'a|b', required: true, default: '', type: 'enum' },
+            { name: 'doc', description: '', required: false, default: '', type: 'text' },
+            { name: '', description: '', required: false, default: '', type: 'text' },
+          ],
+        }),
+        names
+      );
+      assert.deepStrictEqual(check.errors, [
+        'The description is one line without {placeholders}.',
+        'The body cannot contain a --- line; it separates templates.',
+        'The body cannot contain ## headings or a ### Parameters/### Steps heading.',
+        "Parameter 'Doc': cells cannot contain | or line breaks.",
+        "Parameter 'Doc': invalid type 'enum' (use text, multiline, enum, boolean, file, folder, glob; enum needs its options).",
+        "Parameter 'doc' is listed twice.",
+        'Parameter row 3 has no name.',
+      ]);
+    });
+  });
+
+  describe('formatPromptSection / draftFromPrompt', () => {
+    it('writes a section parsePromptsMd reads back', () => {
+      const section = formatPromptSection(draft({ metadata: { executor: 'agent-cli' } }));
+      assert.strictEqual(
+        section,
+        [
+          '## summarize',
+          '',
+          '<!-- fwh: executor=agent-cli -->',
+          '',
+          'Summarize a document.',
+          '',
+          'Summarize {Doc} in {Words} words.',
+          '',
+          '### Parameters',
+          '',
+          '| Parameter | Description | Required | Default | Type |',
+          '|-----------|-------------|----------|---------|------|',
+          '| Doc | document | Yes |  | file |',
+          '| Words | length | No | 100 | text |',
+        ].join('\n')
+      );
+      const [p] = parsePromptsMd(section);
+      assert.strictEqual(p.description, 'Summarize a document.');
+      assert.deepStrictEqual(p.metadata, { executor: 'agent-cli' });
+      assert.deepStrictEqual(p.parameters.map((x) => [x.name, x.required, x.default, x.type]), [
+        ['Doc', true, '', 'file'],
+        ['Words', false, '100', 'text'],
+      ]);
+    });
+
+    it('drafts a copy with the description split off and types kept', () => {
+      const explain = parsePromptsMd(PROMPTS_MD).find((p) => p.name === 'explain')!;
+      const d = draftFromPrompt(explain, copyName('explain', names));
+      assert.strictEqual(d.name, 'explain-copy');
+      assert.strictEqual(d.description, 'Explain code.');
+      assert.strictEqual(d.body, 'Explain {Code} at {Depth} depth.');
+      assert.deepStrictEqual(d.parameters.map((p) => p.type), ['multiline', 'enum(short, long)']);
+      assert.deepStrictEqual(d.metadata, { executor: 'agent-cli' });
+      assert.deepStrictEqual(checkPromptTemplate(d, names).errors, []);
+    });
+
+    it('numbers copies until the name is free', () => {
+      assert.strictEqual(copyName('review', [...names, 'Review-Copy']), 'review-copy-2');
+    });
+  });
+
+  describe('section edits', () => {
+    it('appends at the end or after a section', () => {
+      const appended = apply(PROMPTS_MD, addPromptSectionEdit(PROMPTS_MD, '## new\n\nNew.'));
+      assert.ok(appended.endsWith('| r | review | sequential | File=a.cs |\n\n---\n\n## new\n\nNew.\n'));
+      const after = apply(PROMPTS_MD, addPromptSectionEdit(PROMPTS_MD, '## new\n\nNew.', 'review'));
+      assert.ok(after.includes('Review {File}.\n\n---\n\n## new\n\nNew.\n\n---\n\n## explain'));
+      assert.deepStrictEqual(parsePromptsMd(after).map((p) => p.name), ['review', 'new', 'explain', 'pipeline']);
+      assert.strictEqual(apply('', addPromptSectionEdit('', '## new\n\nNew.')), '## new\n\nNew.\n');
+    });
+
+    it('renames a heading and copies a section verbatim', () => {
+      const renamed = apply(PROMPTS_MD, renamePromptSectionEdit(PROMPTS_MD, 'explain', 'describe'));
+      assert.ok(renamed.includes('\n## describe\n<!-- fwh: executor=agent-cli -->'));
+      assert.deepStrictEqual(findPromptHeading(renamed, 'describe'), { start: renamed.indexOf('describe'), end: renamed.indexOf('describe') + 8 });
+      assert.strictEqual(renamePromptSectionEdit(PROMPTS_MD, 'missing', 'x'), undefined);
+
+      const review = apply(PROMPTS_MD, copyPromptSectionEdit(PROMPTS_MD, 'review', 'review-copy'));
+      assert.ok(review.includes('Review {File}.\n\n---\n\n## review-copy\n\nReview a file.'));
+      assert.strictEqual(review.split('# Prompt Templates').length, 2);
+
+      const copied = apply(PROMPTS_MD, copyPromptSectionEdit(PROMPTS_MD, 'pipeline', 'pipeline-copy'));
+      const prompts = parsePromptsMd(copied);
+      assert.deepStrictEqual(prompts.map((p) => p.name), ['review', 'explain', 'pipeline', 'pipeline-copy']);
+      assert.deepStrictEqual(prompts[3].steps, prompts[2].steps);
+      assert.deepStrictEqual(workflowsUsing(prompts, 'review'), ['pipeline', 'pipeline-copy']);
+    });
+
+    it('removes a section with one separator', () => {
+      const middle = apply(PROMPTS_MD, removePromptSectionEdit(PROMPTS_MD, 'explain'));
+      assert.ok(middle.includes('Review {File}.\n\n---\n\n## pipeline'));
+      const last = apply(PROMPTS_MD, removePromptSectionEdit(PROMPTS_MD, 'pipeline'));
+      assert.ok(last.endsWith('| Depth | how deep | No | short | enum(short, long) |\n'));
+      const first = apply(PROMPTS_MD, removePromptSectionEdit(PROMPTS_MD, 'review'));
+      assert.ok(first.startsWith('# Prompt Templates\n\n## explain'));
+      assert.deepStrictEqual(parsePromptsMd(first).map((p) => p.name), ['explain', 'pipeline']);
+      assert.strictEqual(removePromptSectionEdit(PROMPTS_MD, 'missing'), undefined);
+    });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Authoring prompts.md templates: validates a template draft the way FWH.Prompts New-CcliPromptTemplate does,
+ * formats it as a `---`-separated section and computes the text edits that add, rename or remove sections.
+ * No vscode dependency; offsets index the prompts.md text.
+ */
+
+import { CONTEXT_PLACEHOLDER_RE, isReservedSection, parseParamType, PARAM_TYPES } from './parser';
+import type { ParsedPrompt, ParsedPromptParam } from './parser';
+
+/** One row of the draft's ### Parameters table. type is the raw Type cell, e.g. `enum(a, b)`. */
+export interface TemplateParamDraft {
+  name: string;
+  description: string;
+  required: boolean;
+  default: string;
+  type: string;
+}
+
+export interface PromptTemplateDraft {
+  name: string;
+  /** One line; becomes the first line of the section (the prompt's description). */
+  description: string;
+  body: string;
+  parameters: TemplateParamDraft[];
+  /** `<!-- fwh: key=value -->` metadata, kept when a prompt is duplicated. */
+  metadata?: Record<string, string>;
+}
+
+/** errors block saving; warnings (New-CcliPromptTemplate Write-Warning) do not. */
+export interface TemplateDraftCheck {
+  errors: string[];
+  warnings: string[];
+}
+
+/** Replace [start, end) with text. */
+export interface TextEditSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export const SECTION_SEPARATOR = '\n\n---\n\n';
+
+const SEPARATOR_RE = /\n---\s*\n/g;
+const HEADING_RE = /^##[ \t]+([^\n#]+)/m;
+const PLACEHOLDER_RE = /\{([^{}]+)\}/g;
+
+/**
+ * Problem with a prompt name, or undefined. Names are one word (they follow `prompt` in ```cli blocks) and, like
+ * the FWH.Prompts hashtable, unique regardless of case. except is the name being renamed.
+ */
+export function checkTemplateName(name: string, existingNames: readonly string[], except?: string): string | undefined {
+  const n = name.trim();
+  if (!n) return 'Enter a name.';
+  if (/[\s#{}|]/.test(n)) return 'Names are one word without #, {, } or |.';
+  if (isReservedSection(n)) return `'${n}' is a reserved section name.`;
+  const taken = existingNames.find((e) => e.toLowerCase() === n.toLowerCase() && e !== except);
+  if (taken) return `Template '${taken}' already exists.`;
+  return undefined;
+}
+
+function placeholdersOf(text: string): string[] {
+  const names: string[] = [];
+  for (const m of text.matchAll(PLACEHOLDER_RE)) {
+    const n = m[1].trim();
+    if (n && !names.includes(n)) names.push(n);
+  }
+  return names;
+}
+
+function isValidTypeCell(cell: string): boolean {
+  const t = cell.trim();
+  if (!t) return true;
+  const base = /^([a-z]+)/i.exec(t)?.[1].toLowerCase() ?? '';
+  return PARAM_TYPES.includes(base as ParsedPromptParam['type']) && parseParamType(t).type === base;
+}
+
+/**
+ * Checks a draft before it is written. Errors: invalid or duplicate name, missing description or body, text that
+ * would break the section (`---` lines, ## headings, a `### Parameters`/`### Steps` heading in the body, `|` or
+ * line breaks in table cells) and invalid parameter rows. Warnings: parameters the body has no `{placeholder}` for
+ * (New-CcliPromptTemplate's warning) and placeholders without a Parameters row.
+ */
+export function checkPromptTemplate(draft: PromptTemplateDraft, existingNames: readonly string[], except?: string): TemplateDraftCheck {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const nameProblem = checkTemplateName(draft.name, existingNames, except);
+  if (nameProblem) errors.push(nameProblem);
+
+  const description = draft.description.trim();
+  if (!description) errors.push('Enter a description.');
+  else if (/[\n{}]/.test(description)) errors.push('The description is one line without {placeholders}.');
+  if (!draft.body.trim()) errors.push('Enter the template body.');
+  const lines = draft.body.split(/\r?\n/);
+  if (lines.some((l) => /^---\s*$/.test(l))) errors.push('The body cannot contain a --- line; it separates templates.');
+  if (lines.some((l) => /^##[ \t]/.test(l) || /^###[ \t]+(Parameters|Steps)\b/.test(l))) {
+    errors.push('The body cannot contain ## headings or a ### Parameters/### Steps heading.');
+  }
+
+  const seen = new Set<string>();
+  draft.parameters.forEach((p, i) => {
+    const label = p.name.trim() || `row ${i + 1}`;
+    if (!p.name.trim()) errors.push(`Parameter row ${i + 1} has no name.`);
+    else if (/[\s{}|]/.test(p.name.trim())) errors.push(`Parameter '${label}': names are one word without {, } or |.`);
+    else if (seen.has(p.name.trim().toLowerCase())) errors.push(`Parameter '${label}' is listed twice.`);
+    seen.add(p.name.trim().toLowerCase());
+    if ([p.description, p.default, p.type].some((c) => /[|\n]/.test(c))) errors.push(`Parameter '${label}': cells cannot contain | or line breaks.`);
+    if (!isValidTypeCell(p.type)) errors.push(`Parameter '${label}': invalid type '${p.type.trim()}' (use ${PARAM_TYPES.join(', ')}; enum needs its options).`);
+  });
+
+  const used = placeholdersOf(draft.body);
+  const missing = draft.parameters.map((p) => p.name.trim()).filter((n) => n && !used.includes(n));
+  if (missing.length > 0) warnings.push(`Template does not contain placeholders for: ${missing.join(', ')}`);
+  const unlisted = used.filter((n) => !seen.has(n.toLowerCase()) && !CONTEXT_PLACEHOLDER_RE.test(n));
+  if (unlisted.length > 0) warnings.push(`Placeholders without a Parameters row (optional text parameters): ${unlisted.join(', ')}`);
+  return { errors, warnings };
+}
+
+/** Type cell for a parsed parameter: `enum(a, b)`, `boolean(Yes, No)` or the type. */
+export function formatTypeCell(p: ParsedPromptParam): string {
+  return p.options?.length ? `${p.type}(${p.options.join(', ')})` : p.type;
+}
+
+/** The draft as a prompts.md section (without separators), laid out like the sections FWH.Prompts ships. */
+export function formatPromptSection(draft: PromptTemplateDraft): string {
+  const lines = [`## ${draft.name.trim()}`, ''];
+  const metadata = Object.entries(draft.metadata ?? {});
+  if (metadata.length > 0) lines.push(`<!-- fwh: ${metadata.map(([k, v]) => `${k}=${v}`).join('; ')} -->`, '');
+  lines.push(draft.description.trim(), '', draft.body.replace(/\r\n/g, '\n').trim());
+  if (draft.parameters.length > 0) {
+    lines.push('', '### Parameters', '', '| Parameter | Description | Required | Default | Type |', '|-----------|-------------|----------|---------|------|');
+    for (const p of draft.parameters) {
+      lines.push(`| ${p.name.trim()} | ${p.description.trim()} | ${p.required ? 'Yes' : 'No'} | ${p.default.trim()} | ${p.type.trim() || 'text'} |`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Draft of a copy of prompt named name: the description line is split off the template, parameters keep their
+ * rows and types, metadata is kept.
+ */
+export function draftFromPrompt(prompt: ParsedPrompt, name: string): PromptTemplateDraft {
+  const [first, ...rest] = prompt.template.split('\n');
+  const body = prompt.description && first.trim() === prompt.description ? rest.join('\n').trim() : prompt.template;
+  return {
+    name,
+    description: prompt.description,
+    body,
+    parameters: prompt.parameters.map((p) => ({
+      name: p.name,
+      description: p.description,
+      required: p.required,
+      default: p.default,
+      type: formatTypeCell(p),
+    })),
+    metadata: { ...prompt.metadata },
+  };
+}
+
+/** First name not taken (case-insensitively): `<name>-copy`, `<name>-copy-2`, ... */
+export function copyName(name: string, existingNames: readonly string[]): string {
+  const taken = new Set(existingNames.map((n) => n.toLowerCase()));
+  let candidate = `${name}-copy`;
+  for (let i = 2; taken.has(candidate.toLowerCase()); i++) candidate = `${name}-copy-${i}`;
+  return candidate;
+}
+
+interface PromptBlock {
+  from: number;
+  to: number;
+  name?: string;
+  /** Start of the `## name` line; text before it (the file's title in the first block) is not the section's. */
+  headingStart: number;
+  nameStart: number;
+}
+
+/** `---`-separated blocks of prompts.md as parsePromptsMd splits them, with each block's `## name`. */
+function promptBlocks(content: string): PromptBlock[] {
+  const bounds: { from: number; to: number }[] = [];
+  let prev = 0;
+  for (const m of content.matchAll(SEPARATOR_RE)) {
+    bounds.push({ from: prev, to: m.index ?? 0 });
+    prev = (m.index ?? 0) + m[0].length;
+  }
+  bounds.push({ from: prev, to: content.length });
+  return bounds.map((b) => {
+    const h = HEADING_RE.exec(content.slice(b.from, b.to));
+    if (!h) return { ...b, headingStart: -1, nameStart: -1 };
+    const name = h[1].trim();
+    const headingStart = b.from + (h.index ?? 0);
+    return { ...b, name, headingStart, nameStart: headingStart + h[0].indexOf(h[1]) + (h[1].length - h[1].trimStart().length) };
+  });
+}
+
+/** Offsets of the `## name` text of a section; undefined when prompts.md has no such section. */
+export function findPromptHeading(content: string, name: string): { start: number; end: number } | undefined {
+  const b = promptBlocks(content).find((x) => x.name === name);
+  return b ? { start: b.nameStart, end: b.nameStart + name.length } : undefined;
+}
+
+/** Adds section after the section named after (else at the end of prompts.md), separated by `---`. */
+export function addPromptSectionEdit(content: string, section: string, after?: string): TextEditSpan {
+  const b = after !== undefined ? promptBlocks(content).find((x) => x.name === after) : undefined;
+  if (b) {
+    const end = b.from + content.slice(b.from, b.to).replace(/\s+$/, '').length;
+    return { start: end, end: b.to, text: SECTION_SEPARATOR + section + '\n' };
+  }
+  const trimmed = content.replace(/\s+$/, '');
+  return { start: trimmed.length, end: content.length, text: (trimmed ? SECTION_SEPARATOR : '') + section + '\n' };
+}
+
+/** Renames the `## name` heading of a section; undefined when there is no such section. */
+export function renamePromptSectionEdit(content: string, name: string, newName: string): TextEditSpan | undefined {
+  const h = findPromptHeading(content, name);
+  return h && { ...h, text: newName.trim() };
+}
+
+/** Removes a section with one of its `---` separators; undefined when there is no such section. */
+export function removePromptSectionEdit(content: string, name: string): TextEditSpan | undefined {
+  const blocks = promptBlocks(content);
+  const i = blocks.findIndex((x) => x.name === name);
+  if (i < 0) return undefined;
+  const b = blocks[i];
+  if (i + 1 < blocks.length) return { start: b.headingStart, end: blocks[i + 1].from, text: '' };
+  // The last section: drop the separator before it, keeping the file's final newline.
+  if (i > 0 && !content.slice(b.from, b.headingStart).trim()) {
+    const prev = blocks[i - 1];
+    const start = prev.from + content.slice(prev.from, prev.to).replace(/\s+$/, '').length;
+    return { start, end: content.length, text: /\n$/.test(content) ? '\n' : '' };
+  }
+  return { start: b.headingStart, end: content.length, text: '' };
+}
+
+/** Names of the workflows whose ### Steps run the prompt. */
+export function workflowsUsing(prompts: readonly ParsedPrompt[], name: string): string[] {
+  return prompts.filter((p) => p.steps?.some((s) => s.prompt === name)).map((p) => p.name);
+}
+
+/**
+ * Adds a verbatim copy of a section (its ### Steps, metadata and all) named newName right after it; undefined when
+ * there is no such section. Used for workflows, which the template form cannot edit.
+ */
+export function copyPromptSectionEdit(content: string, name: string, newName: string): TextEditSpan | undefined {
+  const b = promptBlocks(content).find((x) => x.name === name);
+  if (!b) return undefined;
+  const copy = (content.slice(b.headingStart, b.nameStart) + newName.trim() + content.slice(b.nameStart + name.length, b.to)).trim();
+  return addPromptSectionEdit(content, copy, name);
+}
@@ -0,0 +1,134 @@
+/**
+ * Editor support for the workspace prompts.md: Problems diagnostics (lintPromptsMd), `{Param}` completion,
+ * parameter and context placeholder hovers, and Run / Open form CodeLenses above each `## name` heading.
+ */
+
+import * as vscode from 'vscode';
+import { lintPromptsMd, placeholderAt, placeholderPrefixAt, scanPromptsMd, sectionAtLine } from './promptsMdLint';
+import type { LintSeverity, PromptsMdSection } from './promptsMdLint';
+import { parsePromptsMd, STEP_OUTPUT_RE } from './parser';
+import { describeContextPlaceholder } from './workspaceContext';
+
+/** CodeLens commands; both take the prompts.md URI and the prompt name. */
+export const RUN_PROMPTS_MD_PROMPT_COMMAND = 'fwhCliAgent.runPromptsMdPrompt';
+export const OPEN_PROMPTS_MD_FORM_COMMAND = 'fwhCliAgent.openPromptsMdPromptForm';
+
+const SEVERITIES: Record<LintSeverity, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+};
+
+/** Registers the providers for documents accepted by isPromptsMd (the configured prompts.md of a workspace folder). */
+export class PromptsMdLanguageFeatures implements vscode.Disposable {
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection('fwh-prompts-md');
+  private readonly disposables: vscode.Disposable[] = [this.diagnostics];
+
+  constructor(private readonly isPromptsMd: (doc: vscode.TextDocument) => boolean) {
+    const selector: vscode.DocumentSelector = { language: 'markdown', scheme: 'file' };
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument((d) => this.lint(d)),
+      vscode.workspace.onDidChangeTextDocument((e) => this.lint(e.document)),
+      vscode.workspace.onDidCloseTextDocument((d) => this.diagnostics.delete(d.uri)),
+      vscode.languages.registerCodeLensProvider(selector, { provideCodeLenses: (d) => this.codeLenses(d) }),
+      vscode.languages.registerCompletionItemProvider(selector, { provideCompletionItems: (d, p) => this.completions(d, p) }, '{'),
+      vscode.languages.registerHoverProvider(selector, { provideHover: (d, p) => this.hover(d, p) })
+    );
+    this.refresh();
+  }
+
+  /** Re-lints every open document, e.g. after PromptsMdPath changed. */
+  refresh(): void {
+    this.diagnostics.clear();
+    for (const d of vscode.workspace.textDocuments) this.lint(d);
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) d.dispose();
+  }
+
+  private lint(doc: vscode.TextDocument): void {
+    if (!this.isPromptsMd(doc)) return;
+    this.diagnostics.set(
+      doc.uri,
+      lintPromptsMd(doc.getText()).map((i) => {
+        const d = new vscode.Diagnostic(new vscode.Range(i.line, i.start, i.line, Math.max(i.end, i.start + 1)), i.message, SEVERITIES[i.severity]);
+        d.source = 'FWH CLI Agent';
+        return d;
+      })
+    );
+  }
+
+  private section(doc: vscode.TextDocument, line: number): PromptsMdSection | undefined {
+    if (!this.isPromptsMd(doc)) return undefined;
+    const s = sectionAtLine(scanPromptsMd(doc.getText()), line);
+    return s && !s.reserved ? s : undefined;
+  }
+
+  private codeLenses(doc: vscode.TextDocument): vscode.CodeLens[] {
+    if (!this.isPromptsMd(doc)) return [];
+    return scanPromptsMd(doc.getText())
+      .filter((s) => !s.reserved)
+      .flatMap((s) => {
+        const range = new vscode.Range(s.headingLine, 0, s.headingLine, 0);
+        return [
+          new vscode.CodeLens(range, { title: '$(play) Run', command: RUN_PROMPTS_MD_PROMPT_COMMAND, arguments: [doc.uri, s.name] }),
+          new vscode.CodeLens(range, { title: 'Open form', command: OPEN_PROMPTS_MD_FORM_COMMAND, arguments: [doc.uri, s.name] }),
+        ];
+      });
+  }
+
+  /** Parameter names of the section (and `steps.<id>.output` in workflows) after an unclosed `{`. */
+  private completions(doc: vscode.TextDocument, pos: vscode.Position): vscode.CompletionItem[] {
+    const s = this.section(doc, pos.line);
+    const lineText = doc.lineAt(pos.line).text;
+    const at = s && placeholderPrefixAt(lineText, pos.character);
+    if (!s || !at) return [];
+    const range = new vscode.Range(pos.line, at.start, pos.line, pos.character);
+    const close = lineText[pos.character] === '}' ? '' : '}';
+    const items = s.parameters
+      .filter((p) => p.parsed)
+      .map((p) => {
+        const item = new vscode.CompletionItem(p.name, vscode.CompletionItemKind.Variable);
+        item.detail = p.description || undefined;
+        item.documentation = new vscode.MarkdownString(parameterDetails(p.required, p.default, p.type));
+        item.insertText = p.name + close;
+        item.range = range;
+        return item;
+      });
+    for (const step of parsePromptsMd(s.text)[0]?.steps ?? []) {
+      const item = new vscode.CompletionItem(`steps.${step.id}.output`, vscode.CompletionItemKind.Reference);
+      item.detail = `Output of step ${step.id} (${step.prompt})`;
+      item.insertText = `steps.${step.id}.output${close}`;
+      item.range = range;
+      items.push(item);
+    }
+    return items;
+  }
+
+  private hover(doc: vscode.TextDocument, pos: vscode.Position): vscode.Hover | undefined {
+    const s = this.section(doc, pos.line);
+    const ph = s && placeholderAt(doc.lineAt(pos.line).text, pos.character);
+    if (!s || !ph) return undefined;
+    const range = new vscode.Range(pos.line, ph.start, pos.line, ph.end);
+    const step = s.stepsLine !== undefined ? STEP_OUTPUT_RE.exec(ph.name) : null;
+    if (step) return new vscode.Hover(new vscode.MarkdownString(`Captured output of workflow step \`${step[1]}\``), range);
+    const p = s.parameters.find((x) => x.parsed && x.name === ph.name);
+    const md = new vscode.MarkdownString(`**{${ph.name}}**`);
+    const context = p ? undefined : describeContextPlaceholder(ph.name);
+    if (context) md.appendMarkdown(`\n\nWorkspace context, filled when the prompt runs. ${context}`);
+    else if (!p) md.appendMarkdown(`\n\nNot in the \`### Parameters\` table of **${s.name}**; filled as optional text.`);
+    else {
+      if (p.description) md.appendMarkdown(`\n\n${p.description}`);
+      md.appendMarkdown(`\n\n${parameterDetails(p.required, p.default, p.type)}`);
+    }
+    return new vscode.Hover(md, range);
+  }
+}
+
+function parameterDetails(required: boolean, def: string, type: string): string {
+  const parts = [required ? 'Required' : 'Optional'];
+  if (def && def !== '-') parts.push(`default \`${def}\``);
+  if (type) parts.push(`type \`${type}\``);
+  return parts.join(' · ');
+}
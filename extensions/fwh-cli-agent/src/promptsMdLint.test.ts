@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the prompts.md editor view: section scanning, lint issues and placeholder lookup.
+ */
+
+import { strict as assert } from 'assert';
+import { lintPromptsMd, placeholderAt, placeholderPrefixAt, scanPromptsMd, sectionAtLine } from './promptsMdLint';
+
+const md = [
+  '# Prompt Templates', // 0
+  '', // 1
+  '## shared-context', // 2
+  'Be {terse}.', // 3
+  '', // 4
+  '---', // 5
+  '', // 6
+  '## review', // 7
+  'Review {Code} in {Lang} for {Focus}.', // 8
+  '', // 9
+  '### Parameters', // 10
+  '| Parameter | Description | Required | Default | Type |', // 11
+  '|-----------|-------------|----------|---------|------|', // 12
+  '| Code | code to review | Yes | | multiline |', // 13
+  '| Lang | language | No | C# | colour |', // 14
+  '| Unused | never used | No | x |', // 15
+  '| Short | two |', // 16
+  '| Lang | again | No | | |', // 17
+  '', // 18
+  '---', // 19
+  '', // 20
+  '## review', // 21
+  'Duplicate.', // 22
+].join('\n');
+
+describe('promptsMdLint', () => {
+  describe('scanPromptsMd', () => {
+    it('locates sections, headings, parameter rows and placeholders', () => {
+      const sections = scanPromptsMd(md);
+      assert.deepStrictEqual(
+        sections.map((s) => [s.name, s.reserved, s.startLine, s.endLine, s.headingLine, s.nameStart, s.parametersLine]),
+        [
+          ['shared-context', true, 0, 5, 2, 3, undefined],
+          ['review', false, 7, 19, 7, 3, 10],
+          ['review', false, 21, 23, 21, 3, undefined],
+        ]
+      );
+      const review = sections[1];
+      assert.deepStrictEqual(review.parameters.map((p) => [p.name, p.columns, p.parsed, p.line, p.start, p.end]), [
+        ['Code', 5, true, 13, 2, 6],
+        ['Lang', 5, true, 14, 2, 6],
+        ['Unused', 4, true, 15, 2, 8],
+        ['Short', 2, false, 16, 2, 7],
+        ['Lang', 5, true, 17, 2, 6],
+      ]);
+      assert.deepStrictEqual(review.placeholders, [
+        { name: 'Code', line: 8, start: 8, end: 12 },
+        { name: 'Lang', line: 8, start: 18, end: 22 },
+        { name: 'Focus', line: 8, start: 29, end: 34 },
+      ]);
+      assert.strictEqual(sectionAtLine(sections, 9), review);
+    });
+
+    it('handles CRLF line endings', () => {
+      const [s] = scanPromptsMd('## a\r\nDo {X}.\r\n### Parameters\r\n| X | x | No | |\r\n');
+      assert.deepStrictEqual(
+        [s.headingLine, s.parametersLine, s.parameters[0].name, s.placeholders[0]],
+        [0, 2, 'X', { name: 'X', line: 1, start: 4, end: 5 }]
+      );
+    });
+  });
+
+  describe('lintPromptsMd', () => {
+    it('reports the problems parsePromptsMd tolerates', () => {
+      const issues = lintPromptsMd(md).map((i) => [i.line, i.severity, i.message]);
+      assert.deepStrictEqual(issues, [
+        [14, 'warning', "Unknown type 'colour' for 'Lang'; it is treated as text. Use text, multiline, enum, boolean, file, folder, glob, enum(a, b) or boolean(Yes, No)."],
+        [16, 'warning', 'Parameter row has 2 of 4 columns (Parameter | Description | Required | Default); it is ignored.'],
+        [17, 'warning', "Parameter 'Lang' is listed more than once."],
+        [8, 'warning', 'Placeholder {Focus} is not in the ### Parameters table; it is filled as optional text without a description.'],
+        [15, 'information', "Parameter 'Unused' is not used in the template."],
+        [21, 'error', "Duplicate prompt name 'review' (first on line 8); only the first is used."],
+      ]);
+    });
+
+    it('accepts three-column rows but warns about the missing Default', () => {
+      const issues = lintPromptsMd('## a\n{X}\n### Parameters\n| X | x | No |');
+      assert.deepStrictEqual(issues.map((i) => i.message), ['Parameter row has 3 of 4 columns (Parameter | Description | Required | Default).']);
+    });
+
+    it('accepts workspace context placeholders but warns about paths outside the folder', () => {
+      const issues = lintPromptsMd('## a\nFix {file:src/a.ts}, {glob:**/*.cs}, {selection} and {env:HOME}.\nNot {file:../secret.txt}.');
+      assert.deepStrictEqual(issues.map((i) => [i.line, i.start, i.message]), [
+        [2, 5, '{file:../secret.txt} points outside the workspace folder; only files under the folder are inserted.'],
+      ]);
+    });
+
+    it('accepts step outputs in workflows and reports invalid workflows on ### Steps', () => {
+      const wf = [
+        '## lint',
+        'Lint {Path}.',
+        '### Parameters',
+        '| Path | folder | No | . |',
+        '---',
+        '## flow',
+        'Run.',
+        '### Steps',
+        '| Step | Prompt | Mode | Bindings |',
+        '| a | lint | | Path={Dir} |',
+        '| b | missing | | Path={steps.a.output} |',
+        '### Parameters',
+        '| Parameter | Description | Required | Default |',
+        '| Dir | folder | No | src |',
+      ].join('\n');
+      assert.deepStrictEqual(
+        lintPromptsMd(wf).map((i) => [i.line, i.severity, i.message]),
+        [[7, 'error', "Step 'b': prompt 'missing' not found in prompts.md"]]
+      );
+    });
+
+    it('is quiet for a clean file', () => {
+      const clean = '## a\nDo {X}.\n### Parameters\n| Parameter | Description | Required | Default |\n|---|---|---|---|\n| X | x | No | |';
+      assert.deepStrictEqual(lintPromptsMd(clean), []);
+    });
+  });
+
+  describe('placeholder lookup', () => {
+    it('finds the prefix after an unclosed brace', () => {
+      assert.deepStrictEqual(placeholderPrefixAt('Review {Co', 10), { prefix: 'Co', start: 8 });
+      assert.deepStrictEqual(placeholderPrefixAt('Review {', 8), { prefix: '', start: 8 });
+      assert.strictEqual(placeholderPrefixAt('Review {Code} now', 15), undefined);
+      assert.strictEqual(placeholderPrefixAt('no brace', 4), undefined);
+    });
+
+    it('finds the placeholder under the cursor', () => {
+      assert.deepStrictEqual(placeholderAt('Review { Code } now', 10), { name: 'Code', start: 7, end: 15 });
+      assert.strictEqual(placeholderAt('Review { Code } now', 17), undefined);
+    });
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Line-level view of prompts.md for the editor: sections with the positions of their headings, parameter rows and
+ * placeholders, and the problems parsePromptsMd silently tolerates. No vscode dependency; positions are 0-based
+ * line/character like vscode.Position.
+ */
+
+import { CONTEXT_PLACEHOLDER_RE, isReservedSection, parseParamType, parsePromptsMd, PARAM_TYPES, STEP_OUTPUT_RE } from './parser';
+import { isWorkflow, validateWorkflow } from './workflow';
+
+export type LintSeverity = 'error' | 'warning' | 'information';
+
+/** A problem at line, characters [start, end). */
+export interface LintIssue {
+  line: number;
+  start: number;
+  end: number;
+  message: string;
+  severity: LintSeverity;
+}
+
+/** A `{Name}` in a template or binding; start/end span the name without braces. */
+export interface PlaceholderRef {
+  name: string;
+  line: number;
+  start: number;
+  end: number;
+}
+
+/** One data row of a ### Parameters table. */
+export interface ParameterRow {
+  name: string;
+  description: string;
+  required: boolean;
+  default: string;
+  /** Raw Type cell ('' when absent). */
+  type: string;
+  line: number;
+  start: number;
+  end: number;
+  /** Cells between the outer pipes. */
+  columns: number;
+  /** False when parsePromptsMd skips the row (fewer than 4 cells or no name). */
+  parsed: boolean;
+}
+
+export interface PromptsMdSection {
+  name: string;
+  reserved: boolean;
+  /** First and (exclusive) last line of the `---`-separated block. */
+  startLine: number;
+  endLine: number;
+  headingLine: number;
+  nameStart: number;
+  nameEnd: number;
+  parametersLine?: number;
+  stepsLine?: number;
+  parameters: ParameterRow[];
+  /** Placeholders in the template and in ### Steps bindings. */
+  placeholders: PlaceholderRef[];
+  /** The block's text, as parsePromptsMd sees it. */
+  text: string;
+}
+
+const SEPARATOR_RE = /\n---\s*\n/g;
+const HEADING_RE = /^##\s+([^\n#]+)/;
+const SUBSECTION_RE = /^###\s/;
+const PLACEHOLDER_RE = /\{([^{}]+)\}/g;
+
+function lineOf(lineStarts: number[], offset: number): number {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/** Cells of a table row without the outer pipes, trimmed, with the character offset of each. */
+function tableCells(line: string): { text: string; start: number; end: number }[] {
+  const cells: { text: string; start: number; end: number }[] = [];
+  const inner = line.replace(/\s*\|?\s*$/, '');
+  let pos = line.indexOf('|') + 1;
+  while (pos <= inner.length) {
+    const bar = inner.indexOf('|', pos);
+    const raw = inner.slice(pos, bar < 0 ? inner.length : bar);
+    const lead = raw.length - raw.trimStart().length;
+    cells.push({ text: raw.trim(), start: pos + lead, end: pos + lead + raw.trim().length });
+    if (bar < 0) break;
+    pos = bar + 1;
+  }
+  return cells;
+}
+
+function placeholdersIn(lines: string[], from: number, to: number): PlaceholderRef[] {
+  const out: PlaceholderRef[] = [];
+  for (let i = from; i < to; i++) {
+    for (const m of lines[i].matchAll(PLACEHOLDER_RE)) {
+      const name = m[1].trim();
+      if (!name) continue;
+      const start = (m.index ?? 0) + 1 + (m[1].length - m[1].trimStart().length);
+      out.push({ name, line: i, start, end: start + name.length });
+    }
+  }
+  return out;
+}
+
+/** Splits prompts.md like parsePromptsMd (blocks between `---` lines, each with a `## name`) and locates each part. */
+export function scanPromptsMd(content: string): PromptsMdSection[] {
+  const lines = content.split('\n').map((l) => l.replace(/\r$/, ''));
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) if (content[i] === '\n') lineStarts.push(i + 1);
+
+  const blocks: { from: number; to: number }[] = [];
+  let prev = 0;
+  for (const m of content.matchAll(SEPARATOR_RE)) {
+    blocks.push({ from: prev, to: m.index ?? 0 });
+    prev = (m.index ?? 0) + m[0].length;
+  }
+  blocks.push({ from: prev, to: content.length });
+
+  const sections: PromptsMdSection[] = [];
+  for (const b of blocks) {
+    const startLine = lineOf(lineStarts, b.from);
+    const endLine = b.to >= content.length ? lines.length : lineOf(lineStarts, b.to) + 1;
+    const headingLine = lines.slice(startLine, endLine).findIndex((l) => HEADING_RE.test(l));
+    if (headingLine < 0) continue;
+    const hl = startLine + headingLine;
+    const raw = HEADING_RE.exec(lines[hl])?.[1] ?? '';
+    const name = raw.trim();
+    if (!name) continue;
+    const nameStart = lines[hl].indexOf(raw) + (raw.length - raw.trimStart().length);
+
+    const find = (re: RegExp) => {
+      for (let i = hl + 1; i < endLine; i++) if (re.test(lines[i])) return i;
+      return undefined;
+    };
+    const subsectionEnd = (from: number) => {
+      for (let i = from + 1; i < endLine; i++) if (SUBSECTION_RE.test(lines[i])) return i;
+      return endLine;
+    };
+    const parametersLine = find(/^###\s+Parameters/);
+    const stepsLine = find(/^###[ \t]+Steps[ \t]*$/);
+    const templateEnd = Math.min(parametersLine ?? endLine, stepsLine ?? endLine);
+
+    const parameters: ParameterRow[] = [];
+    if (parametersLine !== undefined) {
+      for (let i = parametersLine + 1; i < subsectionEnd(parametersLine); i++) {
+        if (!/^\|.+\|/.test(lines[i])) continue;
+        const cells = tableCells(lines[i]);
+        const first = cells[0]?.text ?? '';
+        if (first.toLowerCase() === 'parameter' || cells.every((c) => /^:?-+:?$/.test(c.text))) continue;
+        // parsePromptsMd counts the empty cell after the closing pipe, so three columns still parse.
+        const parsed = cells.length + (lines[i].trimEnd().endsWith('|') ? 1 : 0) >= 4 && first !== '' && !/^-+$/.test(first);
+        const rawReq = (cells[2]?.text ?? '').toLowerCase();
+        parameters.push({
+          name: first,
+          description: cells[1]?.text ?? '',
+          required: rawReq === 'yes' || rawReq === 'true' || rawReq === '1',
+          default: cells[3]?.text ?? '',
+          type: cells[4]?.text ?? '',
+          line: i,
+          start: cells[0]?.start ?? 0,
+          end: first ? (cells[0]?.end ?? 0) : lines[i].length,
+          columns: cells.length,
+          parsed,
+        });
+      }
+    }
+    const placeholders = [
+      ...placeholdersIn(lines, hl + 1, templateEnd),
+      ...(stepsLine !== undefined ? placeholdersIn(lines, stepsLine + 1, subsectionEnd(stepsLine)) : []),
+    ];
+    sections.push({
+      name,
+      reserved: isReservedSection(name),
+      startLine,
+      endLine,
+      headingLine: hl,
+      nameStart,
+      nameEnd: nameStart + name.length,
+      ...(parametersLine !== undefined ? { parametersLine } : {}),
+      ...(stepsLine !== undefined ? { stepsLine } : {}),
+      parameters,
+      placeholders,
+      text: content.slice(b.from, b.to),
+    });
+  }
+  return sections;
+}
+
+/**
+ * Problems in prompts.md: duplicate `## name`s, Parameters rows with fewer than 4 columns or no name, unknown
+ * Type values, duplicate parameters, placeholders missing from the Parameters table, parameters the template
+ * never uses, and invalid workflows (validateWorkflow).
+ */
+export function lintPromptsMd(content: string): LintIssue[] {
+  const sections = scanPromptsMd(content);
+  const issues: LintIssue[] = [];
+  const firstByName = new Map<string, PromptsMdSection>();
+  const prompts = parsePromptsMd(content);
+
+  for (const s of sections) {
+    const key = s.reserved ? s.name.toLowerCase() : s.name;
+    const first = firstByName.get(key);
+    if (first) {
+      issues.push({
+        line: s.headingLine,
+        start: s.nameStart,
+        end: s.nameEnd,
+        message: `Duplicate prompt name '${s.name}' (first on line ${first.headingLine + 1}); only the first is used.`,
+        severity: 'error',
+      });
+    } else firstByName.set(key, s);
+    if (s.reserved) continue;
+
+    const seen = new Set<string>();
+    for (const p of s.parameters) {
+      const at = { line: p.line, start: p.start, end: p.end };
+      if (!p.name) {
+        issues.push({ ...at, message: 'Parameter row has no name; it is ignored.', severity: 'warning' });
+        continue;
+      }
+      if (p.columns < 4) {
+        issues.push({
+          ...at,
+          message: `Parameter row has ${p.columns} of 4 columns (Parameter | Description | Required | Default)${p.parsed ? '' : '; it is ignored'}.`,
+          severity: 'warning',
+        });
+      }
+      if (seen.has(p.name)) issues.push({ ...at, message: `Parameter '${p.name}' is listed more than once.`, severity: 'warning' });
+      seen.add(p.name);
+      if (p.type && parseParamType(p.type).type === 'text' && p.type.toLowerCase() !== 'text') {
+        issues.push({
+          ...at,
+          message: `Unknown type '${p.type}' for '${p.name}'; it is treated as text. Use ${PARAM_TYPES.join(', ')}, enum(a, b) or boolean(Yes, No).`,
+          severity: 'warning',
+        });
+      }
+    }
+
+    const declared = new Set(s.parameters.filter((p) => p.parsed).map((p) => p.name));
+    const isStepOutput = (name: string) => s.stepsLine !== undefined && STEP_OUTPUT_RE.test(name);
+    for (const ph of s.placeholders) {
+      if (declared.has(ph.name) || isStepOutput(ph.name)) continue;
+      const context = CONTEXT_PLACEHOLDER_RE.exec(ph.name);
+      if (context) {
+        const target = context[1] === 'file' || context[1] === 'glob' ? context[2].trim() : undefined;
+        if (target && (/^([a-z]:)?[\\/]/i.test(target) || target.split(/[\\/]/).includes('..'))) {
+          issues.push({
+            line: ph.line,
+            start: ph.start,
+            end: ph.end,
+            message: `{${ph.name}} points outside the workspace folder; only files under the folder are inserted.`,
+            severity: 'warning',
+          });
+        }
+        continue;
+      }
+      issues.push({
+        line: ph.line,
+        start: ph.start,
+        end: ph.end,
+        message: `Placeholder {${ph.name}} is not in the ### Parameters table; it is filled as optional text without a description.`,
+        severity: 'warning',
+      });
+    }
+    const used = new Set(s.placeholders.map((ph) => ph.name));
+    for (const p of s.parameters) {
+      if (p.parsed && p.name && !used.has(p.name)) {
+        issues.push({ line: p.line, start: p.start, end: p.end, message: `Parameter '${p.name}' is not used in the template.`, severity: 'information' });
+      }
+    }
+
+    if (s.stepsLine !== undefined && first === undefined) {
+      const def = parsePromptsMd(s.text)[0];
+      if (isWorkflow(def)) {
+        for (const message of validateWorkflow(def, prompts)) {
+          issues.push({ line: s.stepsLine, start: 0, end: '### Steps'.length, message, severity: 'error' });
+        }
+      }
+    }
+  }
+  return issues;
+}
+
+/** The section containing line, if any. */
+export function sectionAtLine(sections: readonly PromptsMdSection[], line: number): PromptsMdSection | undefined {
+  return sections.find((s) => line >= s.startLine && line < s.endLine);
+}
+
+/** When character is just after an unclosed `{`, the typed name so far and where it starts (for completion). */
+export function placeholderPrefixAt(lineText: string, character: number): { prefix: string; start: number } | undefined {
+  const before = lineText.slice(0, character);
+  const open = before.lastIndexOf('{');
+  if (open < 0 || before.indexOf('}', open) >= 0) return undefined;
+  const prefix = before.slice(open + 1);
+  return /^[^{}]*$/.test(prefix) ? { prefix, start: open + 1 } : undefined;
+}
+
+/** The `{Name}` placeholder under character, if any. */
+export function placeholderAt(lineText: string, character: number): { name: string; start: number; end: number } | undefined {
+  for (const m of lineText.matchAll(PLACEHOLDER_RE)) {
+    const start = m.index ?? 0;
+    const end = start + m[0].length;
+    if (character >= start && character <= end && m[1].trim()) return { name: m[1].trim(), start, end };
+  }
+  return undefined;
+}
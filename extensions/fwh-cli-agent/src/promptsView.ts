@@ -3,66 +3,62 @@
  */
 
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import type { ParsedPrompt } from './parser';
-import { parsePromptsMd, listPromptNamesFromCliMd } from './parser';
+import type { ParsedPrompt, ParsedPromptParam, CliPromptRevision } from './parser';
+import type { LoadPromptListFn, PromptListItem } from './promptList';
+import { fillPromptTemplate } from './template';
+import type { TemplateParam } from './template';
+import type { PresetValues } from './presets';
 
-export interface PromptListItem {
+/** A workspace folder shown in the Prompts view. */
+export interface PromptsFolder {
   name: string;
-  prompt?: ParsedPrompt;
+  root: string;
 }
 
-export type LoadPromptListFn = () => PromptListItem[];
-
-/**
- * Builds the list from prompts.md (and optionally CLI.md names not in prompts.md).
- * Sync; uses fs. Call from extension with paths from getPromptsMdPath/getCliMdPath.
- */
-export function loadPromptList(
-  promptsMdPath: string,
-  cliMdPath: string
-): PromptListItem[] {
-  const result: PromptListItem[] = [];
-  const byName = new Map<string, PromptListItem>();
-
-  if (fs.existsSync(promptsMdPath)) {
-    try {
-      const content = fs.readFileSync(promptsMdPath, 'utf8');
-      const parsed = parsePromptsMd(content);
-      for (const p of parsed) {
-        const item: PromptListItem = { name: p.name, prompt: p };
-        byName.set(p.name, item);
-        result.push(item);
-      }
-    } catch {
-      // ignore
-    }
+/** Workspace folder node; only shown when the workspace has more than one folder. */
+export class PromptFolderTreeItem extends vscode.TreeItem {
+  constructor(readonly folder: PromptsFolder) {
+    super(folder.name, vscode.TreeItemCollapsibleState.Expanded);
+    this.id = `folder:${folder.root}`;
+    this.contextValue = 'promptFolder';
+    this.iconPath = vscode.ThemeIcon.Folder;
+    this.tooltip = folder.root;
   }
+}
 
-  if (fs.existsSync(cliMdPath)) {
-    try {
-      const content = fs.readFileSync(cliMdPath, 'utf8');
-      const names = listPromptNamesFromCliMd(content);
-      for (const n of names) {
-        if (!byName.has(n)) {
-          const item: PromptListItem = { name: n };
-          byName.set(n, item);
-          result.push(item);
-        }
-      }
-    } catch {
-      // ignore
+/** Prompt node; workspaceRoot and item are read by openPromptForm. Expands to its CLI.md revisions. */
+export class PromptTreeItem extends vscode.TreeItem {
+  constructor(readonly workspaceRoot: string, readonly item: PromptListItem) {
+    super(item.name, item.revisions.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+    this.id = `${workspaceRoot}::${item.name}`;
+    this.contextValue = item.prompt ? 'promptWithParams' : 'promptFromCli';
+    this.tooltip = item.prompt?.description ?? `Prompt from CLI.md: ${item.name}`;
+    if (item.revisions.length > 0) {
+      this.description = `${item.revisions.length} revision${item.revisions.length === 1 ? '' : 's'}`;
     }
+    this.command = { command: 'fwhCliAgent.openPromptForm', title: 'Open prompt form', arguments: [this] };
   }
+}
 
-  return result;
+/** One CLI.md revision of a prompt; read by the runPromptRevision and diffPromptRevisions commands. */
+export class PromptRevisionTreeItem extends vscode.TreeItem {
+  constructor(readonly workspaceRoot: string, readonly revision: CliPromptRevision, readonly newest: boolean) {
+    super(revision.label || '(no timestamp)', vscode.TreeItemCollapsibleState.None);
+    this.id = `${workspaceRoot}::${revision.name}@${revision.index}`;
+    this.description = newest ? 'newest' : undefined;
+    this.contextValue = 'promptRevision';
+    this.iconPath = new vscode.ThemeIcon('history');
+    const preview = revision.text.length > 500 ? `${revision.text.slice(0, 500)}…` : revision.text;
+    this.tooltip = new vscode.MarkdownString().appendText(`${revision.name} (${revision.label})\n\n`).appendCodeblock(preview, 'markdown');
+  }
 }
 
+/** Prompts of every workspace folder; grouped under folder nodes in multi-root workspaces. */
 export class PromptsTreeDataProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-  constructor(private load: LoadPromptListFn) {}
+  constructor(private getFolders: () => PromptsFolder[], private load: LoadPromptListFn) {}
 
   refresh(): void {
     this._onDidChangeTreeData.fire();
@@ -72,38 +68,134 @@ export class PromptsTreeDataProvider implements vscode.TreeDataProvider<vscode.T
     return element;
   }
 
-  getChildren(_element?: vscode.TreeItem): vscode.ProviderResult<vscode.TreeItem[]> {
-    const items = this.load();
-    return items.map((i) => {
-      const ti = new vscode.TreeItem(i.name, vscode.TreeItemCollapsibleState.None);
-      ti.id = i.name;
-      ti.contextValue = i.prompt ? 'promptWithParams' : 'promptFromCli';
-      ti.tooltip = i.prompt?.description ?? `Prompt from CLI.md: ${i.name}`;
-      ti.command = { command: 'fwhCliAgent.openPromptForm', title: 'Open prompt form' };
-      return ti;
-    });
+  getChildren(element?: vscode.TreeItem): vscode.ProviderResult<vscode.TreeItem[]> {
+    if (element instanceof PromptFolderTreeItem) return this.promptItems(element.folder.root);
+    if (element instanceof PromptTreeItem) {
+      return element.item.revisions.map((r, i) => new PromptRevisionTreeItem(element.workspaceRoot, r, i === 0));
+    }
+    if (element) return [];
+    const folders = this.getFolders();
+    if (folders.length === 1) return this.promptItems(folders[0].root);
+    return folders.map((f) => new PromptFolderTreeItem(f));
+  }
+
+  private promptItems(root: string): vscode.TreeItem[] {
+    return this.load(root).map((i) => new PromptTreeItem(root, i));
   }
 }
 
-/** Substitute {ParamName} in template with values. */
-export function substituteTemplate(template: string, params: Record<string, string>): string {
-  return template.replace(/\{([^}]+)\}/g, (_, k) => params[k.trim()] ?? '');
+/** Substitute {ParamName} in template with values, falling back to the parameters' defaults (fillPromptTemplate). */
+export function substituteTemplate(
+  template: string,
+  params: Record<string, string>,
+  parameters: readonly TemplateParam[] = []
+): string {
+  return fillPromptTemplate(template, parameters, params).text;
+}
+
+/** View type of the prompt form panels; the extension registers a serializer for it. */
+export const PROMPT_FORM_VIEW_TYPE = 'fwhCliAgent.promptForm';
+
+/** Webview state of a prompt form (setState), used to bring the form back after a window reload. */
+export interface PromptFormState {
+  workspaceRoot: string;
+  promptName: string;
+  values: Record<string, string>;
+}
+
+export function isPromptFormState(v: unknown): v is PromptFormState {
+  if (typeof v !== 'object' || v === null) return false;
+  const s = v as Partial<PromptFormState>;
+  return typeof s.workspaceRoot === 'string' && typeof s.promptName === 'string' && isStringRecord(s.values);
 }
 
-const FORM_VIEW_TYPE = 'fwhCliAgent.promptForm';
+/**
+ * Messages posted by the prompt form webview: run actions carry the current field values (the extension fills
+ * the template); pick/glob ask for a workspace path or a glob match count for one parameter; savePreset and
+ * deletePreset change the prompt's presets (name is the preset selected in the form, if any).
+ */
+type FormMessage =
+  | { type: 'invoke' | 'copy' | 'save'; values: Record<string, string> }
+  | { type: 'savePreset'; values: Record<string, string>; name: string }
+  | { type: 'deletePreset'; name: string }
+  | { type: 'pick'; param: string; kind: 'file' | 'folder' }
+  | { type: 'glob'; param: string; pattern: string };
 
-function getWebviewContent(p: ParsedPrompt): string {
-  const paramsJson = JSON.stringify(p.parameters);
+/** Extension-side actions of the prompt form. */
+export interface PromptFormHandlers {
+  /** Invoke button: run the filled prompt. values are the form fields (workflows run from them, not from the text). */
+  onInvoke: (promptName: string, filledText: string, values: Record<string, string>) => void;
+  /** Copy button: write the previewed text to the clipboard. */
+  onCopy: (promptName: string, filledText: string) => void;
+  /** Save as CLI.md prompt: add a `### Prompt: name (timestamp)` block to ## Prompts. */
+  onSave: (promptName: string, filledText: string) => void;
+  /** file/folder parameters: pick a path under the workspace folder; returns it relative to the folder. */
+  pickPath: (kind: 'file' | 'folder') => Promise<string | undefined>;
+  /** glob parameters: number of workspace files the pattern matches. */
+  countGlob: (pattern: string) => Promise<number>;
+  /** Field values of every Invoke, Copy and Save, kept to fill the form the next time it opens. */
+  onValues: (promptName: string, values: Record<string, string>) => void;
+  /** The prompt's presets by name. */
+  presets: (promptName: string) => PresetValues;
+  /** Saves (or, without values, deletes) a preset; returns the prompt's presets, undefined when that failed. */
+  onPreset: (promptName: string, presetName: string, values: Record<string, string> | undefined) => PresetValues | undefined;
+}
+
+/** True texts for boolean parameters without custom options, matched case-insensitively against the default. */
+const BOOLEAN_TRUE = ['true', 'yes', '1', 'on'];
+
+/** Form control for one parameter according to its Type column. */
+function renderControl(r: ParsedPromptParam): string {
+  const id = escapeHtml(r.name);
+  const ph = escapeHtml(r.default);
+  switch (r.type) {
+    case 'multiline':
+      return `<textarea id="p-${id}" data-param="${id}" rows="5" placeholder="${ph}"></textarea>`;
+    case 'enum': {
+      const first = r.default ? `(default: ${r.default})` : '(choose)';
+      const opts = [`<option value="">${escapeHtml(first)}</option>`]
+        .concat((r.options ?? []).map((o) => `<option value="${escapeHtml(o)}">${escapeHtml(o)}</option>`))
+        .join('');
+      return `<select id="p-${id}" data-param="${id}">${opts}</select>`;
+    }
+    case 'boolean': {
+      const [on, off] = r.options ?? ['true', 'false'];
+      const d = r.default.trim().toLowerCase();
+      const checked = d === on.toLowerCase() || (!r.options && BOOLEAN_TRUE.includes(d));
+      return `<input type="checkbox" id="p-${id}" data-param="${id}" data-on="${escapeHtml(on)}" data-off="${escapeHtml(off)}"${checked ? ' checked' : ''} />`;
+    }
+    case 'file':
+    case 'folder':
+      return `<input id="p-${id}" data-param="${id}" placeholder="${ph}" spellcheck="false" />` +
+        `<button type="button" class="inline" data-pick="${r.type}" data-for="${id}">Browse…</button>`;
+    case 'glob':
+      return `<input id="p-${id}" data-param="${id}" placeholder="${ph || '**/*.cs'}" spellcheck="false" />` +
+        `<button type="button" class="inline" data-glob-for="${id}">Count matches</button><span class="hint" id="hint-${id}"></span>`;
+    default:
+      return `<input id="p-${id}" data-param="${id}" placeholder="${ph}" />`;
+  }
+}
+
+/** JSON for embedding in an inline script; `<` is escaped so prompt text cannot close the script tag. */
+export function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+function getWebviewContent(p: ParsedPrompt, workspaceRoot: string, values: Readonly<Record<string, string>>, presets: PresetValues): string {
+  const paramsJson = scriptJson(p.parameters);
   const nameHtml = escapeHtml(p.name);
   const descHtml = escapeHtml(p.description);
   const rows = p.parameters
-    .map(
-      (r) => `
+    .map((r) => {
+      const id = escapeHtml(r.name);
+      const title = escapeHtml(r.description || r.name);
+      return `
     <div class="row">
-      <label for="p-${escapeHtml(r.name)}">${escapeHtml(r.name)}</label>
-      <input id="p-${escapeHtml(r.name)}" data-param="${escapeHtml(r.name)}" placeholder="${escapeHtml(r.default)}" />
-    </div>`
-    )
+      <label for="p-${id}" title="${title}">${id}${r.required ? ' <span class="req">*</span>' : ''}</label>
+      ${renderControl(r)}
+      <div class="error" id="err-${id}" hidden>Required</div>
+    </div>`;
+    })
     .join('');
 
   return `<!DOCTYPE html>
@@ -114,42 +206,196 @@ function getWebviewContent(p: ParsedPrompt): string {
   <style>
     body { font-family: var(--vscode-font-family); font-size: 13px; padding: 12px; }
     h2 { margin-top: 0; }
+    h3 { margin: 16px 0 6px; }
     .row { margin-bottom: 10px; }
-    label { display: inline-block; width: 180px; }
-    input { width: 280px; }
-    button { margin-top: 12px; padding: 6px 14px; }
+    label { display: inline-block; width: 180px; vertical-align: top; }
+    input, select { width: 280px; }
+    input[type="checkbox"] { width: auto; }
+    textarea { width: 420px; font-family: inherit; }
+    button.inline { margin: 0 0 0 6px; padding: 2px 8px; }
+    .hint { margin-left: 6px; color: var(--vscode-descriptionForeground); }
+    button { margin-top: 12px; margin-right: 6px; padding: 6px 14px; }
+    #preview { white-space: pre-wrap; word-break: break-word; max-height: 50vh; overflow: auto; padding: 8px;
+      border: 1px solid var(--vscode-panel-border, #8884); background: var(--vscode-textCodeBlock-background);
+      font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+    #preview mark { background: var(--vscode-inputValidation-warningBackground, #fc04); color: inherit;
+      outline: 1px solid var(--vscode-inputValidation-warningBorder, #fc0); }
+    #preview .default { text-decoration: underline dotted; }
+    .stats { color: var(--vscode-descriptionForeground); }
+    .req { color: var(--vscode-errorForeground); }
+    .error { color: var(--vscode-errorForeground); margin: 2px 0 0 184px; }
+    input.invalid { outline: 1px solid var(--vscode-inputValidation-errorBorder, #f00); }
   </style>
 </head>
 <body>
   <h2>${nameHtml}</h2>
   <p>${descHtml || '(No description)'}</p>
+  <div class="row">
+    <label for="preset">Preset</label>
+    <select id="preset"></select>
+    <button type="button" class="inline" id="savePreset">Save as preset…</button>
+    <button type="button" class="inline" id="deletePreset">Delete</button>
+  </div>
   <form id="form">
     ${rows}
-    <div class="row"><button type="submit">Invoke</button></div>
+    <div class="row">
+      <button type="submit">Invoke</button>
+      <button type="button" id="copy">Copy</button>
+      <button type="button" id="save">Save as CLI.md prompt</button>
+    </div>
   </form>
+  <h3>Preview</h3>
+  <div class="stats" id="stats"></div>
+  <pre id="preview" aria-readonly="true"></pre>
   <script>
     (function() {
       var params = ${paramsJson};
+      var template = ${scriptJson(p.template)};
+      var initial = ${scriptJson(values)};
+      var presets = ${scriptJson(presets)};
+      var formKey = ${scriptJson({ workspaceRoot, promptName: p.name })};
+      var fillPromptTemplate = ${fillPromptTemplate.toString()};
+      var api = typeof acquireVsCodeApi === 'function' ? acquireVsCodeApi() : null;
       var form = document.getElementById('form');
-      form.onsubmit = function(e) {
-        e.preventDefault();
+      var preview = document.getElementById('preview');
+      var stats = document.getElementById('stats');
+      var presetSelect = document.getElementById('preset');
+      var deletePreset = document.getElementById('deletePreset');
+
+      function field(name) { return document.querySelector('[data-param="' + name + '"]'); }
+      function values() {
         var vs = {};
         params.forEach(function(r) {
-          var el = document.querySelector('[data-param="' + r.name + '"]');
-          vs[r.name] = el ? el.value : '';
+          var el = field(r.name);
+          vs[r.name] = !el ? '' : el.type === 'checkbox' ? el.getAttribute(el.checked ? 'data-on' : 'data-off') : el.value;
+        });
+        return vs;
+      }
+      /** Fills every field from vs; fields vs does not name are emptied (checkboxes get their default). */
+      function apply(vs) {
+        params.forEach(function(r) {
+          var el = field(r.name);
+          if (!el) return;
+          var has = Object.prototype.hasOwnProperty.call(vs, r.name);
+          if (el.type === 'checkbox') el.checked = has ? vs[r.name] === el.getAttribute('data-on') : el.defaultChecked;
+          else el.value = has ? vs[r.name] : '';
+        });
+      }
+      /** Rebuilds the preset dropdown; selected stays selected when it still exists. */
+      function renderPresets(selected) {
+        presetSelect.textContent = '';
+        ['(none)'].concat(Object.keys(presets)).forEach(function(name, i) {
+          var o = document.createElement('option');
+          o.value = i === 0 ? '' : name;
+          o.textContent = name;
+          presetSelect.appendChild(o);
+        });
+        presetSelect.value = selected && presets[selected] ? selected : '';
+        deletePreset.disabled = !presetSelect.value;
+      }
+      /** Shows or clears the inline error of each required field; returns false when any is missing. */
+      function validate(missing) {
+        params.forEach(function(r) {
+          var bad = missing.indexOf(r.name) >= 0;
+          var err = document.getElementById('err-' + r.name);
+          if (err) err.hidden = !bad;
+          var el = field(r.name);
+          if (el) el.classList.toggle('invalid', bad);
         });
-        var promptName = ${JSON.stringify(p.name)};
-        var template = ${JSON.stringify(p.template)};
-        var filled = template.replace(/\\{([^}]+)\\}/g, function(_, k) { return vs[k.trim()] || ''; });
-        (function(){ var api = typeof acquireVsCodeApi === 'function' ? acquireVsCodeApi() : null; if (api && api.postMessage) api.postMessage({ type: 'invoke', promptName: promptName, filled: filled }); })();
+        if (missing.length && field(missing[0])) field(missing[0]).focus();
+        return missing.length === 0;
+      }
+      /** Renders the filled text; defaults are underlined, placeholders without a value or default are highlighted. */
+      function render() {
+        var r = fillPromptTemplate(template, params, values());
+        preview.textContent = '';
+        r.parts.forEach(function(part) {
+          if (part.kind === 'literal' || part.kind === 'value') {
+            preview.appendChild(document.createTextNode(part.text));
+          } else {
+            var el = document.createElement(part.kind === 'default' ? 'span' : 'mark');
+            el.className = part.kind;
+            el.textContent = part.kind === 'default' ? part.text : part.placeholder;
+            el.title = part.kind === 'default' ? 'Default for ' + part.placeholder : 'Unresolved: sent empty';
+            preview.appendChild(el);
+          }
+        });
+        if (api && api.setState) api.setState({ workspaceRoot: formKey.workspaceRoot, promptName: formKey.promptName, values: values() });
+        var n = r.unresolved.length;
+        stats.textContent = r.text.length + ' chars, ~' + Math.ceil(r.text.length / 4) + ' tokens' +
+          (n ? ' — ' + n + ' unresolved placeholder' + (n === 1 ? '' : 's') : '');
+        return r;
+      }
+      function post(type) {
+        var r = render();
+        if (type !== 'copy' && !validate(r.missing)) return;
+        if (api && api.postMessage) api.postMessage({ type: type, values: values() });
+      }
+
+      form.addEventListener('input', function(e) {
+        var name = e.target && e.target.getAttribute('data-param');
+        var err = name && document.getElementById('err-' + name);
+        if (err && e.target.value.trim() !== '') { err.hidden = true; e.target.classList.remove('invalid'); }
+        render();
+      });
+      form.onsubmit = function(e) {
+        e.preventDefault();
+        post('invoke');
+      };
+      document.getElementById('copy').onclick = function() { post('copy'); };
+      presetSelect.onchange = function() {
+        deletePreset.disabled = !presetSelect.value;
+        if (!presetSelect.value) return;
+        apply(presets[presetSelect.value]);
+        validate([]);
+        render();
       };
+      document.getElementById('savePreset').onclick = function() {
+        if (api && api.postMessage) api.postMessage({ type: 'savePreset', values: values(), name: presetSelect.value });
+      };
+      deletePreset.onclick = function() {
+        if (api && api.postMessage && presetSelect.value) api.postMessage({ type: 'deletePreset', name: presetSelect.value });
+      };
+      document.getElementById('save').onclick = function() { post('save'); };
+      form.addEventListener('click', function(e) {
+        var b = e.target;
+        if (!api || !b || b.tagName !== 'BUTTON') return;
+        if (b.getAttribute('data-pick')) {
+          api.postMessage({ type: 'pick', param: b.getAttribute('data-for'), kind: b.getAttribute('data-pick') });
+        } else if (b.getAttribute('data-glob-for')) {
+          var name = b.getAttribute('data-glob-for');
+          api.postMessage({ type: 'glob', param: name, pattern: field(name).value || field(name).placeholder });
+        }
+      });
+      /** Messages from the extension: a picked path, a glob match count, the presets after a change or values to fill. */
+      window.addEventListener('message', function(e) {
+        var m = e.data || {};
+        if (m.type === 'picked' && field(m.param)) {
+          field(m.param).value = m.value;
+          form.dispatchEvent(new Event('input'));
+        } else if (m.type === 'globCount') {
+          var hint = document.getElementById('hint-' + m.param);
+          if (hint) hint.textContent = m.count + ' file' + (m.count === 1 ? '' : 's');
+        } else if (m.type === 'presets') {
+          presets = m.presets || {};
+          renderPresets(m.selected);
+        } else if (m.type === 'values' && m.values) {
+          apply(m.values);
+          validate([]);
+          render();
+        }
+      });
+      apply(initial);
+      renderPresets('');
+      render();
     })();
   </script>
 </body>
 </html>`;
 }
 
-function escapeHtml(s: string): string {
+/** Escapes text for webview HTML content and attribute values. */
+export function escapeHtml(s: string): string {
   return s
     .replace(/&/g, '&amp;')
     .replace(/</g, '&lt;')
@@ -157,33 +403,104 @@ function escapeHtml(s: string): string {
     .replace(/"/g, '&quot;');
 }
 
-let _formPanel: vscode.WebviewPanel | undefined;
+/** An open prompt form; prompt and handlers are replaced when the form is opened again with a newer definition. */
+interface FormPanel {
+  panel: vscode.WebviewPanel;
+  prompt: ParsedPrompt;
+  handlers: PromptFormHandlers;
+}
+
+/** Open prompt forms, one per workspace folder and prompt name. */
+const _formPanels = new Map<string, FormPanel>();
+
+function isStringRecord(v: unknown): v is Record<string, string> {
+  return typeof v === 'object' && v !== null && Object.values(v).every((x) => typeof x === 'string');
+}
+
+export interface PromptFormOptions {
+  workspaceRoot: string;
+  /** Values to fill, also into a form that is already open (e.g. from the history). */
+  values?: Readonly<Record<string, string>>;
+  /** Values for a new form when values is unset, e.g. the last ones used. */
+  defaultValues?: Readonly<Record<string, string>>;
+  /** A panel restored by the webview serializer after a reload, adopted instead of creating one. */
+  panel?: vscode.WebviewPanel;
+}
 
 /**
- * Creates or reveals the prompt form webview and sets the given prompt.
- * The webview will post { type: 'invoke', promptName, filled } on Invoke.
+ * Creates or reveals the form of a prompt. Each workspace folder and prompt has its own panel, so what was typed
+ * into one form survives opening another; opening a form again keeps its fields unless options.values is set or
+ * the prompt's definition changed. Presets are listed in a dropdown; saving one asks for its name.
+ * The webview posts { type: 'invoke' | 'copy' | 'save', values }; the template is filled here with fillPromptTemplate
+ * and routed to handlers. Invoke and Save are refused while required parameters are missing.
  */
-export function createOrShowPromptFormPanel(
-  prompt: ParsedPrompt,
-  onInvoke: (promptName: string, filledText: string) => void
-): void {
-  if (_formPanel) {
-    _formPanel.reveal();
-    _formPanel.webview.html = getWebviewContent(prompt);
-    _formPanel.title = `Prompt: ${prompt.name}`;
+export function createOrShowPromptFormPanel(prompt: ParsedPrompt, handlers: PromptFormHandlers, options: PromptFormOptions): void {
+  const key = `${options.workspaceRoot}|${prompt.name}`;
+  const html = () => getWebviewContent(prompt, options.workspaceRoot, options.values ?? options.defaultValues ?? {}, handlers.presets(prompt.name));
+  const open = _formPanels.get(key);
+  if (open) {
+    options.panel?.dispose();
+    const changed = JSON.stringify(open.prompt) !== JSON.stringify(prompt);
+    open.prompt = prompt;
+    open.handlers = handlers;
+    open.panel.reveal();
+    if (changed) open.panel.webview.html = html();
+    else if (options.values) void open.panel.webview.postMessage({ type: 'values', values: options.values });
     return;
   }
-  _formPanel = vscode.window.createWebviewPanel(FORM_VIEW_TYPE, `Prompt: ${prompt.name}`, vscode.ViewColumn.Beside, {
-    enableScripts: true,
-    retainContextWhenHidden: true,
-  });
-  _formPanel.webview.html = getWebviewContent(prompt);
-  _formPanel.onDidDispose(() => {
-    _formPanel = undefined;
+  const panel =
+    options.panel ??
+    vscode.window.createWebviewPanel(PROMPT_FORM_VIEW_TYPE, `Prompt: ${prompt.name}`, vscode.ViewColumn.Beside, {
+      enableScripts: true,
+      retainContextWhenHidden: true,
+    });
+  panel.title = `Prompt: ${prompt.name}`;
+  panel.webview.options = { enableScripts: true };
+  panel.webview.html = html();
+  const entry: FormPanel = { panel, prompt, handlers };
+  _formPanels.set(key, entry);
+  panel.onDidDispose(() => {
+    if (_formPanels.get(key) === entry) _formPanels.delete(key);
   });
-  _formPanel.webview.onDidReceiveMessage((m: { type?: string; promptName?: string; filled?: string }) => {
-    if (m?.type === 'invoke' && typeof m.promptName === 'string' && typeof m.filled === 'string') {
-      onInvoke(m.promptName, m.filled);
+  panel.webview.onDidReceiveMessage(async (m: Partial<FormMessage>) => {
+    const { prompt: p, handlers: h } = entry;
+    if (!m) return;
+    const param = 'param' in m && typeof m.param === 'string' ? p.parameters.find((x) => x.name === m.param) : undefined;
+    if (m.type === 'pick' && param && (param.type === 'file' || param.type === 'folder')) {
+      const value = await h.pickPath(param.type);
+      if (value !== undefined) void panel.webview.postMessage({ type: 'picked', param: param.name, value });
+      return;
+    }
+    if (m.type === 'glob' && param && 'pattern' in m && typeof m.pattern === 'string' && m.pattern.trim()) {
+      const count = await h.countGlob(m.pattern.trim());
+      void panel.webview.postMessage({ type: 'globCount', param: param.name, count });
+      return;
+    }
+    if (m.type === 'deletePreset' && 'name' in m && typeof m.name === 'string' && m.name) {
+      const confirm = await vscode.window.showWarningMessage(`Delete preset "${m.name}" of ${p.name}?`, { modal: true }, 'Delete');
+      const presets = confirm === 'Delete' ? h.onPreset(p.name, m.name, undefined) : undefined;
+      if (presets) void panel.webview.postMessage({ type: 'presets', presets, selected: '' });
+      return;
+    }
+    if (!('values' in m) || !isStringRecord(m.values)) return;
+    if (m.type === 'savePreset') {
+      const name = await vscode.window.showInputBox({
+        prompt: `Preset name for ${p.name} (saved next to prompts.md)`,
+        value: 'name' in m && typeof m.name === 'string' ? m.name : '',
+        validateInput: (v) => (v.trim() ? undefined : 'Enter a name'),
+      });
+      const presets = name ? h.onPreset(p.name, name.trim(), m.values) : undefined;
+      if (presets) void panel.webview.postMessage({ type: 'presets', presets, selected: name?.trim() });
+      return;
+    }
+    h.onValues(p.name, m.values);
+    const filled = fillPromptTemplate(p.template, p.parameters, m.values);
+    if (m.type !== 'copy' && filled.missing.length > 0) {
+      void vscode.window.showWarningMessage(`FWH CLI Agent: Required parameters missing: ${filled.missing.join(', ')}.`);
+      return;
     }
+    if (m.type === 'invoke') h.onInvoke(p.name, filled.text, m.values);
+    else if (m.type === 'copy') h.onCopy(p.name, filled.text);
+    else if (m.type === 'save') h.onSave(p.name, filled.text);
   });
 }
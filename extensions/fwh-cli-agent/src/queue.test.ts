@@ -0,0 +1,185 @@
+/**
+ * Unit tests for RunQueue: ordering, coalescing, cancellation and retry; HeldCliBlocks.
+ */
+
+import { strict as assert } from 'assert';
+import { HeldCliBlocks, RunQueue } from './queue';
+import { RunTimeoutError } from './errors';
+
+/** Returns a run function that waits until released (or aborted) and records when it started. */
+function gate(started: string[], name: string) {
+  let release!: () => void;
+  const done = new Promise<void>((r) => { release = r; });
+  const run = (signal: AbortSignal) => {
+    started.push(name);
+    return new Promise<void>((resolve, reject) => {
+      signal.addEventListener('abort', () => reject(new Error('aborted')));
+      void done.then(resolve);
+    });
+  };
+  return { run, release };
+}
+
+describe('RunQueue', () => {
+  it('runs jobs one at a time in order', async () => {
+    const q = new RunQueue();
+    const started: string[] = [];
+    const a = gate(started, 'a');
+    const b = gate(started, 'b');
+    q.enqueue('a', 'A', a.run);
+    q.enqueue('b', 'B', b.run);
+    await Promise.resolve();
+    assert.deepStrictEqual(started, ['a']);
+    assert.deepStrictEqual(q.list().map((j) => j.status), ['running', 'pending']);
+    a.release();
+    b.release();
+    await q.whenIdle();
+    assert.deepStrictEqual(started, ['a', 'b']);
+    assert.deepStrictEqual(q.list().map((j) => j.status), ['succeeded', 'succeeded']);
+  });
+
+  it('coalesces pending and running jobs with the same key', async () => {
+    const q = new RunQueue();
+    const started: string[] = [];
+    const a = gate(started, 'a');
+    const first = q.enqueue('k', 'A', a.run);
+    const dupRunning = q.enqueue('k', 'A', async () => { started.push('dup'); });
+    assert.strictEqual(first.coalesced, false);
+    assert.strictEqual(dupRunning.coalesced, true);
+    assert.strictEqual(dupRunning.job.id, first.job.id);
+    a.release();
+    await q.whenIdle();
+    assert.deepStrictEqual(started, ['a']);
+    const again = q.enqueue('k', 'A', async () => {});
+    assert.strictEqual(again.coalesced, false);
+    await q.whenIdle();
+  });
+
+  it('cancels a pending job without running it', async () => {
+    const q = new RunQueue();
+    const started: string[] = [];
+    const a = gate(started, 'a');
+    q.enqueue('a', 'A', a.run);
+    const { job } = q.enqueue('b', 'B', async () => { started.push('b'); });
+    assert.strictEqual(q.cancel(job.id), true);
+    a.release();
+    await q.whenIdle();
+    assert.deepStrictEqual(started, ['a']);
+    assert.strictEqual(q.get(job.id)?.status, 'cancelled');
+  });
+
+  it('aborts a running job and marks it cancelled', async () => {
+    const q = new RunQueue();
+    const started: string[] = [];
+    const a = gate(started, 'a');
+    const { job } = q.enqueue('a', 'A', a.run);
+    await Promise.resolve();
+    assert.strictEqual(q.cancel(job.id), true);
+    await q.whenIdle();
+    assert.strictEqual(q.get(job.id)?.status, 'cancelled');
+    assert.strictEqual(q.get(job.id)?.error, undefined);
+    assert.strictEqual(q.cancel(job.id), false);
+  });
+
+  it('records failures and retries them', async () => {
+    const q = new RunQueue();
+    let attempts = 0;
+    const { job } = q.enqueue('a', 'A', async () => {
+      attempts++;
+      if (attempts === 1) throw new Error('boom');
+    });
+    await q.whenIdle();
+    assert.strictEqual(q.get(job.id)?.status, 'failed');
+    assert.strictEqual(q.get(job.id)?.error, 'boom');
+    const retried = q.retry(job.id);
+    assert.ok(retried);
+    await q.whenIdle();
+    assert.strictEqual(attempts, 2);
+    assert.strictEqual(q.get(retried!.id)?.status, 'succeeded');
+    assert.strictEqual(q.get(job.id), undefined);
+    assert.strictEqual(q.retry(retried!.id), undefined);
+  });
+
+  it('marks RunTimeoutError as timedOut and allows retry', async () => {
+    const q = new RunQueue();
+    const result = { exitCode: null, output: '', startedAt: new Date(), finishedAt: new Date() };
+    const { job } = q.enqueue('a', 'A', async () => { throw new RunTimeoutError(1000, result); });
+    await q.whenIdle();
+    assert.strictEqual(q.get(job.id)?.status, 'timedOut');
+    assert.strictEqual(q.get(job.id)?.error, 'Run timed out after 1s');
+    assert.ok(q.retry(job.id));
+    await q.whenIdle();
+  });
+
+  it('keeps at most maxFinished finished jobs and clearFinished removes them', async () => {
+    const q = new RunQueue(2);
+    for (const k of ['a', 'b', 'c']) q.enqueue(k, k, async () => {});
+    await q.whenIdle();
+    assert.deepStrictEqual(q.list().map((j) => j.key), ['b', 'c']);
+    q.clearFinished();
+    assert.deepStrictEqual(q.list(), []);
+  });
+
+  it('notifies listeners on change', async () => {
+    const q = new RunQueue();
+    let n = 0;
+    const sub = q.onDidChange(() => n++);
+    q.enqueue('a', 'A', async () => {});
+    await q.whenIdle();
+    assert.ok(n >= 3);
+    sub.dispose();
+    const before = n;
+    q.clearFinished();
+    assert.strictEqual(n, before);
+  });
+
+  it('keeps the steps a job reports', async () => {
+    const q = new RunQueue();
+    const { job } = q.enqueue('w', 'W', async (_signal, report) => {
+      await Promise.resolve();
+      report([{ id: 'a', label: 'a', status: 'running' }]);
+      assert.deepStrictEqual(q.get(job.id)?.steps, [{ id: 'a', label: 'a', status: 'running' }]);
+      report([{ id: 'a', label: 'a', status: 'succeeded' }]);
+    });
+    await q.whenIdle();
+    assert.deepStrictEqual(q.get(job.id)?.steps, [{ id: 'a', label: 'a', status: 'succeeded' }]);
+  });
+});
+
+describe('HeldCliBlocks', () => {
+  it('does not queue a failed block again when the save recording its failure is processed', async () => {
+    const q = new RunQueue();
+    const held = new HeldCliBlocks();
+    const block = '```cli\nprompt review\n```';
+    let runs = 0;
+    // Like processContent: skip held blocks, hold what is queued; the failing run saves CLI.md, which processes it again.
+    const processCliMd = (content: string[]) => {
+      held.retain('/ws', content);
+      for (const b of content) {
+        if (held.isHeld('/ws', b)) continue;
+        held.hold('/ws', b);
+        q.enqueue(`/ws|${b}`, b, async () => {
+          runs++;
+          setImmediate(() => processCliMd(content));
+          throw new Error('exit 1');
+        });
+      }
+    };
+    processCliMd([block]);
+    await q.whenIdle();
+    await new Promise((r) => setImmediate(r));
+    await q.whenIdle();
+    assert.strictEqual(runs, 1);
+    assert.deepStrictEqual(q.list().map((j) => j.status), ['failed']);
+
+    const edited = '```cli\nprompt review Lang=C#\n```';
+    processCliMd([edited]);
+    await q.whenIdle();
+    await new Promise((r) => setImmediate(r));
+    assert.strictEqual(runs, 2);
+    assert.ok(!held.isHeld('/ws', block));
+    processCliMd([block]);
+    await q.whenIdle();
+    assert.strictEqual(runs, 3);
+  });
+});
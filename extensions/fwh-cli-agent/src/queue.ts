@@ -0,0 +1,261 @@
+/**
+ * Serial run queue for prompt executions. No vscode dependency.
+ * Jobs with the same key while pending or running are coalesced; running jobs are cancelled via AbortSignal.
+ */
+
+import { RunCancelledError, RunTimeoutError } from './errors';
+
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'timedOut';
+
+/** One part of a running job, e.g. a workflow step, shown under the job in the Run Queue view. */
+export interface JobStep {
+  id: string;
+  label: string;
+  status: JobStatus;
+}
+
+/** Reports the steps of a job; each call replaces the previous list. */
+export type JobProgressFn = (steps: readonly JobStep[]) => void;
+
+/**
+ * Runs a job; should reject promptly once signal is aborted. Rejecting with RunTimeoutError marks it timedOut.
+ * report publishes step progress (optional for jobs that have no steps).
+ */
+export type JobRunFn = (signal: AbortSignal, report: JobProgressFn) => Promise<void>;
+
+export interface RunJob {
+  readonly id: number;
+  /** Identity used for coalescing, e.g. prompt name plus a hash of the prompt text. */
+  readonly key: string;
+  readonly label: string;
+  readonly status: JobStatus;
+  readonly enqueuedAt: Date;
+  readonly startedAt?: Date;
+  readonly finishedAt?: Date;
+  readonly error?: string;
+  /** Last steps reported by the job; kept once it finishes. */
+  readonly steps?: readonly JobStep[];
+}
+
+interface JobEntry {
+  id: number;
+  key: string;
+  label: string;
+  status: JobStatus;
+  enqueuedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  error?: string;
+  steps?: JobStep[];
+  run: JobRunFn;
+  controller?: AbortController;
+}
+
+export function isActive(status: JobStatus): boolean {
+  return status === 'pending' || status === 'running';
+}
+
+export function isRetryable(status: JobStatus): boolean {
+  return status === 'failed' || status === 'cancelled' || status === 'timedOut';
+}
+
+/** Status of a run that rejected: cancelled when its signal was aborted, timedOut for RunTimeoutError, else failed. */
+export function failureStatus(e: unknown, signal: AbortSignal): Extract<JobStatus, 'cancelled' | 'timedOut' | 'failed'> {
+  if (signal.aborted || e instanceof RunCancelledError) return 'cancelled';
+  return e instanceof RunTimeoutError ? 'timedOut' : 'failed';
+}
+
+export class RunQueue {
+  private jobs: JobEntry[] = [];
+  private nextId = 1;
+  private listeners = new Set<() => void>();
+  private draining: Promise<void> | undefined;
+
+  /** maxFinished: finished jobs kept for display and retry; older ones are dropped. */
+  constructor(private readonly maxFinished = 20) {}
+
+  onDidChange(listener: () => void): { dispose: () => void } {
+    this.listeners.add(listener);
+    return { dispose: () => this.listeners.delete(listener) };
+  }
+
+  /** Snapshot of all jobs in queue order (finished first, then running, then pending). */
+  list(): RunJob[] {
+    return this.jobs.map((j) => snapshot(j));
+  }
+
+  get(id: number): RunJob | undefined {
+    const j = this.jobs.find((x) => x.id === id);
+    return j ? snapshot(j) : undefined;
+  }
+
+  /**
+   * Adds a job, or returns the pending/running job with the same key (coalesced: true).
+   * Starts draining if idle.
+   */
+  enqueue(key: string, label: string, run: JobRunFn): { job: RunJob; coalesced: boolean } {
+    const existing = this.jobs.find((j) => j.key === key && isActive(j.status));
+    if (existing) return { job: snapshot(existing), coalesced: true };
+    const job: JobEntry = { id: this.nextId++, key, label, status: 'pending', enqueuedAt: new Date(), run };
+    this.jobs.push(job);
+    this.changed();
+    this.startDrain();
+    return { job: snapshot(job), coalesced: false };
+  }
+
+  /** Cancels a pending job, or aborts a running one. Returns false when the job is not active. */
+  cancel(id: number): boolean {
+    const j = this.jobs.find((x) => x.id === id);
+    if (!j || !isActive(j.status)) return false;
+    if (j.status === 'pending') {
+      j.status = 'cancelled';
+      j.finishedAt = new Date();
+      this.moveToFinished(j);
+      this.prune();
+      this.changed();
+    } else {
+      j.controller?.abort();
+    }
+    return true;
+  }
+
+  /** Cancels every pending and running job. */
+  cancelAll(): void {
+    for (const j of this.jobs.filter((x) => isActive(x.status))) this.cancel(j.id);
+  }
+
+  /**
+   * Re-queues a failed, timed-out or cancelled job. Returns the active job with the same key instead when one exists,
+   * or undefined when the job is unknown or not retryable.
+   */
+  retry(id: number): RunJob | undefined {
+    const j = this.jobs.find((x) => x.id === id);
+    if (!j || !isRetryable(j.status)) return undefined;
+    const active = this.jobs.find((x) => x.key === j.key && isActive(x.status));
+    if (active) return snapshot(active);
+    this.jobs = this.jobs.filter((x) => x !== j);
+    return this.enqueue(j.key, j.label, j.run).job;
+  }
+
+  /** Removes finished jobs from the list. */
+  clearFinished(): void {
+    const before = this.jobs.length;
+    this.jobs = this.jobs.filter((j) => isActive(j.status));
+    if (this.jobs.length !== before) this.changed();
+  }
+
+  /** Resolves when no job is pending or running. */
+  async whenIdle(): Promise<void> {
+    while (this.draining) await this.draining;
+  }
+
+  private startDrain(): void {
+    if (this.draining) return;
+    this.draining = this.drain().finally(() => {
+      this.draining = undefined;
+    });
+  }
+
+  private async drain(): Promise<void> {
+    for (;;) {
+      const j = this.jobs.find((x) => x.status === 'pending');
+      if (!j) return;
+      const controller = new AbortController();
+      j.controller = controller;
+      j.status = 'running';
+      j.startedAt = new Date();
+      j.steps = undefined;
+      this.changed();
+      const report: JobProgressFn = (steps) => {
+        if (j.status !== 'running') return;
+        j.steps = steps.map((st) => ({ ...st }));
+        this.changed();
+      };
+      try {
+        await j.run(controller.signal, report);
+        j.status = controller.signal.aborted ? 'cancelled' : 'succeeded';
+      } catch (e) {
+        j.status = failureStatus(e, controller.signal);
+        if (j.status !== 'cancelled') j.error = e instanceof Error ? e.message : String(e);
+      }
+      j.controller = undefined;
+      j.finishedAt = new Date();
+      this.moveToFinished(j);
+      this.prune();
+      this.changed();
+    }
+  }
+
+  /** Keeps finished jobs ahead of active ones so the list reads oldest to newest. */
+  private moveToFinished(j: JobEntry): void {
+    this.jobs = this.jobs.filter((x) => x !== j);
+    const firstActive = this.jobs.findIndex((x) => isActive(x.status));
+    this.jobs.splice(firstActive < 0 ? this.jobs.length : firstActive, 0, j);
+  }
+
+  private prune(): void {
+    const finished = this.jobs.filter((j) => !isActive(j.status));
+    const excess = finished.length - this.maxFinished;
+    if (excess > 0) {
+      const drop = new Set(finished.slice(0, excess));
+      this.jobs = this.jobs.filter((j) => !drop.has(j));
+    }
+  }
+
+  private changed(): void {
+    for (const l of this.listeners) {
+      try {
+        l();
+      } catch {
+        /* listener errors must not break the queue */
+      }
+    }
+  }
+}
+
+/**
+ * ```cli blocks already queued from CLI.md, by workspace folder. A block that succeeds is removed from CLI.md; one
+ * that fails or is cancelled stays, and saving the Results entry of its failure must not queue it again. Processing
+ * CLI.md skips held blocks until their text changes (like fwh-prompts watch); Run now and Retry still run them.
+ */
+export class HeldCliBlocks {
+  private readonly byRoot = new Map<string, Set<string>>();
+
+  hold(workspaceRoot: string, block: string): void {
+    let held = this.byRoot.get(workspaceRoot);
+    if (!held) this.byRoot.set(workspaceRoot, (held = new Set()));
+    held.add(block);
+  }
+
+  isHeld(workspaceRoot: string, block: string): boolean {
+    return this.byRoot.get(workspaceRoot)?.has(block) ?? false;
+  }
+
+  /** Forgets held blocks that are no longer in CLI.md, so adding the same block again later runs it. */
+  retain(workspaceRoot: string, blocks: readonly string[]): void {
+    const held = this.byRoot.get(workspaceRoot);
+    if (!held) return;
+    const present = new Set(blocks);
+    for (const b of held) if (!present.has(b)) held.delete(b);
+    if (held.size === 0) this.byRoot.delete(workspaceRoot);
+  }
+
+  clear(workspaceRoot?: string): void {
+    if (workspaceRoot === undefined) this.byRoot.clear();
+    else this.byRoot.delete(workspaceRoot);
+  }
+}
+
+function snapshot(j: JobEntry): RunJob {
+  return {
+    id: j.id,
+    key: j.key,
+    label: j.label,
+    status: j.status,
+    enqueuedAt: j.enqueuedAt,
+    startedAt: j.startedAt,
+    finishedAt: j.finishedAt,
+    error: j.error,
+    steps: j.steps?.map((st) => ({ ...st })),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * TreeView for the run queue: pending, running and recently finished prompt executions.
+ */
+
+import * as vscode from 'vscode';
+import type { RunJob, RunQueue, JobStatus, JobStep } from './queue';
+
+const STATUS_ICONS: Record<JobStatus, string> = {
+  pending: 'clock',
+  running: 'sync~spin',
+  succeeded: 'pass',
+  failed: 'error',
+  cancelled: 'circle-slash',
+  timedOut: 'watch',
+};
+
+/** Tree item for a job; jobId is read by the cancel/retry commands. Jobs with steps (workflows) expand to them. */
+export class RunJobTreeItem extends vscode.TreeItem {
+  constructor(readonly jobId: number, readonly job: RunJob) {
+    super(job.label, job.steps?.length ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None);
+    this.id = `job-${job.id}`;
+    const done = job.steps?.filter((s) => s.status === 'succeeded').length;
+    this.description = job.steps?.length ? `${job.status} · ${done}/${job.steps.length} steps` : job.status;
+    this.contextValue = `queueJob.${job.status}`;
+    this.iconPath = new vscode.ThemeIcon(STATUS_ICONS[job.status]);
+    const lines = [`#${job.id} ${job.label}`, `Status: ${job.status}`, `Queued: ${job.enqueuedAt.toLocaleString()}`];
+    if (job.startedAt) lines.push(`Started: ${job.startedAt.toLocaleString()}`);
+    if (job.finishedAt) lines.push(`Finished: ${job.finishedAt.toLocaleString()}`);
+    if (job.error) lines.push(`Error: ${job.error}`);
+    this.tooltip = lines.join('\n');
+  }
+}
+
+/** A step of a running or finished job. */
+export class RunJobStepTreeItem extends vscode.TreeItem {
+  constructor(jobId: number, step: JobStep) {
+    super(step.label, vscode.TreeItemCollapsibleState.None);
+    this.id = `job-${jobId}-step-${step.id}`;
+    this.description = step.status;
+    this.contextValue = 'queueJobStep';
+    this.iconPath = new vscode.ThemeIcon(STATUS_ICONS[step.status]);
+  }
+}
+
+export class RunQueueTreeDataProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private readonly subscription: { dispose: () => void };
+
+  constructor(private readonly queue: RunQueue) {
+    this.subscription = queue.onDidChange(() => this._onDidChangeTreeData.fire());
+  }
+
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: vscode.TreeItem): vscode.ProviderResult<vscode.TreeItem[]> {
+    if (element instanceof RunJobTreeItem) return (element.job.steps ?? []).map((s) => new RunJobStepTreeItem(element.jobId, s));
+    if (element) return [];
+    return this.queue.list().map((j) => new RunJobTreeItem(j.id, j));
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -4,7 +4,16 @@
 
 import { strict as assert } from 'assert';
 import * as path from 'path';
-import { resolveCliMdPath, resolvePromptsMdPath, resolveExecuteOptions, DEFAULT_PROMPTS_MD } from './resolver';
+import {
+  resolveCliMdPath,
+  resolvePromptsMdPath,
+  resolveExecuteOptions,
+  resolveSharedContextPath,
+  parseTimeoutSeconds,
+  resolveRunTimeoutMs,
+  resolveContextMaxChars,
+  DEFAULT_PROMPTS_MD,
+} from './resolver';
 
 describe('resolver', () => {
   const ws = path.resolve('/workspace');
@@ -78,4 +87,66 @@ describe('resolver', () => {
       assert.strictEqual(resolvePromptsMdPath(ws, undefined, 'p/prompts.md'), path.join(ws, 'p', 'prompts.md'));
     });
   });
+
+  describe('resolveSharedContextPath', () => {
+    it('undefined when not set or blank', () => {
+      assert.strictEqual(resolveSharedContextPath(ws, undefined), undefined);
+      assert.strictEqual(resolveSharedContextPath(ws, '  '), undefined);
+    });
+
+    it('resolves relative path under root', () => {
+      assert.strictEqual(resolveSharedContextPath(ws, 'docs/context.md'), path.join(ws, 'docs', 'context.md'));
+    });
+
+    it('rejects path outside workspace', () => {
+      assert.strictEqual(resolveSharedContextPath(ws, '../context.md'), undefined);
+    });
+  });
+
+  describe('parseTimeoutSeconds', () => {
+    it('parses numbers and s/m/h suffixes', () => {
+      assert.strictEqual(parseTimeoutSeconds(90), 90);
+      assert.strictEqual(parseTimeoutSeconds('90'), 90);
+      assert.strictEqual(parseTimeoutSeconds('90s'), 90);
+      assert.strictEqual(parseTimeoutSeconds(' 10m '), 600);
+      assert.strictEqual(parseTimeoutSeconds('1h'), 3600);
+    });
+
+    it('undefined for empty or invalid values', () => {
+      assert.strictEqual(parseTimeoutSeconds(undefined), undefined);
+      assert.strictEqual(parseTimeoutSeconds(''), undefined);
+      assert.strictEqual(parseTimeoutSeconds('soon'), undefined);
+      assert.strictEqual(parseTimeoutSeconds(-1), undefined);
+    });
+  });
+
+  describe('resolveRunTimeoutMs', () => {
+    it('undefined when nothing is set', () => {
+      assert.strictEqual(resolveRunTimeoutMs(undefined, undefined, undefined, undefined), undefined);
+    });
+
+    it('prompt metadata wins over config and vsc', () => {
+      assert.strictEqual(resolveRunTimeoutMs('5m', '60', '10', 30), 300_000);
+    });
+
+    it('RunTimeoutSeconds, then AgentTimeoutMinutes, then vsc', () => {
+      assert.strictEqual(resolveRunTimeoutMs(undefined, '60', '10', 30), 60_000);
+      assert.strictEqual(resolveRunTimeoutMs(undefined, undefined, '10', 30), 600_000);
+      assert.strictEqual(resolveRunTimeoutMs(undefined, undefined, undefined, 30), 30_000);
+    });
+
+    it('0 disables the timeout, invalid values fall through', () => {
+      assert.strictEqual(resolveRunTimeoutMs('0', '60', undefined, undefined), undefined);
+      assert.strictEqual(resolveRunTimeoutMs('later', '60', undefined, undefined), 60_000);
+      assert.strictEqual(resolveRunTimeoutMs(undefined, undefined, '10m', 30), 30_000);
+    });
+  });
+
+  describe('resolveContextMaxChars', () => {
+    it('cli-agent.json, then vsc, then the default; invalid values fall through', () => {
+      assert.strictEqual(resolveContextMaxChars(5000, 200), 5000);
+      assert.strictEqual(resolveContextMaxChars(undefined, 0), 0);
+      assert.strictEqual(resolveContextMaxChars(-1, 1.5), 100_000);
+    });
+  });
 });
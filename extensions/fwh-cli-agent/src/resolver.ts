@@ -5,6 +5,7 @@
 
 import * as path from 'path';
 import { isUnderWorkspaceRoot } from './parser';
+import { DEFAULT_CONTEXT_MAX_CHARS } from './workspaceContext';
 
 /** Default path to prompts.md when not configured. Matches FWH.Prompts and cli-agent.json. */
 export const DEFAULT_PROMPTS_MD = 'scripts/modules/FWH.Prompts/prompts.md';
@@ -31,13 +32,17 @@ export function resolveCliMdPath(
   return defaultPath;
 }
 
+/**
+ * Default executor name (composer, agent-cli or a cli-agent.json Executors entry; resolved by resolveExecutor)
+ * and the Composer command ID.
+ */
 export function resolveExecuteOptions(
   configExecuteMode?: string,
   configComposer?: string,
   vscExecuteMode?: string,
   vscComposer?: string
-): { mode: 'composer' | 'agent-cli'; composerCommand: string } {
-  const mode = (configExecuteMode ?? vscExecuteMode ?? 'composer') as 'composer' | 'agent-cli';
+): { mode: string; composerCommand: string } {
+  const mode = configExecuteMode?.trim() || vscExecuteMode?.trim() || 'composer';
   const composerCommand = configComposer ?? vscComposer ?? 'composer.new';
   return { mode, composerCommand };
 }
@@ -64,3 +69,60 @@ export function resolvePromptsMdPath(
   }
   return defaultPath;
 }
+
+/**
+ * Resolves cli-agent.json SharedContextPath. Returns undefined when not set or outside the workspace,
+ * in which case the ## shared-context section of prompts.md is used.
+ */
+export function resolveSharedContextPath(workspaceRoot: string, configSharedContextPath?: string): string | undefined {
+  const s = configSharedContextPath?.trim();
+  if (!s) return undefined;
+  const rootResolved = path.resolve(workspaceRoot);
+  const res = path.isAbsolute(s) ? s : path.join(rootResolved, s);
+  return isUnderWorkspaceRoot(rootResolved, res) ? res : undefined;
+}
+
+/**
+ * Parses a timeout value in seconds: a number, or a string such as "90", "90s", "10m" or "1h".
+ * Returns undefined for empty or invalid values; 0 means "no timeout".
+ */
+export function parseTimeoutSeconds(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : undefined;
+  const m = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(s|m|h)?$/);
+  if (!m) return undefined;
+  const n = parseFloat(m[1]);
+  return m[2] === 'h' ? n * 3600 : m[2] === 'm' ? n * 60 : n;
+}
+
+/**
+ * Timeout for an agent-cli run in ms, or undefined for none. First valid value wins: prompt metadata
+ * `timeout` (seconds or with s/m/h suffix), cli-agent.json RunTimeoutSeconds, AgentTimeoutMinutes, then
+ * fwhCliAgent.runTimeoutSeconds. A value of 0 disables the timeout.
+ */
+export function resolveRunTimeoutMs(
+  promptTimeout?: string,
+  configRunTimeoutSeconds?: string | number,
+  configAgentTimeoutMinutes?: string | number,
+  vscRunTimeoutSeconds?: number
+): number | undefined {
+  const minutes =
+    configAgentTimeoutMinutes !== undefined && /^\s*\d+(?:\.\d+)?\s*$/.test(String(configAgentTimeoutMinutes))
+      ? parseFloat(String(configAgentTimeoutMinutes))
+      : undefined;
+  const seconds =
+    parseTimeoutSeconds(promptTimeout) ??
+    parseTimeoutSeconds(configRunTimeoutSeconds) ??
+    (minutes !== undefined ? minutes * 60 : undefined) ??
+    parseTimeoutSeconds(vscRunTimeoutSeconds);
+  return seconds && seconds > 0 ? Math.round(seconds * 1000) : undefined;
+}
+
+/**
+ * Size budget for the text workspace context placeholders insert into one prompt, in characters. First valid
+ * (non-negative integer) value wins: cli-agent.json ContextMaxChars, then fwhCliAgent.contextMaxChars.
+ */
+export function resolveContextMaxChars(configContextMaxChars?: number, vscContextMaxChars?: number): number {
+  const valid = (n: number | undefined) => (typeof n === 'number' && Number.isInteger(n) && n >= 0 ? n : undefined);
+  return valid(configContextMaxChars) ?? valid(vscContextMaxChars) ?? DEFAULT_CONTEXT_MAX_CHARS;
+}
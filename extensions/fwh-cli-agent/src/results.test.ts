@@ -0,0 +1,157 @@
+/**
+ * Unit tests for CLI.md ## Results entry formatting and insertion.
+ */
+
+import { strict as assert } from 'assert';
+import {
+  formatTimestamp,
+  formatDuration,
+  fenceFor,
+  formatResultEntry,
+  appendResultEntry,
+  getResultsSection,
+  countResultEntries,
+} from './results';
+
+describe('results', () => {
+  const started = new Date(2026, 0, 25, 17, 33, 21);
+  const finished = new Date(2026, 0, 25, 17, 35, 2, 500);
+
+  describe('formatTimestamp', () => {
+    it('formats local time as yyyy-MM-dd HH:mm:ss', () => {
+      assert.strictEqual(formatTimestamp(started), '2026-01-25 17:33:21');
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('formats seconds and minutes', () => {
+      assert.strictEqual(formatDuration(1500), '1.5s');
+      assert.strictEqual(formatDuration(101_500), '1m 41.5s');
+    });
+  });
+
+  describe('fenceFor', () => {
+    it('uses three backticks unless text contains a longer run', () => {
+      assert.strictEqual(fenceFor('plain'), '```');
+      assert.strictEqual(fenceFor('a ``` b'), '````');
+    });
+  });
+
+  describe('formatResultEntry', () => {
+    it('includes command, prompt, timestamps, duration, exit code and output', () => {
+      const e = formatResultEntry({
+        promptName: 'code-review',
+        command: 'prompt code-review',
+        exitCode: 0,
+        output: 'line1\r\nline2\n\n',
+        startedAt: started,
+        finishedAt: finished,
+      });
+      assert.strictEqual(
+        e,
+        [
+          '### Command: `prompt code-review`',
+          '**Prompt:** code-review',
+          '**Executed:** 2026-01-25 17:33:21',
+          '**Finished:** 2026-01-25 17:35:02',
+          '**Duration:** 1m 41.5s',
+          '**Exit Code:** 0',
+          '',
+          '```',
+          'line1\nline2',
+          '```',
+        ].join('\n')
+      );
+    });
+
+    it('adds a Status line when status is set', () => {
+      const e = formatResultEntry({
+        promptName: 'x', command: 'prompt x', exitCode: 1, output: 'o', startedAt: started, finishedAt: started, status: 'failed',
+      });
+      assert.ok(e.includes('**Exit Code:** 1\n**Status:** failed\n'));
+    });
+
+    it('omits the Prompt line for entries without a prompt name', () => {
+      const e = formatResultEntry({ command: 'help', exitCode: 0, output: 'o', startedAt: started, finishedAt: started });
+      assert.ok(e.startsWith('### Command: `help`\n**Executed:** '));
+    });
+
+    it('adds an Executor line and tags markdown/json fences, pretty-printing json', () => {
+      const base = { promptName: 'x', command: 'prompt x', exitCode: 0, startedAt: started, finishedAt: started };
+      const md = formatResultEntry({ ...base, output: '# hi', executor: 'local-llm', outputFormat: 'markdown' });
+      assert.ok(md.includes('**Prompt:** x\n**Executor:** local-llm\n'));
+      assert.ok(md.endsWith('```markdown\n# hi\n```'));
+      const json = formatResultEntry({ ...base, output: '{"a":1}', outputFormat: 'json' });
+      assert.ok(json.endsWith('```json\n{\n  "a": 1\n}\n```'));
+      const bad = formatResultEntry({ ...base, output: 'not json', outputFormat: 'json' });
+      assert.ok(bad.endsWith('```json\nnot json\n```'));
+      const text = formatResultEntry({ ...base, output: 'o', outputFormat: 'text' });
+      assert.ok(text.endsWith('```\no\n```'));
+    });
+
+    it('shows ? for unknown exit code', () => {
+      const e = formatResultEntry({
+        promptName: 'x', command: 'prompt x', exitCode: null, output: '', startedAt: started, finishedAt: started,
+      });
+      assert.ok(e.includes('**Exit Code:** ?'));
+    });
+  });
+
+  describe('appendResultEntry', () => {
+    const now = new Date(2026, 1, 1, 8, 0, 0);
+
+    it('appends at end of ## Results before the footer and updates Last updated', () => {
+      const c = '## Results\n\n_Results will appear here._\n\n---\n*Last updated: 2026-01-01 00:00:00*\n';
+      const r = appendResultEntry(c, 'ENTRY', now);
+      assert.strictEqual(
+        r,
+        '## Results\n\n_Results will appear here._\n\nENTRY\n\n---\n*Last updated: 2026-02-01 08:00:00*\n'
+      );
+    });
+
+    it('appends before the next ## heading', () => {
+      const c = '## Results\n\nA\n\n## Other\nB';
+      assert.strictEqual(appendResultEntry(c, 'ENTRY', now), '## Results\n\nA\n\nENTRY\n\n## Other\nB');
+    });
+
+    it('appends after earlier entries', () => {
+      const once = appendResultEntry('## Results\n', 'E1', now);
+      assert.strictEqual(appendResultEntry(once, 'E2', now), '## Results\n\nE1\n\nE2\n');
+    });
+
+    it('creates ## Results before the footer when missing', () => {
+      const c = '# CLI Agent\n\n---\n*Last updated: x*';
+      assert.strictEqual(
+        appendResultEntry(c, 'ENTRY', now),
+        '# CLI Agent\n\n## Results\n\nENTRY\n\n---\n*Last updated: 2026-02-01 08:00:00*'
+      );
+    });
+
+    it('ignores ## lines inside recorded output', () => {
+      const entry = (output: string) => formatResultEntry({ command: 'prompt a', exitCode: 0, output, startedAt: started, finishedAt: finished });
+      const first = appendResultEntry('## Results\n\n## Other\nB', entry('## Summary\n```\nok\n```'), now);
+      const second = appendResultEntry(first, 'E2', now);
+      assert.ok(second.includes('## Summary\n```\nok\n```\n````\n\nE2\n\n## Other\nB'));
+      assert.strictEqual(countResultEntries(second), 1);
+      assert.ok(getResultsSection(second).includes('## Summary'));
+    });
+
+    it('preserves CRLF line endings', () => {
+      const r = appendResultEntry('## Results\r\n', 'ENTRY', now);
+      assert.strictEqual(r, '## Results\r\n\r\nENTRY\r\n');
+    });
+  });
+
+  describe('getResultsSection / countResultEntries', () => {
+    const c = '## Prompts\n### Command: `prompt z`\n## Results\n\n### Command: `prompt a`\n\n### Command: `prompt b`\n\n---\n*Last updated: t*';
+
+    it('returns the section body without heading or footer', () => {
+      assert.strictEqual(getResultsSection(c), '\n\n### Command: `prompt a`\n\n### Command: `prompt b`\n');
+      assert.strictEqual(getResultsSection('# none'), '');
+    });
+
+    it('counts only entries under ## Results', () => {
+      assert.strictEqual(countResultEntries(c), 2);
+    });
+  });
+});
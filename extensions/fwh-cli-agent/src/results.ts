@@ -0,0 +1,135 @@
+/**
+ * Formatting of run results for the CLI.md ## Results section. No vscode dependency.
+ * Entries keep the `### Command:` / `**Executed:**` shape of the former CLI Agent so
+ * Watch-CcliResults and CLI-history.md stay readable.
+ */
+
+import { fencedRanges, inFencedRange } from './parser';
+
+export const RESULTS_HEADING = '## Results';
+
+export interface RunResultEntry {
+  /** Omitted from the entry when unset (```cli verbs other than prompt). */
+  promptName?: string;
+  /** The CLI.md command that triggered the run, e.g. `prompt code-review`. */
+  command: string;
+  exitCode: number | null;
+  output: string;
+  startedAt: Date;
+  finishedAt: Date;
+  /** succeeded, failed, timed out (...); omitted from the entry when unset. */
+  status?: string;
+  /** Executor name; omitted from the entry when unset. */
+  executor?: string;
+  /** Executor OutputFormat: markdown/json are fenced with that info string, json is pretty-printed when it parses. */
+  outputFormat?: string;
+}
+
+/** Local time as yyyy-MM-dd HH:mm:ss (same as FWH.Prompts Get-Date -Format). */
+export function formatTimestamp(d: Date): string {
+  const p = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())} ${p(d.getHours())}:${p(d.getMinutes())}:${p(d.getSeconds())}`;
+}
+
+export function formatDuration(ms: number): string {
+  const s = Math.max(0, ms) / 1000;
+  if (s < 60) return `${s.toFixed(1)}s`;
+  const m = Math.floor(s / 60);
+  return `${m}m ${(s - m * 60).toFixed(1)}s`;
+}
+
+/** Returns a code fence longer than any backtick run in text so captured output cannot close it early. */
+export function fenceFor(text: string): string {
+  let longest = 0;
+  const re = /`+/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) longest = Math.max(longest, m[0].length);
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+function formatOutputBody(output: string, format: string | undefined): string {
+  const body = output.replace(/\r\n/g, '\n').replace(/\s+$/, '');
+  if (format !== 'json') return body;
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+export function formatResultEntry(e: RunResultEntry): string {
+  const body = formatOutputBody(e.output, e.outputFormat);
+  const fence = fenceFor(body);
+  const info = e.outputFormat && e.outputFormat !== 'text' ? e.outputFormat : '';
+  return [
+    `### Command: \`${e.command}\``,
+    ...(e.promptName ? [`**Prompt:** ${e.promptName}`] : []),
+    ...(e.executor ? [`**Executor:** ${e.executor}`] : []),
+    `**Executed:** ${formatTimestamp(e.startedAt)}`,
+    `**Finished:** ${formatTimestamp(e.finishedAt)}`,
+    `**Duration:** ${formatDuration(e.finishedAt.getTime() - e.startedAt.getTime())}`,
+    `**Exit Code:** ${e.exitCode != null ? e.exitCode : '?'}`,
+    ...(e.status ? [`**Status:** ${e.status}`] : []),
+    '',
+    fence + info,
+    body,
+    fence,
+  ].join('\n');
+}
+
+const FOOTER_RE = /\n---\s*\n\*Last updated: [^\n]*\*\s*$/;
+const LAST_UPDATED_RE = /\*Last updated: [^\n]*\*/;
+
+/**
+ * Bounds of the ## Results section body in LF-normalized text, or null when there is no such heading. Headings in
+ * fenced blocks (recorded output) do not count.
+ */
+function findResultsSection(text: string): { start: number; end: number } | null {
+  const footer = FOOTER_RE.exec(text);
+  const bodyEnd = footer ? footer.index : text.length;
+  const body = text.slice(0, bodyEnd);
+  const fenced = fencedRanges(body);
+  const headings = Array.from(body.matchAll(/^## (.*)$/gm)).filter((m) => !inFencedRange(fenced, m.index ?? 0));
+  const i = headings.findIndex((m) => /^Results[ \t]*$/.test(m[1]));
+  if (i < 0) return null;
+  const start = (headings[i].index ?? 0) + headings[i][0].length;
+  const next = headings[i + 1];
+  return { start, end: next ? next.index ?? bodyEnd : bodyEnd };
+}
+
+/** Body of the ## Results section (without the heading); empty string when missing. */
+export function getResultsSection(content: string): string {
+  const text = content.replace(/\r\n/g, '\n');
+  const r = findResultsSection(text);
+  return r ? text.slice(r.start, r.end) : '';
+}
+
+/** Number of `### Command:` entries (processed prompts) under ## Results. */
+export function countResultEntries(content: string): number {
+  return (getResultsSection(content).match(/^### Command:/gm) ?? []).length;
+}
+
+/**
+ * Appends an entry at the end of the ## Results section (before the next ## heading or the
+ * `*Last updated*` footer). Creates the section before the footer when missing. Updates the footer timestamp.
+ */
+export function appendResultEntry(content: string, entry: string, now: Date = new Date()): string {
+  const nl = content.includes('\r\n') ? '\r\n' : '\n';
+  let text = content.replace(/\r\n/g, '\n');
+  const block = `\n${entry}\n`;
+
+  const section = findResultsSection(text);
+  if (section) {
+    const before = text.slice(0, section.end).replace(/\n*$/, '\n');
+    const after = text.slice(section.end);
+    text = before + block + (after.startsWith('\n') || after === '' ? after : '\n' + after);
+  } else {
+    const footer = FOOTER_RE.exec(text);
+    const bodyEnd = footer ? footer.index : text.length;
+    const before = text.slice(0, bodyEnd).replace(/\n*$/, '\n');
+    text = `${before}\n${RESULTS_HEADING}\n${block}${text.slice(bodyEnd)}`;
+  }
+
+  text = text.replace(LAST_UPDATED_RE, `*Last updated: ${formatTimestamp(now)}*`);
+  return nl === '\n' ? text : text.replace(/\n/g, nl);
+}
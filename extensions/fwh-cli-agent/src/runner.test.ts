@@ -7,7 +7,9 @@ import { strict as assert } from 'assert';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
-import { runInComposer, runWithAgentCli } from './runner';
+import { runInComposer, runWithAgentCli, runCommandExecutor } from './runner';
+import type { CommandExecutor } from './executors';
+import { RunCancelledError, RunTimeoutError, AgentExitError } from './errors';
 
 describe('runner', () => {
   describe('runInComposer', () => {
@@ -69,7 +71,7 @@ describe('runner', () => {
           stderr: { setEncoding: () => {}, on: () => {} },
           on: (ev: string, cb: (arg?: unknown) => void) => { handlers[ev] = cb; return proc; },
         };
-        setTimeout(() => handlers['close']?.(undefined), 0);
+        setTimeout(() => handlers['close']?.(0), 0);
         return proc as unknown as ReturnType<typeof import('child_process').spawn>;
       };
 
@@ -103,6 +105,85 @@ describe('runner', () => {
       }
     });
 
+    /** Mock process that emits chunks on stdout/stderr and then closes with exitCode (unless exitCode is undefined). */
+    const chunkedSpawn = (exitCode: number | null | undefined, handlers: Record<string, (arg?: unknown) => void> = {}) => () => {
+      const stream = (chunks: string[]) => ({
+        setEncoding: () => {},
+        on: (ev: string, cb: (c: string) => void) => {
+          if (ev === 'data') setTimeout(() => chunks.forEach(cb), 0);
+        },
+      });
+      const proc = {
+        pid: 4242,
+        stdout: stream(['hello ', 'world\n']),
+        stderr: stream(['warn\n']),
+        on: (ev: string, cb: (arg?: unknown) => void) => { handlers[ev] = cb; return proc; },
+      };
+      if (exitCode !== undefined) setTimeout(() => handlers['close']?.(exitCode), 5);
+      return proc as unknown as ReturnType<typeof import('child_process').spawn>;
+    };
+
+    it('returns captured stdout/stderr, exit code and timestamps', async () => {
+      const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-runner3-'));
+      try {
+        const streamed: string[] = [];
+        const r = await runWithAgentCli(
+          { spawn: chunkedSpawn(0) },
+          'p',
+          tmp,
+          { append: (s) => streamed.push(s), appendLine: () => {} }
+        );
+        assert.strictEqual(r.exitCode, 0);
+        assert.strictEqual(r.output, 'hello world\nwarn\n');
+        assert.strictEqual(streamed.join(''), r.output);
+        assert.ok(r.finishedAt.getTime() >= r.startedAt.getTime());
+      } finally {
+        try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
+      }
+    });
+
+    it('rejects with AgentExitError carrying the captured result on non-zero exit', async () => {
+      const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-runner5-'));
+      try {
+        await assert.rejects(
+          runWithAgentCli({ spawn: chunkedSpawn(3) }, 'p', tmp, { append: () => {}, appendLine: () => {} }),
+          (e: unknown) => {
+            assert.ok(e instanceof AgentExitError);
+            assert.strictEqual(e.result.exitCode, 3);
+            assert.strictEqual(e.result.output, 'hello world\nwarn\n');
+            return true;
+          }
+        );
+      } finally {
+        try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
+      }
+    });
+
+    it('kills the process tree and rejects with RunTimeoutError when timeoutMs elapses', async function () {
+      if (process.platform === 'win32') this.skip();
+      const handlers: Record<string, (arg?: unknown) => void> = {};
+      const kills: number[] = [];
+      const kill = (pid: number) => {
+        kills.push(pid);
+        setTimeout(() => handlers['close']?.(null), 0);
+      };
+      const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-runner6-'));
+      try {
+        await assert.rejects(
+          runWithAgentCli({ spawn: chunkedSpawn(undefined, handlers), kill }, 'p', tmp, { append: () => {}, appendLine: () => {} }, { timeoutMs: 20 }),
+          (e: unknown) => {
+            assert.ok(e instanceof RunTimeoutError);
+            assert.strictEqual(e.timeoutMs, 20);
+            assert.strictEqual(e.result.output, 'hello world\nwarn\n');
+            return true;
+          }
+        );
+        assert.deepStrictEqual(kills, [-4242]);
+      } finally {
+        try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
+      }
+    });
+
     it('rejects when spawn emits error', async () => {
       const err = new Error('spawn ENOENT');
       const mockSpawn = () => {
@@ -133,5 +214,119 @@ describe('runner', () => {
         try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
       }
     });
+  
+    it('kills the process group and rejects with RunCancelledError when aborted', async function () {
+      if (process.platform === 'win32') this.skip();
+      const handlers: Record<string, (arg?: unknown) => void> = {};
+      let spawnOpts: { cwd: string; detached?: boolean } | undefined;
+      const mockSpawn = (_cmd: string, _args: string[], opts: { cwd: string; detached?: boolean }) => {
+        spawnOpts = opts;
+        const proc = {
+          pid: 4242,
+          stdout: { setEncoding: () => {}, on: () => {} },
+          stderr: { setEncoding: () => {}, on: () => {} },
+          on: (ev: string, cb: (arg?: unknown) => void) => { handlers[ev] = cb; return proc; },
+        };
+        return proc as unknown as ReturnType<typeof import('child_process').spawn>;
+      };
+      const kills: [number, string][] = [];
+      const kill = (pid: number, sig: NodeJS.Signals) => {
+        kills.push([pid, sig]);
+        setTimeout(() => handlers['close']?.(null), 0);
+      };
+
+      const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-runner4-'));
+      try {
+        const controller = new AbortController();
+        const run = runWithAgentCli({ spawn: mockSpawn, kill }, 'p', tmp, { append: () => {}, appendLine: () => {} }, { signal: controller.signal });
+        controller.abort();
+        await assert.rejects(run, RunCancelledError);
+        assert.deepStrictEqual(kills, [[-4242, 'SIGTERM']]);
+        assert.strictEqual(spawnOpts!.detached, true);
+        assert.deepStrictEqual(fs.readdirSync(path.join(tmp, '.cursor')), []);
+      } finally {
+        try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
+      }
+    });
+
+    it('sends SIGKILL to the process group when it ignores SIGTERM', async function () {
+      if (process.platform === 'win32') this.skip();
+      const handlers: Record<string, (arg?: unknown) => void> = {};
+      const kills: [number, string][] = [];
+      const kill = (pid: number, sig: NodeJS.Signals) => {
+        kills.push([pid, sig]);
+        if (sig === 'SIGKILL') setTimeout(() => handlers['close']?.(null), 0);
+      };
+      const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-runner7-'));
+      try {
+        const run = runWithAgentCli(
+          { spawn: chunkedSpawn(undefined, handlers), kill, killGraceMs: 20 },
+          'p',
+          tmp,
+          { append: () => {}, appendLine: () => {} },
+          { timeoutMs: 10 }
+        );
+        await assert.rejects(run, RunTimeoutError);
+        assert.deepStrictEqual(kills, [[-4242, 'SIGTERM'], [-4242, 'SIGKILL']]);
+      } finally {
+        try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
+      }
+    });
+
+    it('rejects without spawning when already aborted', async () => {
+      let spawned = false;
+      const controller = new AbortController();
+      controller.abort();
+      await assert.rejects(
+        runWithAgentCli(
+          { spawn: () => { spawned = true; throw new Error('unexpected'); } },
+          'p',
+          os.tmpdir(),
+          { append: () => {}, appendLine: () => {} },
+          { signal: controller.signal }
+        ),
+        RunCancelledError
+      );
+      assert.strictEqual(spawned, false);
+    });
+  });
+
+  describe('runCommandExecutor', () => {
+    const out = { append: () => {}, appendLine: () => {} };
+
+    it('runs the command line with the prompt file, env and cwd (stub executor echoing the prompt)', async function () {
+      if (process.platform === 'win32') this.skip();
+      const { spawn } = await import('child_process');
+      const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-exec-'));
+      try {
+        fs.mkdirSync(path.join(tmp, 'sub'));
+        const executor: CommandExecutor = {
+          kind: 'command',
+          name: 'echo',
+          commandLine: 'cat {promptFile}; echo " $FWH_TEST_VAR $(basename "$PWD")"',
+          env: { FWH_TEST_VAR: 'from-env' },
+          cwd: path.join(tmp, 'sub'),
+          outputFormat: 'text',
+        };
+        const r = await runCommandExecutor({ spawn }, executor, "it's a prompt", tmp, out);
+        assert.strictEqual(r.exitCode, 0);
+        assert.strictEqual(r.output, "it's a prompt from-env sub\n");
+        assert.deepStrictEqual(fs.readdirSync(path.join(tmp, '.cursor')), []);
+      } finally {
+        try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
+      }
+    });
+
+    it('names the executor in AgentExitError', async function () {
+      if (process.platform === 'win32') this.skip();
+      const { spawn } = await import('child_process');
+      const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-exec2-'));
+      try {
+        const executor: CommandExecutor = { kind: 'command', name: 'fail', commandLine: 'exit 4', env: {}, cwd: tmp, outputFormat: 'text' };
+        await assert.rejects(runCommandExecutor({ spawn }, executor, 'p', tmp, out), /Executor "fail" exited with code 4/);
+      } finally {
+        try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
+      }
+    });
   });
 });
@@ -1,12 +1,17 @@
 /**
- * Run prompt in Composer or via agent-cli. Accepts injected deps for testing.
- * CR-EXT-1.5.2: runInComposer and runWithAgentCli testable with mocked
+ * Run prompt in Composer, via agent-cli or via a command executor from cli-agent.json. Accepts injected deps for testing.
+ * CR-EXT-1.5.2: runInComposer, runWithAgentCli and runCommandExecutor testable with mocked
  * vscode.env.clipboard, vscode.commands.executeCommand, spawn.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { ChildProcess } from 'child_process';
+import { RunCancelledError, RunTimeoutError, AgentExitError } from './errors';
+import { AGENT_CLI_EXECUTOR, agentCliCommandLine, expandExecutorTemplate, quoteShellArg } from './executors';
+import type { CommandExecutor } from './executors';
+
+let _promptFileSeq = 0;
 
 export interface RunInComposerDeps {
   executeCommand: (command: string) => Promise<unknown>;
@@ -16,14 +21,33 @@ export interface RunInComposerDeps {
 }
 
 export interface RunWithAgentCliDeps {
-  spawn: (command: string, args: string[], options: { cwd: string }) => ChildProcess;
+  spawn: (command: string, args: string[], options: { cwd: string; detached?: boolean; env?: NodeJS.ProcessEnv }) => ChildProcess;
+  /** Signals a process or (negative pid) process group. Defaults to process.kill. */
+  kill?: (pid: number, signal: NodeJS.Signals) => void;
+  /** How long a killed process may take to exit after SIGTERM before it gets SIGKILL. Defaults to 5000 ms. */
+  killGraceMs?: number;
 }
 
+
 export interface OutputChannelLike {
   append: (s: string) => void;
   appendLine: (s: string) => void;
 }
 
+/** Options for runWithAgentCli/runCommandExecutor. timeoutMs <= 0 or unset means no timeout. */
+export interface AgentCliRunOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/** Captured result of an agent-cli or command executor run; recorded in CLI.md ## Results by the extension. */
+export interface AgentCliResult {
+  exitCode: number | null;
+  output: string;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
 export async function runInComposer(
   deps: RunInComposerDeps,
   promptText: string,
@@ -45,42 +69,145 @@ export async function runInComposer(
 }
 
 /**
- * Runs the prompt via `agent -p` in a subprocess. Writes prompt to a temp file (CR-EXT-1.1.3: mode 0o600, unlinked in finally).
- * Do not include secrets in prompts; the file may persist briefly if the process is killed.
+ * Kills a spawned shell and everything it started: `taskkill /T /F` on Windows, otherwise SIGTERM to the
+ * process group (runWithAgentCli spawns detached so the shell leads its own group), then SIGKILL after
+ * deps.killGraceMs unless the returned function is called first (once the process has exited).
+ */
+export function killProcessTree(p: ChildProcess, deps: RunWithAgentCliDeps, cwd: string): () => void {
+  const pid = p.pid;
+  if (pid == null) return () => {};
+  if (process.platform === 'win32') {
+    deps.spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { cwd });
+    return () => {};
+  }
+  const kill = deps.kill ?? ((id: number, sig: NodeJS.Signals) => process.kill(id, sig));
+  const signal = (sig: NodeJS.Signals) => {
+    try {
+      kill(-pid, sig);
+    } catch {
+      try { kill(pid, sig); } catch { /* already exited */ }
+    }
+  };
+  signal('SIGTERM');
+  const timer = setTimeout(() => signal('SIGKILL'), deps.killGraceMs ?? 5000);
+  timer.unref?.();
+  return () => clearTimeout(timer);
+}
+
+/**
+ * Runs the prompt via `agent -p` in a subprocess: the built-in agent-cli executor.
+ * Rejects like runCommandExecutor.
  */
 export async function runWithAgentCli(
   deps: RunWithAgentCliDeps,
   promptText: string,
   workspaceRoot: string,
-  output: OutputChannelLike
-): Promise<void> {
+  output: OutputChannelLike,
+  options: AgentCliRunOptions = {}
+): Promise<AgentCliResult> {
+  const executor: CommandExecutor = {
+    kind: 'command',
+    name: AGENT_CLI_EXECUTOR,
+    commandLine: agentCliCommandLine(),
+    env: {},
+    cwd: workspaceRoot,
+    outputFormat: 'text',
+  };
+  return runCommandExecutor(deps, executor, promptText, workspaceRoot, output, options);
+}
+
+/**
+ * Runs a command executor: writes the prompt to a temp file under .cursor (CR-EXT-1.1.3: mode 0o600, unlinked in finally),
+ * expands `{promptFile}`/`{workspaceRoot}`/`{model}` in its command line and runs it with `sh -c` (PowerShell on Windows)
+ * in executor.cwd with executor.env added to the environment.
+ * Callers check the prompt for secrets first (secrets.ts); the file may persist briefly if the process is killed.
+ * Streams stdout/stderr to output and also returns them captured with the exit code and timestamps.
+ * Rejects with RunCancelledError when signal aborts and RunTimeoutError when timeoutMs elapses (both kill the
+ * process tree), and with AgentExitError on a non-zero or unknown exit code.
+ */
+export async function runCommandExecutor(
+  deps: RunWithAgentCliDeps,
+  executor: CommandExecutor,
+  promptText: string,
+  workspaceRoot: string,
+  output: OutputChannelLike,
+  options: AgentCliRunOptions = {}
+): Promise<AgentCliResult> {
+  const { signal, timeoutMs } = options;
+  if (signal?.aborted) throw new RunCancelledError();
   const dir = path.join(workspaceRoot, '.cursor');
   if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-  const promptFile = path.join(dir, `fwh-cli-agent-prompt-${Date.now()}.txt`);
+  // pid + sequence: parallel runs (fan-out, workflow stages) start within the same millisecond.
+  const promptFile = path.join(dir, `fwh-cli-agent-prompt-${Date.now()}-${process.pid}-${++_promptFileSeq}.txt`);
   fs.writeFileSync(promptFile, promptText, { encoding: 'utf8', mode: 0o600 });
 
   const isWin = process.platform === 'win32';
-  const escapedPath = promptFile.replace(/'/g, "''");
-  const winCmd = `& { $p = Get-Content -Raw -LiteralPath '${escapedPath}'; agent -p $p --output-format text 2>&1 }`;
-  const unixCmd = `agent -p "$(cat '${promptFile.replace(/'/g, "'\\''")}')" --output-format text 2>&1`;
+  const vars = { promptFile, workspaceRoot, model: executor.model };
+  const cmd = expandExecutorTemplate(executor.commandLine, vars, (v) => quoteShellArg(v));
+  const name = executor.name;
 
-  output.appendLine('[Cursor CLI] Running agent-cli...');
+  output.appendLine(`[Cursor CLI] Running ${name}...`);
+  const startedAt = new Date();
+  const captured: string[] = [];
+  const onData = (chunk: string | Buffer) => {
+    const text = chunk.toString();
+    captured.push(text);
+    output.append(text);
+  };
 
-  const p = deps.spawn(isWin ? 'powershell' : 'sh', isWin ? ['-NoProfile', '-ExecutionPolicy', 'Bypass', '-Command', winCmd] : ['-c', unixCmd], {
-    cwd: workspaceRoot,
+  const p = deps.spawn(isWin ? 'powershell' : 'sh', isWin ? ['-NoProfile', '-ExecutionPolicy', 'Bypass', '-Command', cmd] : ['-c', cmd], {
+    cwd: executor.cwd,
+    detached: !isWin,
+    ...(Object.keys(executor.env).length > 0 ? { env: { ...process.env, ...executor.env } } : {}),
   });
 
-  if (p.stdout) { p.stdout.setEncoding('utf8'); p.stdout.on('data', (chunk: string | Buffer) => output.append(chunk.toString())); }
-  if (p.stderr) { p.stderr.setEncoding('utf8'); p.stderr.on('data', (chunk: string | Buffer) => output.append(chunk.toString())); }
+  if (p.stdout) { p.stdout.setEncoding('utf8'); p.stdout.on('data', onData); }
+  if (p.stderr) { p.stderr.setEncoding('utf8'); p.stderr.on('data', onData); }
 
   try {
-    await new Promise<void>((resolve, reject) => {
+    let stopped: 'cancelled' | 'timedOut' | undefined;
+    let timer: NodeJS.Timeout | undefined;
+    let exited: (() => void) | undefined;
+    const exitCode = await new Promise<number | null>((resolve, reject) => {
+      const stop = (reason: 'cancelled' | 'timedOut') => {
+        if (stopped) return;
+        stopped = reason;
+        output.appendLine(
+          reason === 'cancelled'
+            ? `\n[Cursor CLI] Cancelling ${name} run...`
+            : `\n[Cursor CLI] ${name} run timed out after ${Math.round((timeoutMs ?? 0) / 1000)}s; killing it...`
+        );
+        exited = killProcessTree(p, deps, executor.cwd);
+      };
+      const onAbort = () => stop('cancelled');
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (timeoutMs && timeoutMs > 0) timer = setTimeout(() => stop('timedOut'), timeoutMs);
+      const cleanup = () => {
+        signal?.removeEventListener('abort', onAbort);
+        if (timer) clearTimeout(timer);
+        exited?.();
+      };
       p.on('close', (code) => {
-        output.appendLine(`\n[Cursor CLI] Agent finished (exit ${code != null ? code : '?'})`);
-        resolve();
+        cleanup();
+        resolve(code);
+      });
+      p.on('error', (err) => {
+        cleanup();
+        reject(err);
       });
-      p.on('error', (err) => reject(err));
     });
+    const result: AgentCliResult = { exitCode, output: captured.join(''), startedAt, finishedAt: new Date() };
+    if (stopped === 'cancelled') {
+      output.appendLine(`[Cursor CLI] ${name} cancelled.`);
+      throw new RunCancelledError();
+    }
+    if (stopped === 'timedOut') {
+      output.appendLine(`[Cursor CLI] ${name} timed out.`);
+      throw new RunTimeoutError(timeoutMs ?? 0, result);
+    }
+    output.appendLine(`\n[Cursor CLI] ${name} finished (exit ${exitCode != null ? exitCode : '?'})`);
+    if (exitCode !== 0) throw new AgentExitError(result, name === AGENT_CLI_EXECUTOR ? 'Agent' : `Executor "${name}"`);
+    return result;
   } finally {
     try {
       if (fs.existsSync(promptFile)) fs.unlinkSync(promptFile);
@@ -0,0 +1,212 @@
+/**
+ * Secret scanning for prompt text before it leaves the editor (a run, the prompt file of a command executor or the
+ * clipboard). Detectors are plain functions: built-in key and connection-string patterns, high-entropy tokens,
+ * .env values of the workspace folder and custom patterns from cli-agent.json CliAgent.SecretScan; other
+ * extensions add their own through FwhCliAgentApi.registerSecretDetector. No vscode dependency.
+ * Findings carry offsets and a rule name only, so they can be logged without the secret.
+ */
+
+import { SecretScanConfigError } from './errors';
+
+/** A possible secret at [start, end) of the scanned text. */
+export interface SecretFinding {
+  /** What matched, e.g. `GitHub token` or `.env value DB_PASSWORD`; safe to log. */
+  rule: string;
+  start: number;
+  end: number;
+}
+
+/** Finds possible secrets in text. Findings may overlap; scanForSecrets merges them. */
+export type SecretDetector = (text: string) => SecretFinding[];
+
+/** Scans text with the detectors of a workspace folder. */
+export type SecretScanner = (text: string) => SecretFinding[];
+
+/** cli-agent.json CliAgent.SecretScan. */
+export interface SecretScanConfig {
+  /** false turns scanning off for the folder (default true). */
+  Enabled?: boolean;
+  /** Shannon entropy (bits per character) above which a long token counts as a secret; 0 turns the check off. */
+  MinEntropy?: number;
+  /** .env files whose values are secrets, relative to the folder (default: the folder's .env and .env.* files). */
+  EnvFiles?: string[];
+  /** Custom patterns by rule name; a `secret` named group (else the whole match) is what gets redacted. */
+  Patterns?: Record<string, string>;
+  /** Patterns of values that are never reported (test keys, known placeholders). */
+  Allow?: string[];
+}
+
+/** A variable of a .env file. */
+export interface EnvValue {
+  name: string;
+  value: string;
+}
+
+export const DEFAULT_MIN_ENTROPY = 4.2;
+/** Tokens shorter than this are not checked for entropy. */
+const MIN_ENTROPY_LENGTH = 24;
+/** .env values shorter than this (ports, flags, `true`) are not treated as secrets. */
+const MIN_ENV_VALUE_LENGTH = 8;
+
+/** Key and connection-string formats that are secrets whatever their entropy. */
+export const BUILTIN_SECRET_PATTERNS: readonly { rule: string; pattern: RegExp }[] = [
+  { rule: 'private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { rule: 'AWS access key id', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { rule: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,})\b/g },
+  { rule: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { rule: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { rule: 'Stripe key', pattern: /\b[rs]k_live_[0-9A-Za-z]{16,}/g },
+  { rule: 'API key', pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+  { rule: 'JSON web token', pattern: /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{8,}/g },
+  { rule: 'URL credentials', pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:(?<secret>[^\s@/]+)@/gi },
+  { rule: 'connection string password', pattern: /\b(?:Password|Pwd)\s*=\s*(?<secret>[^;'"\s]+)/gi },
+  { rule: 'connection string key', pattern: /\b(?:AccountKey|SharedAccessKey|SharedSecret)\s*=\s*(?<secret>[^;'"\s]+)/gi },
+  {
+    rule: 'assigned secret',
+    pattern: /\b(?:api[_-]?key|secret(?:[_-]?key)?|access[_-]?token|auth[_-]?token|client[_-]?secret|passw(?:or)?d)\b["']?\s*[:=]\s*["']?(?<secret>[^\s"',;]{8,})/gi,
+  },
+];
+
+/** Shannon entropy of s in bits per character. */
+export function shannonEntropy(s: string): number {
+  if (!s) return 0;
+  const counts = new Map<string, number>();
+  for (const c of s) counts.set(c, (counts.get(c) ?? 0) + 1);
+  let bits = 0;
+  for (const n of counts.values()) {
+    const p = n / s.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+/** Matches of pattern (which must be global); the `secret` group, else the whole match, is the finding. */
+export function patternDetector(rule: string, pattern: RegExp): SecretDetector {
+  return (text) => {
+    const found: SecretFinding[] = [];
+    for (const m of text.matchAll(pattern)) {
+      const secret = m.groups?.secret ?? m[0];
+      if (!secret) continue;
+      const start = (m.index ?? 0) + (m.groups?.secret !== undefined ? m[0].lastIndexOf(secret) : 0);
+      found.push({ rule, start, end: start + secret.length });
+    }
+    return found;
+  };
+}
+
+/**
+ * Long base64/hex-like tokens mixing upper case, lower case and digits whose entropy is at least minEntropy.
+ * Requiring all three classes keeps hex hashes, UUIDs and identifiers out.
+ */
+export function entropyDetector(minEntropy = DEFAULT_MIN_ENTROPY): SecretDetector {
+  return (text) => {
+    const found: SecretFinding[] = [];
+    for (const m of text.matchAll(/[A-Za-z0-9+/_=-]+/g)) {
+      const token = m[0].replace(/=+$/, '');
+      if (token.length < MIN_ENTROPY_LENGTH || !/[a-z]/.test(token) || !/[A-Z]/.test(token) || !/\d/.test(token)) continue;
+      if (shannonEntropy(token) < minEntropy) continue;
+      found.push({ rule: 'high-entropy string', start: m.index ?? 0, end: (m.index ?? 0) + m[0].length });
+    }
+    return found;
+  };
+}
+
+/** Occurrences of known secret values, e.g. those of the folder's .env files. */
+export function valuesDetector(values: readonly EnvValue[]): SecretDetector {
+  const usable = values.filter((v) => v.value.length >= MIN_ENV_VALUE_LENGTH);
+  return (text) => {
+    const found: SecretFinding[] = [];
+    for (const { name, value } of usable) {
+      for (let i = text.indexOf(value); i >= 0; i = text.indexOf(value, i + value.length)) {
+        found.push({ rule: `.env value ${name}`, start: i, end: i + value.length });
+      }
+    }
+    return found;
+  };
+}
+
+/** Variables of a .env file: `KEY=value` lines (optionally `export`ed, quoted or with a trailing # comment). */
+export function parseEnvValues(content: string): EnvValue[] {
+  const values: EnvValue[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const m = /^\s*(?:export\s+)?([A-Za-z_][\w.-]*)\s*=\s*(.*)$/.exec(line);
+    if (!m) continue;
+    let value = m[2].trim();
+    const quoted = /^(["'`])([\s\S]*)\1$/.exec(value);
+    value = quoted ? quoted[2] : value.replace(/\s+#.*$/, '');
+    if (value) values.push({ name: m[1], value });
+  }
+  return values;
+}
+
+/** Compiles a cli-agent.json pattern; throws SecretScanConfigError when it is not a valid regular expression. */
+function compilePattern(source: string, what: string, flags = 'g'): RegExp {
+  try {
+    return new RegExp(source, flags);
+  } catch (e) {
+    throw new SecretScanConfigError(`SecretScan ${what} is not a valid regular expression: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/**
+ * Findings of all detectors, sorted and without overlaps (the earlier, then the longer finding wins). Findings whose
+ * text matches one of allow (non-global patterns) are dropped.
+ */
+export function scanForSecrets(text: string, detectors: readonly SecretDetector[], allow: readonly RegExp[] = []): SecretFinding[] {
+  const all = detectors.flatMap((d) => d(text)).filter((f) => f.end > f.start);
+  all.sort((a, b) => a.start - b.start || b.end - a.end);
+  const kept: SecretFinding[] = [];
+  for (const f of all) {
+    if (kept.length > 0 && f.start < kept[kept.length - 1].end) continue;
+    const value = text.slice(f.start, f.end);
+    if (allow.some((re) => re.test(value))) continue;
+    kept.push(f);
+  }
+  return kept;
+}
+
+/**
+ * Scanner for a workspace folder: the built-in patterns, the entropy check, its .env values, the custom
+ * SecretScan.Patterns and extra detectors (registered by other extensions). Scans nothing when SecretScan.Enabled
+ * is false. Throws SecretScanConfigError for invalid patterns.
+ */
+export function createSecretScanner(
+  config: SecretScanConfig | undefined,
+  envValues: readonly EnvValue[] = [],
+  extra: readonly SecretDetector[] = []
+): SecretScanner {
+  if (config?.Enabled === false) return () => [];
+  const detectors: SecretDetector[] = BUILTIN_SECRET_PATTERNS.map((p) => patternDetector(p.rule, p.pattern));
+  const minEntropy = config?.MinEntropy ?? DEFAULT_MIN_ENTROPY;
+  if (typeof minEntropy !== 'number' || minEntropy < 0) throw new SecretScanConfigError(`SecretScan MinEntropy must be a number >= 0: ${minEntropy}`);
+  if (minEntropy > 0) detectors.push(entropyDetector(minEntropy));
+  if (envValues.length > 0) detectors.push(valuesDetector(envValues));
+  for (const [rule, source] of Object.entries(config?.Patterns ?? {})) {
+    detectors.push(patternDetector(rule, compilePattern(source, `pattern '${rule}'`)));
+  }
+  detectors.push(...extra);
+  const allow = (config?.Allow ?? []).map((source, i) => compilePattern(source, `Allow entry ${i + 1}`, ''));
+  return (text) => scanForSecrets(text, detectors, allow);
+}
+
+/** text with each finding replaced by `[REDACTED: <rule>]`. */
+export function redactSecrets(text: string, findings: readonly SecretFinding[]): string {
+  let out = '';
+  let pos = 0;
+  for (const f of [...findings].sort((a, b) => a.start - b.start)) {
+    if (f.start < pos) continue;
+    out += text.slice(pos, f.start) + `[REDACTED: ${f.rule}]`;
+    pos = f.end;
+  }
+  return out + text.slice(pos);
+}
+
+/** One line per finding for logs and messages, e.g. `line 3, column 12: GitHub token (40 characters)`; never the value. */
+export function describeSecretFindings(text: string, findings: readonly SecretFinding[]): string[] {
+  return findings.map((f) => {
+    const before = text.slice(0, f.start);
+    const line = before.split('\n').length;
+    const column = f.start - before.lastIndexOf('\n');
+    return `line ${line}, column ${column}: ${f.rule} (${f.end - f.start} characters)`;
+  });
+}
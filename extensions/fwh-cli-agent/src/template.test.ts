@@ -0,0 +1,94 @@
+/**
+ * Unit tests for fillPromptTemplate (defaults and required parameters) and its use in substituteTemplate.
+ */
+
+import { strict as assert } from 'assert';
+import { fillPromptTemplate } from './template';
+import type { TemplateParam } from './template';
+import { CONTEXT_PLACEHOLDER_RE, parsePromptsMd } from './parser';
+
+describe('template', () => {
+  const params: TemplateParam[] = [
+    { name: 'FeatureName', required: false, default: 'all features' },
+    { name: 'Requirements', required: true, default: '' },
+    { name: 'Language', required: true, default: 'C#' },
+    { name: 'Notes', required: false, default: '-' },
+  ];
+  const template = 'Review {FeatureName} in {Language}: {Requirements}. {Notes}{Unknown}';
+
+  describe('fillPromptTemplate', () => {
+    it('uses values, then defaults, else empty', () => {
+      const r = fillPromptTemplate(template, params, { FeatureName: 'login', Requirements: 'fast' });
+      assert.strictEqual(r.text, 'Review login in C#: fast. ');
+      assert.deepStrictEqual(r.missing, []);
+      assert.deepStrictEqual(r.unresolved, ['Notes', 'Unknown']);
+    });
+
+    it('treats blank values as unset so defaults still apply', () => {
+      const r = fillPromptTemplate('{FeatureName}', params, { FeatureName: '   ' });
+      assert.strictEqual(r.text, 'all features');
+      assert.deepStrictEqual(r.parts, [{ kind: 'default', text: 'all features', placeholder: '{FeatureName}' }]);
+    });
+
+    it('reports required parameters with neither value nor default as missing', () => {
+      const r = fillPromptTemplate(template, params, { Language: '' });
+      assert.deepStrictEqual(r.missing, ['Requirements']);
+    });
+
+    it('returns parts for the preview', () => {
+      const r = fillPromptTemplate('a {X} b {FeatureName} {Requirements}', params, { X: '1' });
+      assert.deepStrictEqual(r.parts, [
+        { kind: 'literal', text: 'a ' },
+        { kind: 'value', text: '1', placeholder: '{X}' },
+        { kind: 'literal', text: ' b ' },
+        { kind: 'default', text: 'all features', placeholder: '{FeatureName}' },
+        { kind: 'literal', text: ' ' },
+        { kind: 'unresolved', text: '', placeholder: '{Requirements}' },
+      ]);
+    });
+
+    it('trims placeholder names and ignores inherited properties', () => {
+      assert.strictEqual(fillPromptTemplate('{ A }{constructor}', [], { A: 'x' }).text, 'x');
+    });
+
+    it('keeps workspace context placeholders for run time and fills parameters inside them', () => {
+      const r = fillPromptTemplate('Fix {file:{Path}} for {env:USER} {selection}', [{ name: 'Path', required: true, default: '' }], { Path: 'src/a.ts' });
+      assert.strictEqual(r.text, 'Fix {file:src/a.ts} for {env:USER} {selection}');
+      assert.deepStrictEqual(r.unresolved, []);
+      const git = fillPromptTemplate('{git.stagedDiff} {git.branchDiff:{Base}}', [{ name: 'Base', required: false, default: 'main' }], {});
+      assert.strictEqual(git.text, '{git.stagedDiff} {git.branchDiff:main}');
+    });
+
+    it('escapes context placeholders in filled values so only the template\'s are expanded', () => {
+      const r = fillPromptTemplate('{file:{Path}} {Notes}', [], { Path: 'a.ts', Notes: 'see {env:AWS_SECRET_ACCESS_KEY} and { file:../x } but {Other}' });
+      assert.strictEqual(r.text, '{file:a.ts} see {{env:AWS_SECRET_ACCESS_KEY}} and {{ file:../x }} but {Other}');
+    });
+
+    it('recognises the same context placeholders as the parser', () => {
+      assert.ok(fillPromptTemplate.toString().includes(`const context = /${CONTEXT_PLACEHOLDER_RE.source}/;`));
+    });
+
+    it('is self-contained so the webview can embed its source', () => {
+      const embedded = new Function(`return ${fillPromptTemplate.toString()};`)() as typeof fillPromptTemplate;
+      const values = { FeatureName: '', Requirements: 'r' };
+      assert.deepStrictEqual(embedded(template, params, values), fillPromptTemplate(template, params, values));
+    });
+
+    it('fills code-review from prompts.md with its defaults', () => {
+      const md = [
+        '## code-review',
+        '',
+        'Review {FeatureName} at {FilePath}.',
+        '',
+        '### Parameters',
+        '',
+        '| Parameter | Description | Required | Default |',
+        '|-----------|-------------|----------|---------|',
+        '| FeatureName | Name of the feature | No | all features |',
+        '| FilePath | Path to the file | No | the entire solution |',
+      ].join('\n');
+      const [p] = parsePromptsMd(md);
+      assert.strictEqual(fillPromptTemplate(p.template, p.parameters, { FeatureName: '' }).text, 'Review all features at the entire solution.');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Placeholder substitution for prompts.md templates. No vscode dependency.
+ * fillPromptTemplate is also embedded in the prompt form webview (via toString), so the preview, the inline
+ * required-field errors and the text that is run come from the same code.
+ */
+
+/** The parts of ParsedPromptParam that substitution needs. */
+export interface TemplateParam {
+  name: string;
+  required: boolean;
+  default: string;
+}
+
+/** A run of the filled text: literal template text, a value, a default, or an unresolved placeholder (text is ''). */
+export interface TemplatePart {
+  kind: 'literal' | 'value' | 'default' | 'unresolved';
+  text: string;
+  /** The `{Name}` placeholder for non-literal parts. */
+  placeholder?: string;
+}
+
+export interface FilledTemplate {
+  text: string;
+  parts: TemplatePart[];
+  /** Required parameters with neither a value nor a default. */
+  missing: string[];
+  /** Placeholders left empty because they have neither a value nor a default (unique, in order). */
+  unresolved: string[];
+}
+
+/**
+ * Replaces every `{Name}` in template: a non-blank value wins, then the parameter's default from the
+ * ### Parameters table (`-` means none), else ''. A required parameter is missing when it has neither.
+ * Workspace context placeholders (parser CONTEXT_PLACEHOLDER_RE, e.g. `{file:src/a.ts}`) that are not parameters
+ * are kept as literal text for expansion at run time; `{file:{Path}}` fills Path first. Context placeholders inside
+ * a filled value are escaped as `{{file:...}}`, so only those written in the template are expanded.
+ * Must stay self-contained (no imports or helpers): its source is embedded in the webview script.
+ */
+export function fillPromptTemplate(
+  template: string,
+  parameters: readonly TemplateParam[],
+  values: Readonly<Record<string, string>>
+): FilledTemplate {
+  const has = (o: object, k: string) => Object.prototype.hasOwnProperty.call(o, k);
+  const valueOf = (k: string) => (has(values, k) && typeof values[k] === 'string' && values[k].trim() !== '' ? values[k] : '');
+  const defaults: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const p of parameters) {
+    const d = (p.default || '').trim();
+    defaults[p.name] = d === '-' ? '' : d;
+    if (p.required && !valueOf(p.name) && !defaults[p.name] && missing.indexOf(p.name) < 0) missing.push(p.name);
+  }
+  const parts: TemplatePart[] = [];
+  const unresolved: string[] = [];
+  const context = /^(?:(file|glob|env|git\.branchDiff):(.+)|(selection|activeFile|workspaceFolder|git\.stagedDiff|git\.changedFiles|git\.branch))$/;
+  const re = /\{([^{}]+)\}/g;
+  const escaped = (v: string) => v.replace(/\{([^{}]+)\}/g, (ph: string, k: string) => (context.test(k.trim()) ? '{' + ph + '}' : ph));
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(template)) !== null) {
+    if (m.index > last) parts.push({ kind: 'literal', text: template.slice(last, m.index) });
+    const key = m[1].trim();
+    if (!has(defaults, key) && context.test(key)) {
+      parts.push({ kind: 'literal', text: m[0] });
+      last = re.lastIndex;
+      continue;
+    }
+    const v = escaped(valueOf(key));
+    const d = has(defaults, key) ? defaults[key] : '';
+    if (v) parts.push({ kind: 'value', text: v, placeholder: m[0] });
+    else if (d) parts.push({ kind: 'default', text: d, placeholder: m[0] });
+    else {
+      parts.push({ kind: 'unresolved', text: '', placeholder: m[0] });
+      if (unresolved.indexOf(key) < 0) unresolved.push(key);
+    }
+    last = re.lastIndex;
+  }
+  if (last < template.length) parts.push({ kind: 'literal', text: template.slice(last) });
+  return { text: parts.map((p) => p.text).join(''), parts, missing, unresolved };
+}
@@ -0,0 +1,231 @@
+/**
+ * Webview form for authoring a prompts.md template: name, description, body and the ### Parameters table.
+ * The extension checks each edit (checkPromptTemplate) and writes the section on Save.
+ */
+
+import * as vscode from 'vscode';
+import { CONTEXT_PLACEHOLDER_RE, PARAM_TYPES } from './parser';
+import { escapeHtml, scriptJson } from './promptsView';
+import type { PromptTemplateDraft, TemplateDraftCheck } from './promptTemplates';
+
+/** Messages posted by the template form webview: check on every edit, save on the Save button. */
+type TemplateFormMessage = { type: 'check' | 'save'; draft: PromptTemplateDraft };
+
+/** Extension-side actions of the template form. */
+export interface TemplateFormHandlers {
+  /** Problems of the draft and the section it would write. */
+  check: (draft: PromptTemplateDraft) => TemplateDraftCheck & { section: string };
+  /** Writes the draft to prompts.md; true closes the form. Called only for drafts without errors. */
+  onSave: (draft: PromptTemplateDraft) => Promise<boolean>;
+}
+
+/** Open template forms by key (folder and what is being authored), so a second click reveals the first form. */
+const _templatePanels = new Map<string, vscode.WebviewPanel>();
+
+function isDraft(v: unknown): v is PromptTemplateDraft {
+  if (typeof v !== 'object' || v === null) return false;
+  const d = v as Partial<PromptTemplateDraft>;
+  return (
+    typeof d.name === 'string' &&
+    typeof d.description === 'string' &&
+    typeof d.body === 'string' &&
+    Array.isArray(d.parameters) &&
+    d.parameters.every(
+      (p) =>
+        typeof p === 'object' &&
+        p !== null &&
+        typeof p.name === 'string' &&
+        typeof p.description === 'string' &&
+        typeof p.required === 'boolean' &&
+        typeof p.default === 'string' &&
+        typeof p.type === 'string'
+    )
+  );
+}
+
+function getWebviewContent(heading: string, draft: PromptTemplateDraft): string {
+  const typeOptions = PARAM_TYPES.map((t) => `<option value="${t}"></option>`).join('');
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline';">
+  <style>
+    body { font-family: var(--vscode-font-family); font-size: 13px; padding: 12px; }
+    h2 { margin-top: 0; }
+    h3 { margin: 16px 0 6px; }
+    .row { margin-bottom: 10px; }
+    label { display: inline-block; width: 120px; vertical-align: top; }
+    input { width: 420px; }
+    textarea { width: 560px; font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+    table { border-collapse: collapse; }
+    th { text-align: left; font-weight: normal; color: var(--vscode-descriptionForeground); padding: 0 4px; }
+    td { padding: 2px 4px; }
+    td input { width: 140px; }
+    td input.wide { width: 220px; }
+    td input[type="checkbox"] { width: auto; }
+    button { margin-top: 12px; margin-right: 6px; padding: 6px 14px; }
+    button.inline { margin: 0; padding: 2px 8px; }
+    #issues div { margin: 2px 0; }
+    .error { color: var(--vscode-errorForeground); }
+    .warning { color: var(--vscode-editorWarning-foreground, #cc6633); }
+    #section { white-space: pre-wrap; word-break: break-word; max-height: 40vh; overflow: auto; padding: 8px;
+      border: 1px solid var(--vscode-panel-border, #8884); background: var(--vscode-textCodeBlock-background);
+      font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+  </style>
+</head>
+<body>
+  <h2>${escapeHtml(heading)}</h2>
+  <form id="form">
+    <div class="row"><label for="name">Name</label><input id="name" spellcheck="false" placeholder="code-review" /></div>
+    <div class="row"><label for="description">Description</label><input id="description" placeholder="One line shown in the Prompts view" /></div>
+    <div class="row"><label for="body">Body</label><textarea id="body" rows="14" placeholder="Review {FilePath} for ..."></textarea></div>
+    <h3>Parameters</h3>
+    <datalist id="types">${typeOptions}</datalist>
+    <table>
+      <thead><tr><th>Name</th><th>Description</th><th>Required</th><th>Default</th><th>Type</th><th></th></tr></thead>
+      <tbody id="params"></tbody>
+    </table>
+    <button type="button" class="inline" id="addParam">Add parameter</button>
+    <button type="button" class="inline" id="addPlaceholders">Add rows for placeholders</button>
+    <div id="issues"></div>
+    <div class="row"><button type="submit" id="save">Save to prompts.md</button></div>
+  </form>
+  <h3>Section</h3>
+  <pre id="section" aria-readonly="true"></pre>
+  <script>
+    (function() {
+      var draft = ${scriptJson(draft)};
+      var api = typeof acquireVsCodeApi === 'function' ? acquireVsCodeApi() : null;
+      var form = document.getElementById('form');
+      var tbody = document.getElementById('params');
+      var timer;
+
+      function cell(value, cls, checkbox) {
+        var td = document.createElement('td');
+        var input = document.createElement('input');
+        if (checkbox) { input.type = 'checkbox'; input.checked = value; }
+        else { input.value = value; input.spellcheck = false; }
+        if (cls) input.className = cls;
+        if (cls === 'type') input.setAttribute('list', 'types');
+        td.appendChild(input);
+        return td;
+      }
+      function addRow(p) {
+        var tr = document.createElement('tr');
+        tr.appendChild(cell(p.name, 'name'));
+        tr.appendChild(cell(p.description, 'wide'));
+        tr.appendChild(cell(p.required, 'required', true));
+        tr.appendChild(cell(p.default, 'default'));
+        tr.appendChild(cell(p.type, 'type'));
+        var td = document.createElement('td');
+        var remove = document.createElement('button');
+        remove.type = 'button';
+        remove.className = 'inline';
+        remove.textContent = '✕';
+        remove.title = 'Remove parameter';
+        remove.onclick = function() { tr.remove(); changed(); };
+        td.appendChild(remove);
+        tr.appendChild(td);
+        tbody.appendChild(tr);
+      }
+      function current() {
+        var rows = Array.prototype.slice.call(tbody.querySelectorAll('tr'));
+        return {
+          name: document.getElementById('name').value,
+          description: document.getElementById('description').value,
+          body: document.getElementById('body').value,
+          parameters: rows.map(function(tr) {
+            var inputs = tr.querySelectorAll('input');
+            return { name: inputs[0].value, description: inputs[1].value, required: inputs[2].checked, default: inputs[3].value, type: inputs[4].value };
+          }),
+          metadata: draft.metadata
+        };
+      }
+      /** Asks the extension to check the draft shortly after the last edit. */
+      function changed() {
+        clearTimeout(timer);
+        timer = setTimeout(function() { if (api) api.postMessage({ type: 'check', draft: current() }); }, 250);
+      }
+
+      document.getElementById('name').value = draft.name;
+      document.getElementById('description').value = draft.description;
+      document.getElementById('body').value = draft.body;
+      draft.parameters.forEach(addRow);
+
+      form.addEventListener('input', changed);
+      document.getElementById('addParam').onclick = function() {
+        addRow({ name: '', description: '', required: false, default: '', type: 'text' });
+        changed();
+      };
+      /** Adds an optional text row for each {placeholder} in the body that has none (not workspace context ones). */
+      document.getElementById('addPlaceholders').onclick = function() {
+        var listed = current().parameters.map(function(p) { return p.name.trim().toLowerCase(); });
+        var re = /\\{([^{}]+)\\}/g;
+        var context = ${CONTEXT_PLACEHOLDER_RE};
+        var m;
+        while ((m = re.exec(document.getElementById('body').value)) !== null) {
+          var name = m[1].trim();
+          if (!name || listed.indexOf(name.toLowerCase()) >= 0 || context.test(name)) continue;
+          listed.push(name.toLowerCase());
+          addRow({ name: name, description: '', required: false, default: '', type: 'text' });
+        }
+        changed();
+      };
+      form.onsubmit = function(e) {
+        e.preventDefault();
+        if (api) api.postMessage({ type: 'save', draft: current() });
+      };
+      /** Messages from the extension: the problems of the draft and the section it would write. */
+      window.addEventListener('message', function(e) {
+        var m = e.data || {};
+        if (m.type !== 'issues') return;
+        var issues = document.getElementById('issues');
+        issues.textContent = '';
+        (m.errors || []).concat(m.warnings || []).forEach(function(text, i) {
+          var div = document.createElement('div');
+          div.className = i < (m.errors || []).length ? 'error' : 'warning';
+          div.textContent = text;
+          issues.appendChild(div);
+        });
+        document.getElementById('save').disabled = (m.errors || []).length > 0;
+        document.getElementById('section').textContent = m.section || '';
+      });
+      if (api) api.postMessage({ type: 'check', draft: current() });
+    })();
+  </script>
+</body>
+</html>`;
+}
+
+/**
+ * Creates or reveals a template form. key identifies what is authored (e.g. a new template of a folder), title is
+ * the panel title. The form closes after handlers.onSave wrote the section.
+ */
+export function showTemplateForm(key: string, title: string, draft: PromptTemplateDraft, handlers: TemplateFormHandlers): void {
+  const open = _templatePanels.get(key);
+  if (open) {
+    open.reveal();
+    return;
+  }
+  const panel = vscode.window.createWebviewPanel('fwhCliAgent.templateForm', title, vscode.ViewColumn.Beside, {
+    enableScripts: true,
+    retainContextWhenHidden: true,
+  });
+  panel.webview.html = getWebviewContent(title, draft);
+  _templatePanels.set(key, panel);
+  panel.onDidDispose(() => {
+    if (_templatePanels.get(key) === panel) _templatePanels.delete(key);
+  });
+  panel.webview.onDidReceiveMessage(async (m: Partial<TemplateFormMessage>) => {
+    if (!m || !isDraft(m.draft)) return;
+    const check = handlers.check(m.draft);
+    void panel.webview.postMessage({ type: 'issues', ...check });
+    if (m.type !== 'save') return;
+    if (check.errors.length > 0) {
+      void vscode.window.showWarningMessage(`FWH CLI Agent: ${check.errors[0]}`);
+      return;
+    }
+    if (await handlers.onSave(m.draft)) panel.dispose();
+  });
+}
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for prompt workflows: stages, validation, inputs, bindings and running steps.
+ */
+
+import { strict as assert } from 'assert';
+import { parsePromptsMd } from './parser';
+import type { ParsedPrompt, WorkflowStep } from './parser';
+import { expandBinding, isWorkflow, resolveWorkflowInputs, runWorkflow, validateWorkflow, workflowStages } from './workflow';
+import type { Workflow } from './workflow';
+import type { JobStep } from './queue';
+
+const md = [
+  '## lint-check',
+  'Lint {Path}.',
+  '---',
+  '## test-check',
+  'Test {Path} to depth {Depth}.',
+  '---',
+  '## summarize',
+  'Summarize: {Input}',
+  '---',
+  '## review-pipeline',
+  'Review {Path}.',
+  '### Steps',
+  '| Step | Prompt | Mode | Bindings |',
+  '|------|--------|------|----------|',
+  '| lint | lint-check | parallel | Path={Path} |',
+  '| tests | test-check | parallel | Path={Path}; Depth=2 |',
+  '| summary | summarize | sequential | Input={steps.lint.output} / {steps.tests.output} |',
+  '### Parameters',
+  '| Parameter | Description | Required | Default |',
+  '| Path | target | No | src |',
+].join('\n');
+
+function load(): { prompts: ParsedPrompt[]; workflow: Workflow } {
+  const prompts = parsePromptsMd(md);
+  const workflow = prompts.find((p) => p.name === 'review-pipeline');
+  if (!isWorkflow(workflow)) throw new Error('review-pipeline is not a workflow');
+  return { prompts, workflow };
+}
+
+function step(id: string, mode: WorkflowStep['mode'], bindings: Record<string, string> = {}): WorkflowStep {
+  return { id, prompt: 'lint-check', mode, bindings };
+}
+
+describe('workflow', () => {
+  describe('workflowStages', () => {
+    it('groups consecutive parallel steps and keeps sequential steps alone', () => {
+      const stages = workflowStages([step('a', 'sequential'), step('b', 'parallel'), step('c', 'parallel'), step('d', 'sequential'), step('e', 'parallel')]);
+      assert.deepStrictEqual(stages.map((s) => s.map((x) => x.id)), [['a'], ['b', 'c'], ['d'], ['e']]);
+    });
+  });
+
+  describe('validateWorkflow', () => {
+    it('accepts a valid workflow', () => {
+      const { prompts, workflow } = load();
+      assert.deepStrictEqual(validateWorkflow(workflow, prompts), []);
+    });
+
+    it('reports missing prompts, duplicate ids, nesting and forward references', () => {
+      const { prompts, workflow } = load();
+      const bad: Workflow = {
+        ...workflow,
+        steps: [
+          { id: 'a', prompt: 'nope', mode: 'sequential', bindings: {} },
+          { id: 'b', prompt: 'review-pipeline', mode: 'parallel', bindings: {} },
+          { id: 'c', prompt: 'summarize', mode: 'parallel', bindings: { Input: '{steps.b.output}' } },
+          { id: 'a', prompt: 'summarize', mode: 'sequential', bindings: { Input: '{steps.z.output}' } },
+        ],
+      };
+      assert.deepStrictEqual(validateWorkflow(bad, prompts), [
+        "Step 'a': prompt 'nope' not found in prompts.md",
+        "Step 'b': 'review-pipeline' is a workflow; workflows cannot be nested",
+        "Step 'c': {steps.b.output} is not the output of an earlier step",
+        "Duplicate step id 'a'",
+        "Step 'a': {steps.z.output} is not the output of an earlier step",
+      ]);
+      assert.deepStrictEqual(validateWorkflow({ ...workflow, steps: [] }, prompts), ["Workflow 'review-pipeline' has no steps"]);
+    });
+  });
+
+  describe('resolveWorkflowInputs', () => {
+    it('matches keys case-insensitively and applies defaults', () => {
+      const { prompts, workflow } = load();
+      assert.deepStrictEqual(resolveWorkflowInputs(workflow, prompts, { path: 'lib' }), { inputs: { Path: 'lib' } });
+      assert.deepStrictEqual(resolveWorkflowInputs(workflow, prompts, {}), { inputs: { Path: 'src' } });
+    });
+
+    it('rejects unknown parameters', () => {
+      const { prompts, workflow } = load();
+      const r = resolveWorkflowInputs(workflow, prompts, { Nope: 'x' });
+      assert.ok('error' in r && r.error.includes('Nope'));
+    });
+  });
+
+  describe('expandBinding', () => {
+    it('replaces inputs and step outputs and keeps unknown placeholders', () => {
+      assert.strictEqual(
+        expandBinding('{Path} {steps.a.output} {steps.b.output} {Other}', { Path: 'src' }, { a: 'A {Path}' }),
+        'src A {Path} {steps.b.output} {Other}'
+      );
+    });
+  });
+
+  describe('runWorkflow', () => {
+    it('runs parallel stages together and passes outputs to later steps', async () => {
+      const { prompts, workflow } = load();
+      const calls: string[] = [];
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const outputs = await runWorkflow(
+        workflow,
+        prompts,
+        { Path: 'src' },
+        {
+          runStep: async (s, _p, text) => {
+            calls.push(text);
+            maxInFlight = Math.max(maxInFlight, ++inFlight);
+            await Promise.resolve();
+            inFlight--;
+            return ` out-${s.id}\n`;
+          },
+        },
+        new AbortController().signal
+      );
+      assert.strictEqual(maxInFlight, 2);
+      assert.deepStrictEqual(calls, ['Lint src.', 'Test src to depth 2.', 'Summarize: out-lint / out-tests']);
+      assert.deepStrictEqual(outputs, { lint: 'out-lint', tests: 'out-tests', summary: 'out-summary' });
+    });
+
+    it('stops at the first failure, cancels later steps and reports progress', async () => {
+      const { prompts, workflow } = load();
+      const reports: string[][] = [];
+      const ran: string[] = [];
+      await assert.rejects(
+        runWorkflow(
+          workflow,
+          prompts,
+          { Path: 'src' },
+          {
+            runStep: async (s) => {
+              ran.push(s.id);
+              if (s.id === 'tests') throw new Error('boom');
+              return 'ok';
+            },
+            report: (steps: readonly JobStep[]) => reports.push(steps.map((x) => `${x.id}:${x.status}`)),
+          },
+          new AbortController().signal
+        ),
+        /boom/
+      );
+      assert.deepStrictEqual(ran, ['lint', 'tests']);
+      assert.deepStrictEqual(reports[0], ['lint:pending', 'tests:pending', 'summary:pending']);
+      assert.deepStrictEqual(reports[reports.length - 1], ['lint:succeeded', 'tests:failed', 'summary:cancelled']);
+    });
+
+    it('does not start when already cancelled', async () => {
+      const { prompts, workflow } = load();
+      const controller = new AbortController();
+      controller.abort();
+      await assert.rejects(runWorkflow(workflow, prompts, {}, { runStep: () => Promise.resolve('') }, controller.signal), {
+        name: 'RunCancelledError',
+      });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Prompt workflows: prompts.md sections with a ### Steps table. Steps run in table order; consecutive parallel
+ * steps run together, and a step's captured output is available to later steps as `{steps.<id>.output}`.
+ * No vscode dependency; the extension supplies how a single step runs.
+ */
+
+import { STEP_OUTPUT_RE } from './parser';
+import type { ParsedPrompt, WorkflowStep } from './parser';
+import { resolvePromptArgs } from './commands';
+import { RunCancelledError, WorkflowError } from './errors';
+import { failureStatus } from './queue';
+import type { JobStep, JobStatus, JobProgressFn } from './queue';
+
+export type Workflow = ParsedPrompt & { steps: WorkflowStep[] };
+
+export function isWorkflow(prompt: ParsedPrompt | undefined): prompt is Workflow {
+  return !!prompt?.steps;
+}
+
+/** Splits steps into stages that run one after another: a sequential step alone, consecutive parallel steps together. */
+export function workflowStages(steps: readonly WorkflowStep[]): WorkflowStep[][] {
+  const stages: WorkflowStep[][] = [];
+  for (const step of steps) {
+    const last = stages[stages.length - 1];
+    if (step.mode === 'parallel' && last?.[0].mode === 'parallel') last.push(step);
+    else stages.push([step]);
+  }
+  return stages;
+}
+
+/**
+ * Problems that prevent a workflow from running: no steps, duplicate step ids, prompts that are missing or are
+ * workflows themselves, and `{steps.<id>.output}` references to steps that do not finish in an earlier stage.
+ */
+export function validateWorkflow(workflow: Workflow, prompts: readonly ParsedPrompt[]): string[] {
+  const errors: string[] = [];
+  if (workflow.steps.length === 0) errors.push(`Workflow '${workflow.name}' has no steps`);
+  const done = new Set<string>();
+  const seen = new Set<string>();
+  for (const stage of workflowStages(workflow.steps)) {
+    for (const step of stage) {
+      if (seen.has(step.id)) errors.push(`Duplicate step id '${step.id}'`);
+      seen.add(step.id);
+      const prompt = prompts.find((p) => p.name === step.prompt);
+      if (!prompt) errors.push(`Step '${step.id}': prompt '${step.prompt}' not found in prompts.md`);
+      else if (isWorkflow(prompt)) errors.push(`Step '${step.id}': '${step.prompt}' is a workflow; workflows cannot be nested`);
+      for (const value of Object.values(step.bindings)) {
+        for (const m of value.matchAll(/\{([^}]+)\}/g)) {
+          const ref = STEP_OUTPUT_RE.exec(m[1].trim());
+          if (ref && !done.has(ref[1])) errors.push(`Step '${step.id}': {${m[1].trim()}} is not the output of an earlier step`);
+        }
+      }
+    }
+    for (const step of stage) done.add(step.id);
+  }
+  return errors;
+}
+
+/**
+ * Workflow inputs from Key=Value arguments, as resolvePromptArgs: keys match case-insensitively, blank values fall
+ * back to the Default column. Also reports validateWorkflow problems.
+ */
+export function resolveWorkflowInputs(
+  workflow: Workflow,
+  prompts: readonly ParsedPrompt[],
+  args: Readonly<Record<string, string>>
+): { inputs: Record<string, string> } | { error: string } {
+  const problems = validateWorkflow(workflow, prompts);
+  if (problems.length > 0) return { error: problems.join('; ') };
+  const checked = resolvePromptArgs({ ...workflow, template: '' }, args);
+  if ('error' in checked) return checked;
+  const inputs: Record<string, string> = {};
+  for (const p of workflow.parameters) {
+    const key = Object.keys(args).find((k) => k.toLowerCase() === p.name.toLowerCase());
+    const value = key !== undefined ? args[key] : '';
+    const def = p.default.trim() === '-' ? '' : p.default.trim();
+    inputs[p.name] = value.trim() !== '' ? value : def;
+  }
+  return { inputs };
+}
+
+/** Replaces `{steps.<id>.output}` and workflow `{Param}` placeholders in one pass; other braces are kept as is. */
+export function expandBinding(
+  value: string,
+  inputs: Readonly<Record<string, string>>,
+  outputs: Readonly<Record<string, string>>
+): string {
+  return value.replace(/\{([^}]+)\}/g, (whole, raw: string) => {
+    const key = raw.trim();
+    const ref = STEP_OUTPUT_RE.exec(key);
+    if (ref) return Object.prototype.hasOwnProperty.call(outputs, ref[1]) ? outputs[ref[1]] : whole;
+    return Object.prototype.hasOwnProperty.call(inputs, key) ? inputs[key] : whole;
+  });
+}
+
+export interface WorkflowRunDeps {
+  /** Runs one step's filled prompt; resolves with its captured output ('' when the executor captures none). */
+  runStep: (step: WorkflowStep, prompt: ParsedPrompt, text: string, signal: AbortSignal) => Promise<string>;
+  log?: (line: string) => void;
+  report?: JobProgressFn;
+}
+
+/**
+ * Runs a workflow stage by stage. Inside a parallel stage every step is started, and the stage waits for all of
+ * them. The first failure stops the workflow (later steps are marked cancelled) and is rethrown.
+ * Returns the captured output of every step by id.
+ */
+export async function runWorkflow(
+  workflow: Workflow,
+  prompts: readonly ParsedPrompt[],
+  inputs: Readonly<Record<string, string>>,
+  deps: WorkflowRunDeps,
+  signal: AbortSignal
+): Promise<Record<string, string>> {
+  const outputs: Record<string, string> = {};
+  const progress: JobStep[] = workflow.steps.map((s) => ({ id: s.id, label: `${s.id}: ${s.prompt}`, status: 'pending' }));
+  const setStatus = (id: string, status: JobStatus) => {
+    const p = progress.find((x) => x.id === id);
+    if (p) p.status = status;
+    deps.report?.(progress);
+  };
+  deps.report?.(progress);
+
+  const stages = workflowStages(workflow.steps);
+  for (let i = 0; i < stages.length; i++) {
+    if (signal.aborted) throw new RunCancelledError();
+    const stage = stages[i];
+    deps.log?.(`[Cursor CLI] Workflow ${workflow.name}: stage ${i + 1}/${stages.length} (${stage.map((s) => s.id).join(', ')})`);
+    const results = await Promise.allSettled(
+      stage.map(async (step) => {
+        setStatus(step.id, 'running');
+        try {
+          const prompt = prompts.find((p) => p.name === step.prompt);
+          if (!prompt) throw new WorkflowError(`Step '${step.id}': prompt '${step.prompt}' not found in prompts.md`);
+          const values: Record<string, string> = {};
+          for (const [k, v] of Object.entries(step.bindings)) values[k] = expandBinding(v, inputs, outputs);
+          const filled = resolvePromptArgs(prompt, values);
+          if ('error' in filled) throw new WorkflowError(`Step '${step.id}': ${filled.error}`);
+          const out = await deps.runStep(step, prompt, filled.text, signal);
+          setStatus(step.id, 'succeeded');
+          deps.log?.(`[Cursor CLI] Workflow ${workflow.name}: step ${step.id} succeeded`);
+          return out;
+        } catch (e) {
+          const status = failureStatus(e, signal);
+          setStatus(step.id, status);
+          deps.log?.(`[Cursor CLI] Workflow ${workflow.name}: step ${step.id} ${status}: ${e instanceof Error ? e.message : String(e)}`);
+          throw e;
+        }
+      })
+    );
+    results.forEach((r, j) => {
+      if (r.status === 'fulfilled') outputs[stage[j].id] = r.value.trim();
+    });
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failure) {
+      for (const p of progress) if (p.status === 'pending') p.status = 'cancelled';
+      deps.report?.(progress);
+      throw failure.reason;
+    }
+  }
+  return outputs;
+}
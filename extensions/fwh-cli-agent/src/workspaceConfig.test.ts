@@ -0,0 +1,39 @@
+/**
+ * Unit tests for readEnvValues (the .env files the secret scan reads).
+ */
+
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readEnvValues } from './workspaceConfig';
+
+describe('workspaceConfig', () => {
+  let tmp: string;
+  let root: string;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-config-'));
+    root = path.join(tmp, 'folder');
+    fs.mkdirSync(path.join(root, 'config'), { recursive: true });
+    fs.writeFileSync(path.join(root, '.env'), 'TOKEN=abc\n');
+    fs.writeFileSync(path.join(root, '.env.example'), 'TOKEN=changeme\n');
+    fs.writeFileSync(path.join(root, 'config', 'secrets.env'), 'DB_PASSWORD=hunter2\n');
+    fs.writeFileSync(path.join(tmp, 'outside.env'), 'HOME_KEY=outside\n');
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
+  });
+
+  describe('readEnvValues', () => {
+    it('reads .env files in the folder without example files', () => {
+      assert.deepStrictEqual(readEnvValues(root, undefined), [{ name: 'TOKEN', value: 'abc' }]);
+    });
+
+    it('reads SecretScan.EnvFiles under the folder and ignores those outside it', () => {
+      const config = { SecretScan: { EnvFiles: ['config/secrets.env', '../outside.env', path.join(tmp, 'outside.env'), 'missing.env'] } };
+      assert.deepStrictEqual(readEnvValues(root, config), [{ name: 'DB_PASSWORD', value: 'hunter2' }]);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * A workspace folder's cli-agent.json and the shared context it selects. Uses fs; no vscode dependency (shared by
+ * the extension and fwh-prompts, so both read the same settings).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { isUnderWorkspaceRoot, parseReservedSections, SHARED_CONTEXT_SECTION } from './parser';
+import { resolveSharedContextPath } from './resolver';
+import type { ExecutorConfig } from './executors';
+import type { FanOutVariantConfig } from './fanout';
+import type { AutoArchivePolicy } from './archive';
+import { createSecretScanner, parseEnvValues } from './secrets';
+import type { EnvValue, SecretDetector, SecretScanConfig, SecretScanner } from './secrets';
+
+export const CLI_AGENT_JSON = 'cli-agent.json';
+
+export interface CliAgentJson {
+  CliAgent?: {
+    CliMdPath?: string;
+    PromptsMdPath?: string;
+    /** composer, agent-cli or the name of an Executors entry. */
+    ExecuteMode?: string;
+    ComposerCommand?: string;
+    Executors?: Record<string, ExecutorConfig>;
+    /** Named fan-out groups: the executor/model variants a `fanout=<group>` prompt is sent to. */
+    FanOut?: Record<string, FanOutVariantConfig[]>;
+    SharedContextPath?: string;
+    AutoArchive?: AutoArchivePolicy;
+    RunTimeoutSeconds?: string | number;
+    AgentTimeoutMinutes?: string | number;
+    SecretScan?: SecretScanConfig;
+    /** Size budget for workspace context placeholders ({file:...}, {glob:...}, ...), in characters. */
+    ContextMaxChars?: number;
+  };
+}
+
+export type CliAgentConfig = NonNullable<CliAgentJson['CliAgent']>;
+
+/** The CliAgent object of the folder's cli-agent.json; undefined when the file is missing. Throws when it is not JSON. */
+export function readCliAgentConfig(workspaceRoot: string): CliAgentConfig | undefined {
+  const p = path.join(workspaceRoot, CLI_AGENT_JSON);
+  if (!fs.existsSync(p)) return undefined;
+  return (JSON.parse(fs.readFileSync(p, 'utf8')) as CliAgentJson).CliAgent;
+}
+
+/**
+ * Shared context prepended to every run. cli-agent.json SharedContextPath wins (its ## shared-context section if
+ * present, else the whole file; '' when unreadable); otherwise the ## shared-context section of prompts.md.
+ * readText returns undefined for missing or unreadable files.
+ */
+export function readSharedContext(
+  workspaceRoot: string,
+  config: CliAgentConfig | undefined,
+  promptsMdPath: string,
+  readText: (fsPath: string) => string | undefined
+): string {
+  const altPath = resolveSharedContextPath(workspaceRoot, config?.SharedContextPath);
+  if (altPath) {
+    const alt = readText(altPath);
+    return alt === undefined ? '' : (parseReservedSections(alt)[SHARED_CONTEXT_SECTION] ?? alt.trim());
+  }
+  const promptsMd = readText(promptsMdPath);
+  return promptsMd ? (parseReservedSections(promptsMd)[SHARED_CONTEXT_SECTION] ?? '') : '';
+}
+
+/** .env files that document variables rather than hold them. */
+const ENV_TEMPLATE_RE = /\.(example|sample|template|dist)$/i;
+
+/**
+ * Values of the folder's .env files: SecretScan.EnvFiles (relative to the folder; entries outside it are ignored),
+ * else `.env` and `.env.*` in the folder itself without example/sample/template files. Missing or unreadable files
+ * are skipped.
+ */
+export function readEnvValues(workspaceRoot: string, config: CliAgentConfig | undefined): EnvValue[] {
+  let files = config?.SecretScan?.EnvFiles?.map((f) => path.resolve(workspaceRoot, f)).filter((f) => isUnderWorkspaceRoot(workspaceRoot, f));
+  if (!files) {
+    try {
+      files = fs
+        .readdirSync(workspaceRoot)
+        .filter((f) => /^\.env(\..+)?$/.test(f) && !ENV_TEMPLATE_RE.test(f))
+        .map((f) => path.join(workspaceRoot, f));
+    } catch {
+      files = [];
+    }
+  }
+  const values: EnvValue[] = [];
+  for (const f of files) {
+    try {
+      values.push(...parseEnvValues(fs.readFileSync(f, 'utf8')));
+    } catch {
+      /* missing or unreadable */
+    }
+  }
+  return values;
+}
+
+/** Secret scanner of a workspace folder (see createSecretScanner). Throws SecretScanConfigError for invalid SecretScan settings. */
+export function loadSecretScanner(workspaceRoot: string, config: CliAgentConfig | undefined, extra: readonly SecretDetector[] = []): SecretScanner {
+  if (config?.SecretScan?.Enabled === false) return () => [];
+  return createSecretScanner(config?.SecretScan, readEnvValues(workspaceRoot, config), extra);
+}
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for workspace context placeholders against a temporary folder: file and glob contents, the editor,
+ * environment variables, the size budget and paths outside the folder.
+ */
+
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describeContextPlaceholder, expandContextPlaceholders, globToRegExp, nodeContextSources } from './workspaceContext';
+import type { ContextSources } from './workspaceContext';
+
+describe('workspaceContext', () => {
+  let tmp: string;
+  let sources: ContextSources;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'fwh-context-'));
+    fs.mkdirSync(path.join(tmp, 'src', 'lib'), { recursive: true });
+    fs.mkdirSync(path.join(tmp, 'node_modules', 'x'), { recursive: true });
+    fs.writeFileSync(path.join(tmp, 'src', 'a.ts'), 'export const a = 1;\n');
+    fs.writeFileSync(path.join(tmp, 'src', 'lib', 'b.ts'), 'export const b = "```";\n');
+    fs.writeFileSync(path.join(tmp, 'src', 'logo.png'), Buffer.from([0x89, 0x50, 0, 0x47]));
+    fs.writeFileSync(path.join(tmp, 'node_modules', 'x', 'c.ts'), 'skipped');
+    sources = nodeContextSources(tmp, { TEAM: 'core' });
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tmp, { recursive: true }); } catch { /* ignore */ }
+  });
+
+  describe('globToRegExp', () => {
+    it('matches ** across directories, * and ? within one, and {a,b} alternatives', () => {
+      const re = globToRegExp('src/**/*.{ts,cs}');
+      assert.deepStrictEqual(['src/a.ts', 'src/lib/b.cs', 'src/a.js', 'test/a.ts'].map((p) => re.test(p)), [true, true, false, false]);
+      assert.ok(globToRegExp('?.md').test('a.md') && !globToRegExp('?.md').test('dir/a.md'));
+      assert.ok(globToRegExp('a+b(1).txt').test('a+b(1).txt'));
+    });
+  });
+
+  describe('describeContextPlaceholder', () => {
+    it('describes what each placeholder inserts and ignores parameters', () => {
+      assert.strictEqual(describeContextPlaceholder('file:src/a.ts'), 'Inserts `src/a.ts` (relative to the workspace folder) as a fenced code block.');
+      assert.strictEqual(describeContextPlaceholder('git.branchDiff: main'), 'Inserts the changes of the current branch since it left `main` (`git diff main...HEAD`).');
+      assert.strictEqual(describeContextPlaceholder('git.stagedDiff'), 'Inserts the staged changes (`git diff --cached`) as a fenced `diff` block.');
+      assert.strictEqual(describeContextPlaceholder('git.branch'), 'Inserts the current git branch.');
+      assert.strictEqual(describeContextPlaceholder('Path'), undefined);
+    });
+  });
+
+  describe('expandContextPlaceholders', () => {
+    it('inserts files and globs as fenced blocks and skips binary files and node_modules', async () => {
+      const r = await expandContextPlaceholders('Check {file:src/a.ts}\n\n{glob:**/*.ts}', sources);
+      assert.strictEqual(
+        r.text,
+        [
+          'Check File: src/a.ts',
+          '```ts',
+          'export const a = 1;',
+          '```',
+          '',
+          'File: src/a.ts',
+          '```ts',
+          'export const a = 1;',
+          '```',
+          '',
+          'File: src/lib/b.ts',
+          '````ts',
+          'export const b = "```";',
+          '````',
+        ].join('\n')
+      );
+      assert.deepStrictEqual(r.notes, []);
+      assert.strictEqual((await expandContextPlaceholders('{file:src/logo.png}', sources)).text, '[fwh: binary file skipped: src/logo.png]');
+    });
+
+    it('expands the folder, environment variables and the editor, and leaves other braces alone', async () => {
+      const editor = { ...sources, activeEditor: { fsPath: path.join(tmp, 'src', 'a.ts'), selection: 'const a' } };
+      const r = await expandContextPlaceholders('{workspaceFolder} {env:TEAM} "{selection}" {Other} {activeFile}', editor);
+      assert.strictEqual(r.text, `${path.resolve(tmp)} core "const a" {Other} File: src/a.ts\n\`\`\`ts\nexport const a = 1;\n\`\`\``);
+      const none = await expandContextPlaceholders('{selection} {env:NOPE}', sources);
+      assert.strictEqual(none.text, '[fwh: no active editor for {selection}] [fwh: environment variable not set: NOPE]');
+      assert.strictEqual(none.notes.length, 2);
+    });
+
+    it('turns escaped placeholders from filled values into literal text', async () => {
+      const r = await expandContextPlaceholders('{env:TEAM} {{env:TEAM}} {{ file:../x }} {{Other}}', sources);
+      assert.strictEqual(r.text, 'core {env:TEAM} { file:../x } {{Other}}');
+      assert.deepStrictEqual(r.notes, []);
+    });
+
+    it('refuses paths outside the workspace folder and reports missing files', async () => {
+      fs.writeFileSync(path.join(tmp, '..', `${path.basename(tmp)}-outside.txt`), 'secret');
+      const r = await expandContextPlaceholders(`{file:../${path.basename(tmp)}-outside.txt} {glob:../**} {file:src/none.ts} {glob:*.cs}`, sources);
+      assert.deepStrictEqual(r.notes, [
+        `file outside the workspace folder: ../${path.basename(tmp)}-outside.txt`,
+        'glob outside the workspace folder: ../**',
+        'file not found: src/none.ts',
+        'no files match *.cs',
+      ]);
+      assert.ok(!r.text.includes('secret'));
+      fs.unlinkSync(path.join(tmp, '..', `${path.basename(tmp)}-outside.txt`));
+    });
+
+    it('cuts text at the budget with a truncation marker and omits later files', async () => {
+      const r = await expandContextPlaceholders('{env:TEAM}{glob:src/**/*.ts}', sources, 10);
+      assert.strictEqual(
+        r.text,
+        [
+          'coreFile: src/a.ts',
+          '```ts',
+          'export',
+          '[... truncated: src/a.ts, 13 more characters; context budget of 10 characters reached ...]',
+          '```',
+          '',
+          '[fwh: 1 more file(s) matching src/**/*.ts omitted: context budget of 10 characters reached]',
+        ].join('\n')
+      );
+      assert.deepStrictEqual(r.notes, [
+        'src/a.ts truncated to 6 of 19 characters (context budget of 10 characters)',
+        '1 more file(s) matching src/**/*.ts omitted: context budget of 10 characters reached',
+      ]);
+    });
+  });
+});
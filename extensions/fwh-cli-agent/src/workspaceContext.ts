@@ -0,0 +1,269 @@
+/**
+ * Expands workspace context placeholders in prompt text when it runs: `{file:<path>}` and `{glob:<pattern>}` insert
+ * file contents, `{activeFile}` the active editor's file, `{selection}` its selected text, `{workspaceFolder}` the
+ * folder path, `{env:<NAME>}` an environment variable and `{git.*}` local git state (gitContext.ts). Files must be
+ * under the workspace folder (isUnderWorkspaceRoot), and all inserted text shares one size budget; what does not
+ * fit is cut with a marker.
+ * The editor and file access come from ContextSources (vscode in the extension, fs in fwh-prompts via
+ * nodeContextSources). No vscode dependency.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONTEXT_PLACEHOLDER_RE, isUnderWorkspaceRoot } from './parser';
+import { gitBranch, gitBranchDiff, gitChangedFiles, gitRunner, gitStagedDiff } from './gitContext';
+import type { GitRunner } from './gitContext';
+
+/** Default budget for the text context placeholders insert into one prompt, in characters. */
+export const DEFAULT_CONTEXT_MAX_CHARS = 100_000;
+
+/** Directories never searched by nodeContextSources' glob matching. */
+const SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+
+/** Where placeholder values come from. */
+export interface ContextSources {
+  workspaceRoot: string;
+  /** File text; undefined when missing or unreadable. The extension prefers open (possibly unsaved) documents. */
+  readFile: (fsPath: string) => string | undefined;
+  /** Absolute paths of the folder's files matching a workspace-relative glob. */
+  findFiles: (pattern: string) => Promise<string[]>;
+  /** The active editor, when there is one (the extension only). */
+  activeEditor?: { fsPath: string; selection: string };
+  env: Readonly<Record<string, string | undefined>>;
+  /** git in the workspace folder, for the `{git.*}` placeholders. */
+  git?: GitRunner;
+  /** Workspace-relative files the `{git.*}` diffs and file list are limited to; the whole folder when unset. */
+  gitPaths?: readonly string[];
+}
+
+/** Expanded text and one note per placeholder that was cut, skipped or could not be resolved (for the log). */
+export interface ExpandedContext {
+  text: string;
+  notes: string[];
+}
+
+/**
+ * Regular expression for a workspace-relative glob: `**` spans directories, `*` and `?` stay within one, `{a,b}`
+ * is an alternative. Matched against `/`-separated relative paths.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let re = '';
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      re += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (c === '*') re += '[^/]*';
+    else if (c === '?') re += '[^/]';
+    else if (c === '{') {
+      braces++;
+      re += '(?:';
+    } else if (c === '}' && braces > 0) {
+      braces--;
+      re += ')';
+    } else if (c === ',' && braces > 0) re += '|';
+    else re += c.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/** Sources for fwh-prompts: files from disk, globs matched by walking the folder, no editor. */
+export function nodeContextSources(workspaceRoot: string, env: NodeJS.ProcessEnv = process.env): ContextSources {
+  const root = path.resolve(workspaceRoot);
+  return {
+    workspaceRoot: root,
+    readFile: (fsPath) => {
+      try {
+        return fs.readFileSync(fsPath, 'utf8');
+      } catch {
+        return undefined;
+      }
+    },
+    findFiles: async (pattern) => {
+      const re = globToRegExp(pattern.replace(/^\.\//, ''));
+      const found: string[] = [];
+      const walk = (dir: string) => {
+        let entries: fs.Dirent[];
+        try {
+          entries = fs.readdirSync(dir, { withFileTypes: true });
+        } catch {
+          return;
+        }
+        for (const e of entries) {
+          const full = path.join(dir, e.name);
+          if (e.isDirectory()) {
+            if (!SKIPPED_DIRS.has(e.name)) walk(full);
+          } else if (e.isFile() && re.test(path.relative(root, full).split(path.sep).join('/'))) {
+            found.push(full);
+          }
+        }
+      };
+      walk(root);
+      return found;
+    },
+    env,
+    git: gitRunner(root),
+  };
+}
+
+/** What a context placeholder inserts at run time, for editor hovers; undefined for other names. */
+export function describeContextPlaceholder(name: string): string | undefined {
+  const c = CONTEXT_PLACEHOLDER_RE.exec(name.trim());
+  if (!c) return undefined;
+  const arg = (c[2] ?? '').trim();
+  switch (c[1] ?? c[3]) {
+    case 'file':
+      return `Inserts \`${arg}\` (relative to the workspace folder) as a fenced code block.`;
+    case 'glob':
+      return `Inserts every file matching \`${arg}\` in the workspace folder as a fenced code block, sorted by path.`;
+    case 'env':
+      return `Inserts the environment variable \`${arg}\`.`;
+    case 'selection':
+      return 'Inserts the selected text of the active editor.';
+    case 'activeFile':
+      return "Inserts the active editor's file as a fenced code block.";
+    case 'workspaceFolder':
+      return 'Inserts the workspace folder path.';
+    case 'git.stagedDiff':
+      return 'Inserts the staged changes (`git diff --cached`) as a fenced `diff` block.';
+    case 'git.branchDiff':
+      return `Inserts the changes of the current branch since it left \`${arg}\` (\`git diff ${arg}...HEAD\`).`;
+    case 'git.changedFiles':
+      return 'Inserts the staged, unstaged and untracked files in `git status --short` form.';
+    default:
+      return 'Inserts the current git branch.';
+  }
+}
+
+/** A fence longer than any backtick run in text. */
+function fenceFor(text: string): string {
+  const longest = Math.max(2, ...Array.from(text.matchAll(/`+/g), (m) => m[0].length));
+  return '`'.repeat(longest + 1);
+}
+
+/**
+ * Expands the context placeholders of text in one pass (inserted text is not expanded again). Unknown names are
+ * left alone, and an escaped `{{file:...}}` (a filled parameter value, see fillPromptTemplate) becomes the literal
+ * `{file:...}`. Files are inserted as a `File: <relative path>` line and a fenced block; when the budget of maxChars
+ * inserted characters runs out, the file is cut with a `[... truncated ...]` marker and later files are replaced
+ * by an omission marker. Diffs are inserted as a fenced `diff` block. Files outside the folder, missing or binary
+ * files, an unavailable editor, empty diffs and failed git commands leave a `[fwh: ...]` marker in the text and a
+ * note.
+ */
+export async function expandContextPlaceholders(
+  text: string,
+  sources: ContextSources,
+  maxChars = DEFAULT_CONTEXT_MAX_CHARS
+): Promise<ExpandedContext> {
+  const root = path.resolve(sources.workspaceRoot);
+  const notes: string[] = [];
+  let remaining = maxChars;
+  const marker = (note: string) => {
+    notes.push(note);
+    return `[fwh: ${note}]`;
+  };
+  const relative = (fsPath: string) => path.relative(root, fsPath).split(path.sep).join('/');
+
+  /** Text within the budget; cut with a marker when it does not fit. */
+  const budgeted = (content: string, what: string): string => {
+    if (content.length <= remaining) {
+      remaining -= content.length;
+      return content;
+    }
+    const kept = content.slice(0, Math.max(0, remaining));
+    remaining = 0;
+    notes.push(`${what} truncated to ${kept.length} of ${content.length} characters (context budget of ${maxChars} characters)`);
+    return `${kept}\n[... truncated: ${what}, ${content.length - kept.length} more characters; context budget of ${maxChars} characters reached ...]`;
+  };
+
+  const fileBlock = (fsPath: string, content?: string): string => {
+    const rel = relative(fsPath);
+    const body = content ?? sources.readFile(fsPath);
+    if (body === undefined) return marker(`file not found: ${rel}`);
+    if (body.includes('\0')) return marker(`binary file skipped: ${rel}`);
+    if (remaining <= 0) return marker(`${rel} omitted: context budget of ${maxChars} characters reached`);
+    const inner = budgeted(body.replace(/\s+$/, ''), rel);
+    const fence = fenceFor(inner);
+    return `File: ${rel}\n${fence}${path.extname(fsPath).slice(1)}\n${inner}\n${fence}`;
+  };
+
+  const resolve = async (kind: string, arg: string): Promise<string> => {
+    switch (kind) {
+      case 'file': {
+        const fsPath = path.resolve(root, arg);
+        if (!isUnderWorkspaceRoot(root, fsPath)) return marker(`file outside the workspace folder: ${arg}`);
+        return fileBlock(fsPath);
+      }
+      case 'glob': {
+        if (path.isAbsolute(arg) || arg.split(/[\\/]/).includes('..')) return marker(`glob outside the workspace folder: ${arg}`);
+        const files = (await sources.findFiles(arg)).filter((f) => isUnderWorkspaceRoot(root, f)).sort((a, b) => relative(a).localeCompare(relative(b)));
+        if (files.length === 0) return marker(`no files match ${arg}`);
+        const blocks: string[] = [];
+        for (let i = 0; i < files.length; i++) {
+          if (remaining <= 0) {
+            blocks.push(marker(`${files.length - i} more file(s) matching ${arg} omitted: context budget of ${maxChars} characters reached`));
+            break;
+          }
+          blocks.push(fileBlock(files[i]));
+        }
+        return blocks.join('\n\n');
+      }
+      case 'env': {
+        const value = sources.env[arg];
+        return value === undefined ? marker(`environment variable not set: ${arg}`) : budgeted(value, `env:${arg}`);
+      }
+      case 'workspaceFolder':
+        return root;
+      case 'activeFile': {
+        const editor = sources.activeEditor;
+        if (!editor) return marker('no active editor for {activeFile}');
+        if (!isUnderWorkspaceRoot(root, editor.fsPath)) return marker('the active file is outside the workspace folder');
+        return fileBlock(editor.fsPath);
+      }
+      case 'selection': {
+        const editor = sources.activeEditor;
+        if (!editor) return marker('no active editor for {selection}');
+        if (!isUnderWorkspaceRoot(root, editor.fsPath)) return marker('the active file is outside the workspace folder');
+        return budgeted(editor.selection, `selection in ${relative(editor.fsPath)}`);
+      }
+      case 'git.stagedDiff':
+      case 'git.branchDiff':
+      case 'git.changedFiles':
+      case 'git.branch': {
+        const git = sources.git;
+        if (!git) return marker(`git is not available for {${kind}}`);
+        const scope = sources.gitPaths?.length ? ` in the ${sources.gitPaths.length} selected file(s)` : '';
+        try {
+          if (kind === 'git.branch') return await gitBranch(git);
+          if (kind === 'git.changedFiles') {
+            const files = await gitChangedFiles(git, sources.gitPaths);
+            return files ? budgeted(files, 'changed files') : marker(`no changed files${scope}`);
+          }
+          const diff = kind === 'git.stagedDiff' ? await gitStagedDiff(git, sources.gitPaths) : await gitBranchDiff(git, arg, sources.gitPaths);
+          const what = kind === 'git.stagedDiff' ? 'staged changes' : `changes since ${arg}`;
+          if (!diff.trim()) return marker(`no ${what}${scope}`);
+          if (remaining <= 0) return marker(`${what} omitted: context budget of ${maxChars} characters reached`);
+          const inner = budgeted(diff.replace(/\s+$/, ''), what);
+          const fence = fenceFor(inner);
+          return `${fence}diff\n${inner}\n${fence}`;
+        } catch (e) {
+          return marker(e instanceof Error ? e.message : String(e));
+        }
+      }
+      default:
+        return '';
+    }
+  };
+
+  let out = '';
+  let last = 0;
+  for (const m of text.matchAll(/\{\{([^{}]+)\}\}|\{([^{}]+)\}/g)) {
+    const c = CONTEXT_PLACEHOLDER_RE.exec((m[1] ?? m[2]).trim());
+    if (!c) continue;
+    out += text.slice(last, m.index) + (m[1] !== undefined ? m[0].slice(1, -1) : await resolve(c[1] ?? c[3], (c[2] ?? '').trim()));
+    last = (m.index ?? 0) + m[0].length;
+  }
+  return { text: out + text.slice(last), notes };
+}